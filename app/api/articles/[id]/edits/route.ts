@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/db";
+import { articles, type ArticleSettings } from "@/db/schema/articles";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { StaleArticleError } from "@/lib/article-revisions";
+import { acceptInlineEditSchema, inlineEditSchema } from "@/lib/inline-edit-actions";
+import { acceptInlineEdit, InlineEditError, suggestInlineEdit } from "@/lib/inline-edits";
+import { LLMConfigurationError, LLMError } from "@/lib/llm";
+
+async function findArticle(articleId: string, userId: string) {
+  const [existing] = await db
+    .select()
+    .from(articles)
+    .where(and(eq(articles.id, articleId), eq(articles.userId, userId)))
+    .limit(1);
+
+  return existing ? { ...existing, settings: existing.settings as ArticleSettings } : null;
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: "Invalid request data",
+        details: error.issues.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof InlineEditError) {
+    return NextResponse.json({ error: error.message, code: "inline_edit_failed" }, { status: 422 });
+  }
+
+  if (error instanceof StaleArticleError) {
+    return NextResponse.json({ error: error.message, code: "stale_article" }, { status: 409 });
+  }
+
+  if (error instanceof LLMConfigurationError) {
+    return NextResponse.json(
+      { error: "AI service configuration error. Please contact support." },
+      { status: 500 }
+    );
+  }
+
+  if (error instanceof LLMError) {
+    return NextResponse.json(
+      { error: error.userMessage, code: error.code, retryAfter: error.retryAfter },
+      {
+        status: error.status,
+        headers: error.retryAfter ? { "Retry-After": String(error.retryAfter) } : undefined,
+      }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  );
+}
+
+// Suggests a rewrite of the selected text; nothing is saved until the suggestion is accepted
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const input = inlineEditSchema.parse(await request.json());
+    const article = await findArticle(params.id, session.user.id);
+
+    if (!article) {
+      return NextResponse.json(
+        { error: "Article not found or you don't have permission to edit it" },
+        { status: 404 }
+      );
+    }
+
+    const suggestion = await suggestInlineEdit(session.user.id, article, input, request.signal);
+
+    return NextResponse.json(suggestion);
+
+  } catch (error) {
+    console.error("Error suggesting inline edit:", error);
+    return errorResponse(error, "Failed to rewrite the selected text");
+  }
+}
+
+// Replaces the selected text with an accepted suggestion and returns the article as its new revision
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const input = acceptInlineEditSchema.parse(await request.json());
+    const existing = await findArticle(params.id, session.user.id);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Article not found or you don't have permission to edit it" },
+        { status: 404 }
+      );
+    }
+
+    const article = await acceptInlineEdit(existing, input);
+
+    console.log(`Inline edit (${input.action}) applied to article ${params.id} by user ${session.user.id}`);
+
+    return NextResponse.json(article);
+
+  } catch (error) {
+    console.error("Error applying inline edit:", error);
+    return errorResponse(error, "Failed to apply the edit");
+  }
+}
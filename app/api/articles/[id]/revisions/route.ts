@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { listArticleRevisions } from "@/lib/article-revisions";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const revisions = await listArticleRevisions(session.user.id, params.id);
+
+    if (!revisions) {
+      return NextResponse.json(
+        { error: "Article not found or you don't have permission to access it" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(revisions);
+
+  } catch (error) {
+    console.error("Error fetching article revisions:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch revisions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/db";
-import { articles } from "@/db/schema/articles";
-import { eq } from "drizzle-orm";
+import { articles, type ArticleSettings } from "@/db/schema/articles";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { finalizeEditedArticle, resolveSavedArticle } from "@/lib/article-generation";
+import { saveArticleRevision, StaleArticleError } from "@/lib/article-revisions";
+import { articleMetadataUpdateSchema, getStructuredArticle, slugify } from "@/lib/structured-article";
 
 export async function DELETE(
   request: NextRequest,
@@ -113,4 +117,86 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Updates the structured metadata (meta title, meta description, slug, H1, FAQ) of an article and
+// saves it as a new revision, with the requirement checks run again on the edited article
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const articleId = params.id;
+    const updates = articleMetadataUpdateSchema.parse(await request.json());
+
+    const [existing] = await db
+      .select()
+      .from(articles)
+      .where(and(eq(articles.id, articleId), eq(articles.userId, session.user.id)))
+      .limit(1);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Article not found or you don't have permission to edit it" },
+        { status: 404 }
+      );
+    }
+
+    // Articles that were never back-filled are parsed on the fly
+    const current = getStructuredArticle(existing);
+    const next = {
+      ...current,
+      ...updates,
+      slug: slugify(updates.slug ?? current.slug),
+    };
+
+    const data = await resolveSavedArticle({ ...existing, settings: existing.settings as ArticleSettings });
+    const finalized = await finalizeEditedArticle(data, next);
+    const article = await saveArticleRevision(
+      existing,
+      { ...finalized, promptRecord: null },
+      { source: "metadata", note: "Edited the metadata" }
+    );
+
+    console.log(`Article ${articleId} metadata updated by user ${session.user.id}`);
+
+    return NextResponse.json(article);
+
+  } catch (error) {
+    console.error("Error updating article:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof StaleArticleError) {
+      return NextResponse.json({ error: error.message, code: "stale_article" }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update article" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/db";
+import { articles, type ArticleSettings } from "@/db/schema/articles";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { StaleArticleError } from "@/lib/article-revisions";
+import { LLMConfigurationError, LLMError } from "@/lib/llm";
+import {
+  regenerateSection,
+  regenerateSectionSchema,
+  SectionRegenerationError,
+} from "@/lib/section-regeneration";
+
+// Regenerates one H2 section of the article and returns the article as its new revision
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const articleId = params.id;
+    const input = regenerateSectionSchema.parse(await request.json());
+
+    const [existing] = await db
+      .select()
+      .from(articles)
+      .where(and(eq(articles.id, articleId), eq(articles.userId, session.user.id)))
+      .limit(1);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Article not found or you don't have permission to edit it" },
+        { status: 404 }
+      );
+    }
+
+    const article = await regenerateSection(
+      session.user.id,
+      { ...existing, settings: existing.settings as ArticleSettings },
+      input,
+      request.signal
+    );
+
+    console.log(`Section "${input.heading}" of article ${articleId} regenerated by user ${session.user.id}`);
+
+    return NextResponse.json(article);
+
+  } catch (error) {
+    console.error("Error regenerating section:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SectionRegenerationError) {
+      return NextResponse.json({ error: error.message, code: "section_regeneration_failed" }, { status: 422 });
+    }
+
+    if (error instanceof StaleArticleError) {
+      return NextResponse.json({ error: error.message, code: "stale_article" }, { status: 409 });
+    }
+
+    if (error instanceof LLMConfigurationError) {
+      return NextResponse.json(
+        { error: "AI service configuration error. Please contact support." },
+        { status: 500 }
+      );
+    }
+
+    if (error instanceof LLMError) {
+      return NextResponse.json(
+        { error: error.userMessage, code: error.code, retryAfter: error.retryAfter },
+        {
+          status: error.status,
+          headers: error.retryAfter ? { "Retry-After": String(error.retryAfter) } : undefined,
+        }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to regenerate section" },
+      { status: 500 }
+    );
+  }
+}
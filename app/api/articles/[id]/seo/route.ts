@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/db";
+import { articles, type ArticleSettings } from "@/db/schema/articles";
+import { and, eq } from "drizzle-orm";
+import { analyzeKeywords } from "@/lib/keyword-analysis";
+import { getStructuredArticle } from "@/lib/structured-article";
+
+// Keyword density and placement report for one article
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const [article] = await db
+      .select()
+      .from(articles)
+      .where(and(eq(articles.id, params.id), eq(articles.userId, session.user.id)))
+      .limit(1);
+
+    if (!article) {
+      return NextResponse.json(
+        { error: "Article not found or you don't have permission to access it" },
+        { status: 404 }
+      );
+    }
+
+    const settings = article.settings as ArticleSettings;
+    const analysis = analyzeKeywords(getStructuredArticle(article), article.keywords, settings.language);
+
+    return NextResponse.json({ articleId: article.id, ...analysis });
+
+  } catch (error) {
+    console.error("Error analyzing article keywords:", error);
+
+    return NextResponse.json(
+      { error: "Failed to analyze article" },
+      { status: 500 }
+    );
+  }
+}
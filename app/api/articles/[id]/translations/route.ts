@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/db";
+import { articles, type ArticleSettings } from "@/db/schema/articles";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import {
+  listArticleTranslations,
+  translateArticle,
+  translateArticleSchema,
+  TranslationError,
+} from "@/lib/article-translation";
+import { GenerationLimitError } from "@/lib/generation-quota";
+import { LLMConfigurationError, LLMError } from "@/lib/llm";
+
+// The article and its language versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const translations = await listArticleTranslations(session.user.id, params.id);
+
+    if (!translations) {
+      return NextResponse.json(
+        { error: "Article not found or you don't have permission to access it" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(translations);
+
+  } catch (error) {
+    console.error("Error fetching article translations:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch translations" },
+      { status: 500 }
+    );
+  }
+}
+
+// Translates the article into another language and returns the new language version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const articleId = params.id;
+    const input = translateArticleSchema.parse(await request.json());
+
+    const [existing] = await db
+      .select()
+      .from(articles)
+      .where(and(eq(articles.id, articleId), eq(articles.userId, session.user.id)))
+      .limit(1);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Article not found or you don't have permission to translate it" },
+        { status: 404 }
+      );
+    }
+
+    const translation = await translateArticle(
+      session.user.id,
+      { ...existing, settings: existing.settings as ArticleSettings },
+      input,
+      request.signal
+    );
+
+    console.log(`Article ${articleId} translated into ${input.language} as ${translation.id} by user ${session.user.id}`);
+
+    return NextResponse.json(translation, { status: 201 });
+
+  } catch (error) {
+    console.error("Error translating article:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TranslationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === "translation_exists" ? 409 : 422 }
+      );
+    }
+
+    if (error instanceof GenerationLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, retryAfter: error.retryAfter },
+        { status: 429, headers: { "Retry-After": String(error.retryAfter) } }
+      );
+    }
+
+    if (error instanceof LLMConfigurationError) {
+      return NextResponse.json(
+        { error: "AI service configuration error. Please contact support." },
+        { status: 500 }
+      );
+    }
+
+    if (error instanceof LLMError) {
+      return NextResponse.json(
+        { error: error.userMessage, code: error.code, retryAfter: error.retryAfter },
+        {
+          status: error.status,
+          headers: error.retryAfter ? { "Retry-After": String(error.retryAfter) } : undefined,
+        }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to translate article" },
+      { status: 500 }
+    );
+  }
+}
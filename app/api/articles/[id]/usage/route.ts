@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getArticleUsage } from "@/lib/llm-usage";
+
+// Token and cost totals of every LLM call made for one article
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const usage = await getArticleUsage(session.user.id, params.id);
+
+    return NextResponse.json({ articleId: params.id, ...usage });
+
+  } catch (error) {
+    console.error("Error fetching article usage:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch article usage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { draftArticleSchema, saveDraftArticle } from "@/lib/article-generation";
+
+// Saves the partial output of a cancelled generation as a draft article
+export async function POST(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = draftArticleSchema.parse(body);
+
+    const article = await saveDraftArticle(session.user.id, validatedData);
+
+    console.log("Draft article saved to database:", article.id);
+
+    return NextResponse.json(article, { status: 201 });
+
+  } catch (error) {
+    console.error("Error saving draft article:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to save draft" },
+      { status: 500 }
+    );
+  }
+}
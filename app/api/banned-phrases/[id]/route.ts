@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { deleteBannedPhrase } from "@/lib/banned-phrases";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const entry = await deleteBannedPhrase(session.user.id, params.id);
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Banned phrase not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("Error deleting banned phrase:", error);
+
+    return NextResponse.json(
+      { error: "Failed to delete banned phrase" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { addBannedPhrase, listBannedPhrases } from "@/lib/banned-phrases";
+
+const bannedPhraseSchema = z.object({
+  phrase: z.string().trim().min(2).max(100),
+});
+
+// List the phrases the user has banned from their articles
+export async function GET(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const phrases = await listBannedPhrases(session.user.id);
+
+    return NextResponse.json(phrases);
+
+  } catch (error) {
+    console.error("Error fetching banned phrases:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch banned phrases" },
+      { status: 500 }
+    );
+  }
+}
+
+// Ban a phrase from the user's future articles
+export async function POST(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { phrase } = bannedPhraseSchema.parse(body);
+
+    const entry = await addBannedPhrase(session.user.id, phrase);
+
+    return NextResponse.json(entry, { status: 201 });
+
+  } catch (error) {
+    console.error("Error adding banned phrase:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error && typeof error === "object" && "code" in error && error.code === "23505") {
+      return NextResponse.json(
+        { error: "This phrase is already banned." },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to add banned phrase" },
+      { status: 500 }
+    );
+  }
+}
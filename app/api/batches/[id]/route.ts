@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { getGenerationBatch, updateGenerationBatch } from "@/lib/generation-batches";
+import { GenerationLimitError } from "@/lib/generation-quota";
+
+const batchActionSchema = z.object({
+  action: z.enum(["pause", "resume", "retry"]),
+});
+
+// The batch with the status of every row
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const batch = await getGenerationBatch(session.user.id, params.id);
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Batch not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(batch);
+
+  } catch (error) {
+    console.error("Error fetching generation batch:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch generation batch" },
+      { status: 500 }
+    );
+  }
+}
+
+// Pause or resume the batch, or queue its failed rows again
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { action } = batchActionSchema.parse(body);
+
+    const batch = await updateGenerationBatch(session.user.id, params.id, action);
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Batch not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(batch);
+
+  } catch (error) {
+    console.error("Error updating generation batch:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof GenerationLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, retryAfter: error.retryAfter },
+        { status: 429, headers: { "Retry-After": String(error.retryAfter) } }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update generation batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { BulkImportError } from "@/lib/bulk-csv";
+import {
+  bulkImportSchema,
+  createGenerationBatch,
+  listGenerationBatches,
+  validateBulkImport,
+} from "@/lib/generation-batches";
+import { acquireBatchGenerationSlots, finishGenerationSlot, GenerationLimitError } from "@/lib/generation-quota";
+import { PromptTemplateError } from "@/lib/prompt-template-renderer";
+import { BrandVoiceError } from "@/lib/brand-voices";
+
+// Start a bulk import; every row must be valid
+export async function POST(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized. Please sign in to generate articles." },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = bulkImportSchema.parse(body);
+
+    // Validated again here; the report the client saw may be stale
+    const { report, requests } = await validateBulkImport(session.user.id, input);
+    if (report.validRows < report.rows.length) {
+      return NextResponse.json(
+        { error: "Some rows are invalid. Fix them and try again.", code: "invalid_rows", report },
+        { status: 400 }
+      );
+    }
+
+    // The whole batch counts towards the plan's article quotas up front, one slot per row
+    const requestIds = await acquireBatchGenerationSlots(session.user.id, requests.length);
+
+    const batch = await createGenerationBatch(session.user.id, input.name || "Bulk import", requests, requestIds).catch(
+      async (error) => {
+        await Promise.all(requestIds.map((requestId) => finishGenerationSlot(requestId, "failed")));
+        throw error;
+      }
+    );
+
+    console.log(`Generation batch ${batch.id} queued ${batch.totalRows} rows for user ${session.user.id}`);
+
+    return NextResponse.json(batch, { status: 201 });
+
+  } catch (error) {
+    console.error("Error creating generation batch:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof BulkImportError) {
+      return NextResponse.json({ error: error.message, code: "invalid_csv" }, { status: 400 });
+    }
+
+    if (error instanceof GenerationLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, retryAfter: error.retryAfter },
+        { status: 429, headers: { "Retry-After": String(error.retryAfter) } }
+      );
+    }
+
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: error.message, code: "invalid_prompt_template" }, { status: 400 });
+    }
+
+    if (error instanceof BrandVoiceError) {
+      return NextResponse.json({ error: error.message, code: "invalid_brand_voice" }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to start bulk import" },
+      { status: 500 }
+    );
+  }
+}
+
+// List the user's batches with their progress
+export async function GET(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const batches = await listGenerationBatches(session.user.id);
+
+    return NextResponse.json(batches);
+
+  } catch (error) {
+    console.error("Error fetching generation batches:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch generation batches" },
+      { status: 500 }
+    );
+  }
+}
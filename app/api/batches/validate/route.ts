@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { BulkImportError } from "@/lib/bulk-csv";
+import { bulkImportSchema, validateBulkImport } from "@/lib/generation-batches";
+import { PromptTemplateError } from "@/lib/prompt-template-renderer";
+import { BrandVoiceError } from "@/lib/brand-voices";
+
+// Row-by-row report of a bulk import, so it can be fixed before the batch starts
+export async function POST(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = bulkImportSchema.parse(body);
+
+    const { report } = await validateBulkImport(session.user.id, input);
+
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error("Error validating bulk import:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof BulkImportError) {
+      return NextResponse.json({ error: error.message, code: "invalid_csv" }, { status: 400 });
+    }
+
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: error.message, code: "invalid_prompt_template" }, { status: 400 });
+    }
+
+    if (error instanceof BrandVoiceError) {
+      return NextResponse.json({ error: error.message, code: "invalid_brand_voice" }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to validate bulk import" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { brandVoiceSchema, deleteBrandVoice, updateBrandVoice } from "@/lib/brand-voices";
+
+// Replace every field of the profile
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = brandVoiceSchema.parse(body);
+
+    const voice = await updateBrandVoice(session.user.id, params.id, input);
+
+    if (!voice) {
+      return NextResponse.json(
+        { error: "Brand voice not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(voice);
+
+  } catch (error) {
+    console.error("Error updating brand voice:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update brand voice" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const voice = await deleteBrandVoice(session.user.id, params.id);
+
+    if (!voice) {
+      return NextResponse.json(
+        { error: "Brand voice not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("Error deleting brand voice:", error);
+
+    return NextResponse.json(
+      { error: "Failed to delete brand voice" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { brandVoiceSchema, createBrandVoice, listBrandVoices } from "@/lib/brand-voices";
+
+// List the user's brand voice profiles
+export async function GET(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const voices = await listBrandVoices(session.user.id);
+
+    return NextResponse.json(voices);
+
+  } catch (error) {
+    console.error("Error fetching brand voices:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch brand voices" },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a new brand voice profile
+export async function POST(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = brandVoiceSchema.parse(body);
+
+    const voice = await createBrandVoice(session.user.id, input);
+
+    return NextResponse.json(voice, { status: 201 });
+
+  } catch (error) {
+    console.error("Error creating brand voice:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create brand voice" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,37 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { z } from "zod";
-import { db } from "@/db";
-import { articles } from "@/db/schema/articles";
-import { buildArticlePrompt } from "@/lib/prompt-builder";
-import { generateId } from "@/lib/utils";
-import OpenAI from "openai";
-
-// Validation schema
-const generateRequestSchema = z.object({
-  title: z.string().min(1).max(200),
-  keywords: z.string().min(1).max(500),
-  articleType: z.enum(["None", "How-to guide", "Listicle", "Product review", "News", "Comparison", "Case study", "Opinion piece", "Tutorial", "Roundup post", "Q&A page"]),
-  articleSize: z.enum(["X-Small", "Small", "Medium", "Large"]),
-  tone: z.enum(["None", "Friendly", "Professional", "Informational", "Transactional", "Inspirational", "Neutral", "Witty", "Casual", "Authoritative", "Encouraging", "Persuasive", "Poetic"]),
-  pointOfView: z.enum(["None", "First person singular", "First person plural", "Second person", "Third person"]),
-  readability: z.enum(["None", "5th grade", "6th grade", "7th grade", "8th & 9th grade", "10th to 12th grade", "College", "College graduate", "Professional"]),
-  aiCleaning: z.enum(["No AI Words Removal", "Basic AI Words Removal", "Extended AI Words Removal"]),
-  structure: z.object({
-    conclusion: z.boolean(),
-    faqSection: z.boolean(),
-    tables: z.boolean(),
-    h3Headings: z.boolean(),
-    lists: z.boolean(),
-    italics: z.boolean(),
-    bold: z.boolean(),
-    quotes: z.boolean(),
-    keyTakeaways: z.boolean(),
-  }),
-  language: z.string().min(1),
-});
+import {
+  finalizeArticle,
+  generateArticleContent,
+  generateRequestSchema,
+  planArticle,
+  saveGeneratedArticle,
+  resolveArticleRequest,
+} from "@/lib/article-generation";
+import { getBannedPhraseList } from "@/lib/banned-phrases";
+import { createUsageTracker } from "@/lib/llm-usage";
+import { createPromptRecorder } from "@/lib/prompt-recorder";
+import { acquireGenerationSlot, finishGenerationSlot, GenerationLimitError } from "@/lib/generation-quota";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  failIdempotencyKey,
+  getIdempotencyKey,
+  IdempotencyError,
+} from "@/lib/idempotency";
+import { getLLMProvider, LLMConfigurationError, LLMError } from "@/lib/llm";
+import { PromptTemplateError } from "@/lib/prompt-template-renderer";
+import { BrandVoiceError } from "@/lib/brand-voices";
 
 export async function POST(request: NextRequest) {
+  // Request counted against the user's plan, released however the generation ends
+  let slotId: string | null = null;
+  let succeeded = false;
+  // The client aborted the request, e.g. with the form's Cancel button
+  let cancelled = false;
+  // Set once this request owns its Idempotency-Key
+  let claimedKey: { userId: string; key: string } | null = null;
+
   try {
     // Validate session
     const session = await auth.api.getSession({
@@ -49,6 +50,20 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = generateRequestSchema.parse(body);
 
+    // A repeated request returns the original response instead of generating a second article
+    const idempotencyKey = getIdempotencyKey(request.headers);
+    if (idempotencyKey) {
+      const replay = await claimIdempotencyKey(session.user.id, idempotencyKey, "generate", validatedData);
+      if (replay) {
+        console.log("Replaying idempotent generation response for key:", idempotencyKey);
+        return NextResponse.json(replay.response, {
+          status: replay.statusCode,
+          headers: { "Idempotent-Replayed": "true" },
+        });
+      }
+      claimedKey = { userId: session.user.id, key: idempotencyKey };
+    }
+
     console.log("Generating article with settings:", {
       title: validatedData.title,
       userId: session.user.id,
@@ -56,91 +71,87 @@ export async function POST(request: NextRequest) {
       language: validatedData.language,
     });
 
-    // Initialize OpenAI client
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    const articleRequest = await resolveArticleRequest(session.user.id, validatedData);
 
-    if (!process.env.OPENAI_API_KEY) {
-      console.error("OpenAI API key not configured");
-      return NextResponse.json(
-        { error: "AI service configuration error. Please contact support." },
-        { status: 500 }
-      );
-    }
+    slotId = await acquireGenerationSlot(session.user.id);
 
-    // Build the prompt
-    const prompt = buildArticlePrompt(validatedData);
+    // Every call made for this article is recorded against the user
+    const usage = createUsageTracker(getLLMProvider(articleRequest.generation?.model), session.user.id);
+    // The prompts sent are saved with the article
+    const prompts = createPromptRecorder(usage.provider);
+    const provider = prompts.provider;
 
-    console.log("Sending request to OpenAI...");
-
-    // Call OpenAI API
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // Using the most capable model
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert SEO content writer who creates high-quality, engaging articles that rank well in search engines. Always follow the specific requirements provided in each prompt."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      temperature: 0.7, // Balance between creativity and consistency
-      max_tokens: getMaxTokens(validatedData.articleSize),
-      top_p: 0.9,
-      frequency_penalty: 0.1,
-      presence_penalty: 0.1,
-    });
+    console.log(`Sending request to ${provider.name} (${provider.model})...`);
 
-    const generatedContent = completion.choices[0]?.message?.content;
+    const plannedData = await planArticle(articleRequest, provider, request.signal);
+    const { content: generatedContent, finishReason } = await generateArticleContent(
+      plannedData,
+      provider,
+      request.signal
+    );
 
     if (!generatedContent) {
-      console.error("No content generated from OpenAI");
+      console.error("No content generated by the LLM provider");
       return NextResponse.json(
         { error: "Failed to generate article content. Please try again." },
         { status: 500 }
       );
     }
 
+    // Never save an article that was cut off mid-way
+    if (finishReason !== "stop") {
+      console.error("Article generation did not finish:", finishReason);
+      return NextResponse.json(
+        { error: "The article was cut off before it was finished. Please try again." },
+        { status: 502 }
+      );
+    }
+
     console.log("Successfully generated article content");
 
-    // Save to database
-    const articleId = generateId();
-    const articleData = {
-      id: articleId,
-      userId: session.user.id,
-      title: validatedData.title,
-      content: generatedContent,
-      keywords: validatedData.keywords,
-      settings: {
-        articleType: validatedData.articleType,
-        articleSize: validatedData.articleSize,
-        tone: validatedData.tone,
-        pointOfView: validatedData.pointOfView,
-        readability: validatedData.readability,
-        aiCleaning: validatedData.aiCleaning,
-        structure: validatedData.structure,
-        language: validatedData.language,
-      },
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    // Check the requirements and repair what is missing before saving
+    const finalized = await finalizeArticle(plannedData, generatedContent, provider, {
+      signal: request.signal,
+      bannedPhrases: await getBannedPhraseList(session.user.id),
+    });
 
-    await db.insert(articles).values(articleData);
+    // Save to database
+    const article = await saveGeneratedArticle(session.user.id, plannedData, {
+      ...finalized,
+      promptRecord: prompts.getRecord(),
+    });
+    await usage.assignArticle(article.id);
+    succeeded = true;
 
-    console.log("Article saved to database:", articleId);
+    console.log("Article saved to database:", article.id);
 
-    return NextResponse.json({
+    const result = {
       success: true,
-      articleId,
+      articleId: article.id,
       title: validatedData.title,
-      content: generatedContent,
-      settings: articleData.settings,
-    });
+      content: article.content,
+      settings: article.settings,
+      compliance: article.compliance,
+    };
+
+    if (claimedKey) {
+      await completeIdempotencyKey(claimedKey.userId, claimedKey.key, {
+        statusCode: 200,
+        response: result,
+        articleId: article.id,
+      });
+    }
+
+    return NextResponse.json(result);
 
   } catch (error) {
+    // Aborting the request aborts the LLM call through request.signal; nobody reads the response
+    if (request.signal.aborted) {
+      cancelled = true;
+      console.log("Article generation cancelled by client");
+      return NextResponse.json({ error: "Article generation was cancelled.", code: "cancelled" }, { status: 499 });
+    }
+
     console.error("Article generation error:", error);
 
     // Handle Zod validation errors
@@ -157,37 +168,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle OpenAI API errors
-    if (error && typeof error === 'object' && 'error' in error) {
-      const openaiError = error as any;
-      console.error("OpenAI API error:", openaiError);
-      
-      if (openaiError.error?.type === 'insufficient_quota') {
-        return NextResponse.json(
-          { error: "AI service temporarily unavailable. Please try again later." },
-          { status: 503 }
-        );
-      }
-      
-      if (openaiError.error?.type === 'invalid_request_error') {
-        return NextResponse.json(
-          { error: "Invalid AI service request. Please try again." },
-          { status: 400 }
-        );
-      }
+    if (error instanceof GenerationLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, retryAfter: error.retryAfter },
+        { status: 429, headers: { "Retry-After": String(error.retryAfter) } }
+      );
     }
 
-    // Handle database errors
-    if (error && typeof error === 'object' && 'code' in error) {
-      const dbError = error as any;
-      console.error("Database error:", dbError);
-      
-      if (dbError.code === '23505') { // Unique constraint violation
-        return NextResponse.json(
-          { error: "Duplicate article detected." },
-          { status: 409 }
-        );
-      }
+    if (error instanceof IdempotencyError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: error.message, code: "invalid_prompt_template" }, { status: 400 });
+    }
+
+    if (error instanceof BrandVoiceError) {
+      return NextResponse.json({ error: error.message, code: "invalid_brand_voice" }, { status: 400 });
+    }
+
+    if (error instanceof LLMConfigurationError) {
+      return NextResponse.json(
+        { error: "AI service configuration error. Please contact support." },
+        { status: 500 }
+      );
+    }
+
+    if (error instanceof LLMError) {
+      return NextResponse.json(
+        { error: error.userMessage, code: error.code, retryAfter: error.retryAfter },
+        {
+          status: error.status,
+          headers: error.retryAfter ? { "Retry-After": String(error.retryAfter) } : undefined,
+        }
+      );
     }
 
     // Generic error response
@@ -195,19 +209,16 @@ export async function POST(request: NextRequest) {
       { error: "Failed to generate article. Please try again." },
       { status: 500 }
     );
+  } finally {
+    if (slotId) {
+      await finishGenerationSlot(slotId, succeeded ? "succeeded" : cancelled ? "cancelled" : "failed");
+    }
+    if (claimedKey && !succeeded) {
+      await failIdempotencyKey(claimedKey.userId, claimedKey.key);
+    }
   }
 }
 
-function getMaxTokens(articleSize: string): number {
-  const tokenLimits: { [key: string]: number } = {
-    'X-Small': 2000,
-    'Small': 4000,
-    'Medium': 6000,
-    'Large': 8000,
-  };
-  return tokenLimits[articleSize] || 4000;
-}
-
 // Handle other HTTP methods
 export async function GET() {
   return NextResponse.json(
@@ -0,0 +1,264 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import {
+  createContentPreview,
+  finalizeArticle,
+  generateRequestSchema,
+  planArticle,
+  saveGeneratedArticle,
+  streamArticleContent,
+  resolveArticleRequest,
+} from "@/lib/article-generation";
+import { getBannedPhraseList } from "@/lib/banned-phrases";
+import { createUsageTracker } from "@/lib/llm-usage";
+import { createPromptRecorder } from "@/lib/prompt-recorder";
+import { acquireGenerationSlot, finishGenerationSlot, GenerationLimitError } from "@/lib/generation-quota";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  failIdempotencyKey,
+  getIdempotencyKey,
+  IdempotencyError,
+} from "@/lib/idempotency";
+import { getLLMProvider, LLMConfigurationError, LLMError } from "@/lib/llm";
+import { PromptTemplateError } from "@/lib/prompt-template-renderer";
+import { BrandVoiceError } from "@/lib/brand-voices";
+import { encodeSSE } from "@/lib/sse";
+
+// Streams the article as Server-Sent Events:
+//   delta -> { content }                      partial markdown as it is produced
+//   repair -> { message }                     a targeted fix or rewrite is running before the article is saved
+//   done  -> { success, article }             the persisted article row
+//   error -> { error, code, status, content } status is "partial" when some text was produced;
+//                                             code names the AI service failure when there was one
+// A request repeating a completed Idempotency-Key gets only the original done event.
+export async function POST(request: NextRequest) {
+  // Set once this request owns its Idempotency-Key
+  let claimedKey: { userId: string; key: string } | null = null;
+
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized. Please sign in to generate articles." },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = generateRequestSchema.parse(body);
+    const userId = session.user.id;
+
+    const idempotencyKey = getIdempotencyKey(request.headers);
+    if (idempotencyKey) {
+      const replay = await claimIdempotencyKey(userId, idempotencyKey, "generate-stream", validatedData);
+      if (replay) {
+        console.log("Replaying idempotent article stream for key:", idempotencyKey);
+        const replayed = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(encodeSSE("done", replay.response));
+            controller.close();
+          },
+        });
+        return new Response(replayed, {
+          headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            "Idempotent-Replayed": "true",
+          },
+        });
+      }
+      claimedKey = { userId, key: idempotencyKey };
+    }
+    const streamKey = claimedKey;
+
+    const articleRequest = await resolveArticleRequest(userId, validatedData);
+
+    // Every call made for this article is recorded against the user
+    const usage = createUsageTracker(getLLMProvider(articleRequest.generation?.model), userId);
+    // The prompts sent are saved with the article
+    const prompts = createPromptRecorder(usage.provider);
+    const provider = prompts.provider;
+
+    // Limits are checked before the stream opens so they come back as a plain 429
+    const slotId = await acquireGenerationSlot(userId);
+
+    console.log("Streaming article generation:", {
+      title: validatedData.title,
+      userId,
+      articleSize: validatedData.articleSize,
+      language: validatedData.language,
+      provider: provider.name,
+      model: provider.model,
+    });
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let content = "";
+        let preview = "";
+        let finishReason: string | null = null;
+        let succeeded = false;
+        let cancelled = false;
+
+        try {
+          // Large articles get an outline first so they can be written section by section
+          const plannedData = await planArticle(articleRequest, provider, request.signal);
+          const toPreview = createContentPreview(plannedData);
+
+          for await (const event of streamArticleContent(plannedData, provider, request.signal)) {
+            if (event.type === "delta") {
+              content += event.content;
+              // The browser gets readable markdown even when the model streams JSON
+              const text = toPreview(event.content);
+              if (text) {
+                preview += text;
+                controller.enqueue(encodeSSE("delta", { content: text }));
+              }
+            } else {
+              finishReason = event.finishReason;
+            }
+          }
+
+          // Only a cleanly finished completion is worth persisting
+          if (finishReason !== "stop" || !content.trim()) {
+            console.error("Article stream ended early:", { finishReason, length: content.length });
+            controller.enqueue(
+              encodeSSE("error", {
+                error:
+                  finishReason === "length"
+                    ? "The article was cut off before it was finished. Please try again."
+                    : "Failed to generate article content. Please try again.",
+                status: preview ? "partial" : "failed",
+                content: preview,
+              })
+            );
+            return;
+          }
+
+          // Check the requirements and repair what is missing before saving
+          const finalized = await finalizeArticle(plannedData, content, provider, {
+            signal: request.signal,
+            onRepair: (message) => controller.enqueue(encodeSSE("repair", { message })),
+            bannedPhrases: await getBannedPhraseList(userId),
+          });
+
+          const article = await saveGeneratedArticle(userId, plannedData, {
+            ...finalized,
+            promptRecord: prompts.getRecord(),
+          });
+          await usage.assignArticle(article.id);
+          succeeded = true;
+
+          console.log("Streamed article saved to database:", article.id);
+
+          const result = { success: true, article };
+          if (streamKey) {
+            await completeIdempotencyKey(streamKey.userId, streamKey.key, {
+              statusCode: 200,
+              response: result,
+              articleId: article.id,
+            });
+          }
+
+          controller.enqueue(encodeSSE("done", result));
+        } catch (error) {
+          // Cancelling in the browser aborts the request, which aborts the LLM call through request.signal
+          if (request.signal.aborted) {
+            cancelled = true;
+            console.log("Article stream cancelled by client");
+            return;
+          }
+
+          console.error("Article stream error:", error);
+          controller.enqueue(
+            encodeSSE("error", {
+              error:
+                error instanceof LLMError
+                  ? error.userMessage
+                  : "Article generation was interrupted. Please try again.",
+              code: error instanceof LLMError ? error.code : null,
+              status: preview ? "partial" : "failed",
+              content: preview,
+            })
+          );
+        } finally {
+          await finishGenerationSlot(slotId, succeeded ? "succeeded" : cancelled ? "cancelled" : "failed");
+          if (streamKey && !succeeded) {
+            await failIdempotencyKey(streamKey.userId, streamKey.key);
+          }
+          try {
+            controller.close();
+          } catch {
+            // The client already went away
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+
+  } catch (error) {
+    console.error("Article stream setup error:", error);
+
+    // The stream never opened, so a retry with the same key should generate
+    if (claimedKey) {
+      await failIdempotencyKey(claimedKey.userId, claimedKey.key);
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof GenerationLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, retryAfter: error.retryAfter },
+        { status: 429, headers: { "Retry-After": String(error.retryAfter) } }
+      );
+    }
+
+    if (error instanceof IdempotencyError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: error.message, code: "invalid_prompt_template" }, { status: 400 });
+    }
+
+    if (error instanceof BrandVoiceError) {
+      return NextResponse.json({ error: error.message, code: "invalid_brand_voice" }, { status: 400 });
+    }
+
+    if (error instanceof LLMConfigurationError) {
+      return NextResponse.json(
+        { error: "AI service configuration error. Please contact support." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate article. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { generateRequestSchema, resolveArticleRequest } from "@/lib/article-generation";
+import { PromptTemplateError } from "@/lib/prompt-template-renderer";
+import { BrandVoiceError } from "@/lib/brand-voices";
+import { enqueueGenerationJob, listVisibleGenerationJobs } from "@/lib/generation-jobs";
+import { acquireGenerationSlot, finishGenerationSlot, GenerationLimitError } from "@/lib/generation-quota";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  failIdempotencyKey,
+  getIdempotencyKey,
+  IdempotencyError,
+} from "@/lib/idempotency";
+
+// Enqueue a background generation job
+export async function POST(request: NextRequest) {
+  // Set once this request owns its Idempotency-Key
+  let claimedKey: { userId: string; key: string } | null = null;
+
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized. Please sign in to generate articles." },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = generateRequestSchema.parse(body);
+
+    // A repeated request returns the job it already queued
+    const idempotencyKey = getIdempotencyKey(request.headers);
+    if (idempotencyKey) {
+      const replay = await claimIdempotencyKey(session.user.id, idempotencyKey, "jobs", validatedData);
+      if (replay) {
+        return NextResponse.json(replay.response, {
+          status: replay.statusCode,
+          headers: { "Idempotent-Replayed": "true" },
+        });
+      }
+      claimedKey = { userId: session.user.id, key: idempotencyKey };
+    }
+
+    // Fails now rather than in the worker when the template or brand voice does not exist
+    await resolveArticleRequest(session.user.id, validatedData);
+
+    // Queued jobs count towards the plan's quotas and rate limit now, and towards its concurrency
+    // cap once the worker starts them
+    const requestId = await acquireGenerationSlot(session.user.id, { queued: true });
+
+    const job = await enqueueGenerationJob(session.user.id, validatedData, requestId).catch(async (error) => {
+      await finishGenerationSlot(requestId, "failed");
+      throw error;
+    });
+
+    console.log(`Generation job ${job.id} queued for user ${session.user.id}`);
+
+    if (claimedKey) {
+      await completeIdempotencyKey(claimedKey.userId, claimedKey.key, { statusCode: 202, response: job });
+    }
+
+    return NextResponse.json(job, { status: 202 });
+
+  } catch (error) {
+    console.error("Error queueing generation job:", error);
+
+    if (claimedKey) {
+      await failIdempotencyKey(claimedKey.userId, claimedKey.key);
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof GenerationLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, retryAfter: error.retryAfter },
+        { status: 429, headers: { "Retry-After": String(error.retryAfter) } }
+      );
+    }
+
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: error.message, code: "invalid_prompt_template" }, { status: 400 });
+    }
+
+    if (error instanceof BrandVoiceError) {
+      return NextResponse.json({ error: error.message, code: "invalid_brand_voice" }, { status: 400 });
+    }
+
+    if (error instanceof IdempotencyError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to queue article generation" },
+      { status: 500 }
+    );
+  }
+}
+
+// List the user's in-flight and recently failed jobs
+export async function GET(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const jobs = await listVisibleGenerationJobs(session.user.id);
+
+    return NextResponse.json(jobs);
+
+  } catch (error) {
+    console.error("Error fetching generation jobs:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch generation jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getAllowedModels, getConfiguredModel } from "@/lib/llm";
+
+// The models users may pick per generation, from the LLM_MODELS allowlist
+export async function GET(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      models: getAllowedModels(),
+      defaultModel: getConfiguredModel(),
+    });
+
+  } catch (error) {
+    console.error("Error fetching models:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch models" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { isAdmin } from "@/lib/admin";
+import { articleOptionSchema, deleteArticleOption, updateArticleOption } from "@/lib/option-registry";
+
+// Replace a custom option; admins only. Articles keep the value they were generated with.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json(
+        { error: "Only admins can change article options" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const input = articleOptionSchema.parse(body);
+
+    const entry = await updateArticleOption(params.id, input);
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Article option not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(entry);
+
+  } catch (error) {
+    console.error("Error updating article option:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error && typeof error === "object" && "code" in error && error.code === "23505") {
+      return NextResponse.json(
+        { error: "A custom option with this value already exists." },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update article option" },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a custom option; a built-in option it replaced becomes available again. Admins only.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json(
+        { error: "Only admins can change article options" },
+        { status: 403 }
+      );
+    }
+
+    const entry = await deleteArticleOption(params.id);
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Article option not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("Error deleting article option:", error);
+
+    return NextResponse.json(
+      { error: "Failed to delete article option" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { isAdmin } from "@/lib/admin";
+import { articleOptionSchema, createArticleOption, getOptionRegistry } from "@/lib/option-registry";
+
+// The options of every article setting: the built-in ones merged with the custom entries
+export async function GET(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const registry = await getOptionRegistry();
+
+    return NextResponse.json(registry);
+
+  } catch (error) {
+    console.error("Error fetching article options:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch article options" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a custom option, or replace a built-in one by using its value; admins only
+export async function POST(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json(
+        { error: "Only admins can change article options" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const input = articleOptionSchema.parse(body);
+
+    const entry = await createArticleOption(input);
+
+    return NextResponse.json(entry, { status: 201 });
+
+  } catch (error) {
+    console.error("Error creating article option:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error && typeof error === "object" && "code" in error && error.code === "23505") {
+      return NextResponse.json(
+        { error: "A custom option with this value already exists." },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create article option" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { generateRequestSchema } from "@/lib/article-generation";
+import { generateOutline } from "@/lib/outline";
+import { loadArticleOptions } from "@/lib/option-registry";
+import { getLLMProvider, LLMConfigurationError, LLMError } from "@/lib/llm";
+import { createUsageTracker } from "@/lib/llm-usage";
+
+// First phase of outline-first generation: plan the headings for the user to edit
+export async function POST(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized. Please sign in to generate outlines." },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = generateRequestSchema.parse(body);
+    const options = await loadArticleOptions(validatedData);
+
+    const usage = createUsageTracker(getLLMProvider(validatedData.generation?.model), session.user.id);
+    const outline = await generateOutline({ ...validatedData, options }, usage.provider, request.signal);
+    await usage.flush();
+
+    if (!outline) {
+      console.error("Could not parse outline returned by the LLM provider");
+      return NextResponse.json(
+        { error: "Failed to generate a usable outline. Please try again." },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, outline });
+
+  } catch (error) {
+    console.error("Outline generation error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof LLMError) {
+      return NextResponse.json(
+        { error: error.userMessage, code: error.code, retryAfter: error.retryAfter },
+        {
+          status: error.status,
+          headers: error.retryAfter ? { "Retry-After": String(error.retryAfter) } : undefined,
+        }
+      );
+    }
+
+    if (error instanceof LLMConfigurationError) {
+      return NextResponse.json(
+        { error: "AI service configuration error. Please contact support." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate outline. Please try again." },
+      { status: 500 }
+    );
+  }
+}
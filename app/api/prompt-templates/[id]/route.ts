@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { deletePromptTemplate, promptTemplateSchema, updatePromptTemplate } from "@/lib/prompt-templates";
+
+// Replace the template's prompts; every save bumps its version
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = promptTemplateSchema.parse(body);
+
+    const template = await updatePromptTemplate(session.user.id, params.id, input);
+
+    if (!template) {
+      return NextResponse.json(
+        { error: "Prompt template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(template);
+
+  } catch (error) {
+    console.error("Error updating prompt template:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update prompt template" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const template = await deletePromptTemplate(session.user.id, params.id);
+
+    if (!template) {
+      return NextResponse.json(
+        { error: "Prompt template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("Error deleting prompt template:", error);
+
+    return NextResponse.json(
+      { error: "Failed to delete prompt template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { createPromptTemplate, listPromptTemplates, promptTemplateSchema } from "@/lib/prompt-templates";
+
+// List the user's own prompt templates
+export async function GET(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const templates = await listPromptTemplates(session.user.id);
+
+    return NextResponse.json(templates);
+
+  } catch (error) {
+    console.error("Error fetching prompt templates:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch prompt templates" },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a new prompt template; unknown variables are rejected with the field they appear in
+export async function POST(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = promptTemplateSchema.parse(body);
+
+    const template = await createPromptTemplate(session.user.id, input);
+
+    return NextResponse.json(template, { status: 201 });
+
+  } catch (error) {
+    console.error("Error creating prompt template:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create prompt template" },
+      { status: 500 }
+    );
+  }
+}
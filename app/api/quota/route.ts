@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getQuotaStatus } from "@/lib/generation-quota";
+
+// The signed-in user's plan, what they have used and what is left
+export async function GET(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const quota = await getQuotaStatus(session.user.id);
+
+    return NextResponse.json(quota);
+
+  } catch (error) {
+    console.error("Error fetching quota:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch quota" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { z } from "zod";
+import { generateTitleSuggestions, titleSuggestionRequestSchema } from "@/lib/title-suggestions";
+import { loadArticleOptions } from "@/lib/option-registry";
+import { getLLMProvider, LLMConfigurationError, LLMError } from "@/lib/llm";
+import { createUsageTracker } from "@/lib/llm-usage";
+
+// Title ideas for the generator form, ranked for the keywords and meta title length
+export async function POST(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized. Please sign in to get title suggestions." },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = titleSuggestionRequestSchema.parse(body);
+    const options = await loadArticleOptions({
+      articleType: validatedData.articleType,
+      language: validatedData.language,
+    });
+
+    const usage = createUsageTracker(getLLMProvider(validatedData.generation?.model), session.user.id);
+    const titles = await generateTitleSuggestions({ ...validatedData, options }, usage.provider, request.signal);
+    await usage.flush();
+
+    if (!titles) {
+      console.error("Could not parse title suggestions returned by the LLM provider");
+      return NextResponse.json(
+        { error: "Failed to suggest usable titles. Please try again." },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, titles });
+
+  } catch (error) {
+    console.error("Title suggestion error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof LLMError) {
+      return NextResponse.json(
+        { error: error.userMessage, code: error.code, retryAfter: error.retryAfter },
+        {
+          status: error.status,
+          headers: error.retryAfter ? { "Retry-After": String(error.retryAfter) } : undefined,
+        }
+      );
+    }
+
+    if (error instanceof LLMConfigurationError) {
+      return NextResponse.json(
+        { error: "AI service configuration error. Please contact support." },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to suggest titles. Please try again." },
+      { status: 500 }
+    );
+  }
+}
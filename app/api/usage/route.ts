@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getUsageSummary } from "@/lib/llm-usage";
+
+// Daily and monthly token and cost totals for the signed-in user
+export async function GET(request: NextRequest) {
+  try {
+    // Validate session
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const summary = await getUsageSummary(session.user.id);
+
+    return NextResponse.json(summary);
+
+  } catch (error) {
+    console.error("Error fetching usage summary:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch usage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Megaphone, Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { BrandVoice } from "@/db/schema/brand-voices";
+import { useBrandVoices, useDeleteBrandVoice, useSaveBrandVoice } from "@/hooks/use-brand-voices";
+import { buildBrandVoice } from "@/lib/prompt-builder";
+
+// Lists are edited as plain text: one item per line, samples separated by a blank line
+type VoiceDraft = {
+  id: string | null;
+  name: string;
+  description: string;
+  dos: string;
+  donts: string;
+  vocabulary: string;
+  forbiddenTerms: string;
+  samples: string;
+};
+
+const NEW_DRAFT: VoiceDraft = {
+  id: null,
+  name: "",
+  description: "",
+  dos: "",
+  donts: "",
+  vocabulary: "",
+  forbiddenTerms: "",
+  samples: "",
+};
+
+const LIST_FIELDS: { key: "dos" | "donts" | "vocabulary" | "forbiddenTerms"; label: string; placeholder: string }[] = [
+  { key: "dos", label: "Do", placeholder: "Use short, direct sentences\nAddress the reader as a peer" },
+  { key: "donts", label: "Don't", placeholder: "Make promises about results\nUse exclamation marks" },
+  { key: "vocabulary", label: "Preferred vocabulary", placeholder: "customers\nteam\nsimple" },
+  { key: "forbiddenTerms", label: "Forbidden terms", placeholder: "cheap\nrevolutionary\nsynergy" },
+];
+
+function toLines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+function toParagraphs(value: string): string[] {
+  return value.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+}
+
+function toDraft(voice: BrandVoice): VoiceDraft {
+  return {
+    id: voice.id,
+    name: voice.name,
+    description: voice.description ?? "",
+    dos: voice.dos.join("\n"),
+    donts: voice.donts.join("\n"),
+    vocabulary: voice.vocabulary.join("\n"),
+    forbiddenTerms: voice.forbiddenTerms.join("\n"),
+    samples: voice.samples.join("\n\n"),
+  };
+}
+
+function toInput(draft: VoiceDraft) {
+  return {
+    name: draft.name,
+    description: draft.description || null,
+    dos: toLines(draft.dos),
+    donts: toLines(draft.donts),
+    vocabulary: toLines(draft.vocabulary),
+    forbiddenTerms: toLines(draft.forbiddenTerms),
+    samples: toParagraphs(draft.samples),
+  };
+}
+
+export default function BrandVoicesPage() {
+  const { data: voices = [], isLoading } = useBrandVoices();
+  const saveMutation = useSaveBrandVoice();
+  const deleteMutation = useDeleteBrandVoice();
+  const [draft, setDraft] = useState<VoiceDraft>(NEW_DRAFT);
+
+  const update = (changes: Partial<VoiceDraft>) => setDraft((current) => ({ ...current, ...changes }));
+  const input = toInput(draft);
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveMutation.mutateAsync({ id: draft.id, input });
+      setDraft(toDraft(saved));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save brand voice");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMutation.mutateAsync(id);
+      if (draft.id === id) setDraft(NEW_DRAFT);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete brand voice");
+    }
+  };
+
+  return (
+    <div className="@container/main container mx-auto p-4 md:p-6 lg:p-8 max-w-7xl">
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Brand Voices</h1>
+          <p className="text-muted-foreground">
+            Describe how each brand writes and pick a voice in the generator. Articles are checked for the forbidden terms after generation.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle>Your voices</CardTitle>
+              <CardDescription>One profile per brand or client</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Button variant="outline" className="w-full" onClick={() => setDraft(NEW_DRAFT)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New voice
+              </Button>
+              {isLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : voices.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No brand voices yet.</p>
+              ) : (
+                voices.map((voice) => (
+                  <div
+                    key={voice.id}
+                    className={`flex items-center gap-2 rounded-md border p-2 ${draft.id === voice.id ? "bg-muted" : ""}`}
+                  >
+                    <button type="button" className="min-w-0 flex-1 text-left" onClick={() => setDraft(toDraft(voice))}>
+                      <p className="truncate text-sm font-medium">{voice.name}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {voice.forbiddenTerms.length} forbidden {voice.forbiddenTerms.length === 1 ? "term" : "terms"} · {voice.samples.length} {voice.samples.length === 1 ? "sample" : "samples"}
+                      </p>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(voice.id)}
+                      disabled={deleteMutation.isPending}
+                      aria-label={`Delete ${voice.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Megaphone className="h-5 w-5" />
+                  {draft.id ? "Edit voice" : "New voice"}
+                </CardTitle>
+                <CardDescription>Lists take one item per line</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="voice-name">Name</Label>
+                    <Input
+                      id="voice-name"
+                      value={draft.name}
+                      onChange={(e) => update({ name: e.target.value })}
+                      placeholder="e.g. Acme Outdoor"
+                      maxLength={100}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="voice-description">Description</Label>
+                    <Input
+                      id="voice-description"
+                      value={draft.description}
+                      onChange={(e) => update({ description: e.target.value })}
+                      placeholder="e.g. Practical, upbeat and never preachy"
+                      maxLength={1000}
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {LIST_FIELDS.map((listField) => (
+                    <div key={listField.key} className="space-y-2">
+                      <Label htmlFor={`voice-${listField.key}`}>{listField.label}</Label>
+                      <Textarea
+                        id={`voice-${listField.key}`}
+                        value={draft[listField.key]}
+                        onChange={(e) => update({ [listField.key]: e.target.value })}
+                        placeholder={listField.placeholder}
+                        className="min-h-28"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="voice-samples">Sample paragraphs</Label>
+                  <Textarea
+                    id="voice-samples"
+                    value={draft.samples}
+                    onChange={(e) => update({ samples: e.target.value })}
+                    placeholder="Paste up to five paragraphs written in this voice, separated by a blank line"
+                    className="min-h-40"
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={handleSave} disabled={!draft.name.trim() || saveMutation.isPending}>
+                    {saveMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 h-4 w-4" />
+                    )}
+                    Save voice
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Prompt preview</CardTitle>
+                <CardDescription>Added to the article prompts when this voice is selected</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/40 p-3 text-xs">
+                  {buildBrandVoice({ ...input, name: input.name || "Untitled" })}
+                </pre>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,535 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, CheckCircle2, Loader2, Pause, Play, RotateCcw, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { GenerationJobStatus } from "@/db/schema/generation-jobs";
+import { useArticleOptions } from "@/hooks/use-article-options";
+import { useBrandVoices } from "@/hooks/use-brand-voices";
+import {
+  useCreateGenerationBatch,
+  useGenerationBatch,
+  useGenerationBatches,
+  useUpdateGenerationBatch,
+  useValidateBulkImport,
+} from "@/hooks/use-generation-batches";
+import { usePromptTemplates } from "@/hooks/use-prompt-templates";
+import { DEFAULT_OPTIONS } from "@/lib/article-options";
+import { GENERATION_COLUMNS, MAX_BULK_ROWS, SETTING_COLUMNS, STRUCTURE_COLUMNS } from "@/lib/bulk-csv";
+import { DEFAULT_SAMPLING } from "@/lib/generation-params";
+import type { BulkImportInput, GenerationBatchSummary } from "@/lib/generation-batches";
+import { formatDate } from "@/lib/utils";
+
+type BatchDefaults = BulkImportInput["defaults"];
+type OptionField = "articleType" | "tone" | "pointOfView" | "readability" | "language";
+
+// Select items need a non-empty value; the built-in prompt and no brand voice are stored as null
+const BUILT_IN_TEMPLATE = "built-in";
+const NO_BRAND_VOICE = "none";
+
+const ARTICLE_SIZES = ["X-Small", "Small", "Medium", "Large"] as const;
+
+// Same starting point as the article generator form
+const INITIAL_DEFAULTS: BatchDefaults = {
+  articleType: "None",
+  articleSize: "Medium",
+  tone: "None",
+  pointOfView: "None",
+  readability: "None",
+  aiCleaning: "No AI Words Removal",
+  structure: {
+    conclusion: true,
+    faqSection: false,
+    tables: false,
+    h3Headings: true,
+    lists: true,
+    italics: true,
+    bold: true,
+    quotes: false,
+    keyTakeaways: false,
+  },
+  language: "en",
+  autoRepair: true,
+  rewriteFlaggedSentences: false,
+  promptTemplateId: null,
+  brandVoiceId: null,
+  generation: { model: null, ...DEFAULT_SAMPLING },
+};
+
+const OPTION_FIELDS: { key: OptionField; label: string }[] = [
+  { key: "articleType", label: "Article type" },
+  { key: "tone", label: "Tone" },
+  { key: "pointOfView", label: "Point of view" },
+  { key: "readability", label: "Readability" },
+  { key: "language", label: "Language" },
+];
+
+const SAMPLE_CSV = `title,keywords,articleType,tone,faqSection
+How to Start Composting at Home,"home composting, compost bin",How-to guide,Friendly,yes
+Best Compost Bins for Small Gardens,"compost bin, small garden",Listicle,,no`;
+
+const STATUS_LABELS: { [status in GenerationJobStatus]: string } = {
+  queued: "Queued",
+  running: "Generating",
+  succeeded: "Done",
+  failed: "Failed",
+};
+
+const STATUS_VARIANTS: { [status in GenerationJobStatus]: "default" | "secondary" | "destructive" | "outline" } = {
+  queued: "outline",
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+};
+
+function BatchActions({ batch }: { batch: GenerationBatchSummary }) {
+  const updateMutation = useUpdateGenerationBatch();
+  const remaining = batch.progress.queued + batch.progress.running;
+
+  return (
+    <div className="flex gap-2">
+      {batch.status === "active" && remaining > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => updateMutation.mutate({ id: batch.id, action: "pause" })}
+          disabled={updateMutation.isPending}
+        >
+          <Pause className="mr-2 h-4 w-4" />
+          Pause
+        </Button>
+      )}
+      {batch.status === "paused" && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => updateMutation.mutate({ id: batch.id, action: "resume" })}
+          disabled={updateMutation.isPending}
+        >
+          <Play className="mr-2 h-4 w-4" />
+          Resume
+        </Button>
+      )}
+      {batch.progress.failed > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => updateMutation.mutate({ id: batch.id, action: "retry" })}
+          disabled={updateMutation.isPending}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Retry failed
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function BatchRows({ id }: { id: string }) {
+  const { data: batch, isLoading } = useGenerationBatch(id);
+
+  if (isLoading || !batch) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-16">Row</TableHead>
+            <TableHead>Title</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Attempts</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {batch.rows.map((row) => (
+            <TableRow key={row.jobId}>
+              <TableCell className="font-mono">{row.row}</TableCell>
+              <TableCell>
+                <p className="font-medium">{row.title}</p>
+                {row.error && <p className="text-xs text-destructive">{row.error}</p>}
+              </TableCell>
+              <TableCell>
+                <Badge variant={STATUS_VARIANTS[row.status]}>{STATUS_LABELS[row.status]}</Badge>
+              </TableCell>
+              <TableCell className="text-right">{row.attempts}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function BulkImportPage() {
+  const { data: options = DEFAULT_OPTIONS } = useArticleOptions();
+  const { data: promptTemplates = [] } = usePromptTemplates();
+  const { data: brandVoices = [] } = useBrandVoices();
+  const { data: batches = [], isLoading: isLoadingBatches } = useGenerationBatches();
+  const validateMutation = useValidateBulkImport();
+  const createMutation = useCreateGenerationBatch();
+  const [name, setName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [defaults, setDefaults] = useState<BatchDefaults>(INITIAL_DEFAULTS);
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+
+  // The report is only valid for the CSV and defaults it was made for
+  const report = validateMutation.data;
+  const resetReport = () => validateMutation.reset();
+  const invalidRows = report ? report.rows.length - report.validRows : 0;
+
+  const updateDefaults = (changes: Partial<BatchDefaults>) => {
+    setDefaults((current) => ({ ...current, ...changes }));
+    resetReport();
+  };
+
+  const updateCsv = (value: string) => {
+    setCsv(value);
+    resetReport();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    updateCsv(await file.text());
+    if (!name) setName(file.name.replace(/\.csv$/i, ""));
+  };
+
+  const input: BulkImportInput = { name: name.trim() || null, csv, defaults };
+
+  const handleStart = async () => {
+    try {
+      const batch = await createMutation.mutateAsync(input);
+      setCsv("");
+      setName("");
+      resetReport();
+      setSelectedBatchId(batch.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start the batch");
+    }
+  };
+
+  return (
+    <div className="@container/main container mx-auto p-4 md:p-6 lg:p-8 max-w-7xl">
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Bulk Import</h1>
+          <p className="text-muted-foreground">
+            Generate up to {MAX_BULK_ROWS} articles from a CSV. Every row is checked before the batch starts, and the batch runs in the background.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5" />
+                New batch
+              </CardTitle>
+              <CardDescription>Upload a CSV or paste it below; empty cells use the batch defaults</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="batch-name">Name</Label>
+                  <Input
+                    id="batch-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Bulk import"
+                    maxLength={100}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="batch-file">CSV file</Label>
+                  <Input
+                    id="batch-file"
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-csv">CSV</Label>
+                <Textarea
+                  id="batch-csv"
+                  value={csv}
+                  onChange={(e) => updateCsv(e.target.value)}
+                  placeholder={SAMPLE_CSV}
+                  className="min-h-40 font-mono text-xs"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">Batch defaults</h3>
+                <div className="grid gap-4 md:grid-cols-3">
+                  {OPTION_FIELDS.map((optionField) => (
+                    <div key={optionField.key} className="space-y-2">
+                      <Label>{optionField.label}</Label>
+                      <Select
+                        value={defaults[optionField.key]}
+                        onValueChange={(value) => updateDefaults({ [optionField.key]: value })}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {options[optionField.key].map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                  <div className="space-y-2">
+                    <Label>Article size</Label>
+                    <Select
+                      value={defaults.articleSize}
+                      onValueChange={(value) =>
+                        updateDefaults({
+                          articleSize: value as BatchDefaults["articleSize"],
+                          // Large articles are written with the built-in section prompts
+                          promptTemplateId: value === "Large" ? null : defaults.promptTemplateId,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ARTICLE_SIZES.map((size) => (
+                          <SelectItem key={size} value={size}>
+                            {size}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Brand voice</Label>
+                    <Select
+                      value={defaults.brandVoiceId ?? NO_BRAND_VOICE}
+                      onValueChange={(value) => updateDefaults({ brandVoiceId: value === NO_BRAND_VOICE ? null : value })}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_BRAND_VOICE}>None</SelectItem>
+                        {brandVoices.map((voice) => (
+                          <SelectItem key={voice.id} value={voice.id}>
+                            {voice.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Prompt template</Label>
+                    <Select
+                      value={defaults.promptTemplateId ?? BUILT_IN_TEMPLATE}
+                      onValueChange={(value) => updateDefaults({ promptTemplateId: value === BUILT_IN_TEMPLATE ? null : value })}
+                      disabled={defaults.articleSize === "Large"}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={BUILT_IN_TEMPLATE}>Built-in</SelectItem>
+                        {promptTemplates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+
+              {report && (
+                <div className="space-y-2">
+                  {invalidRows > 0 ? (
+                    <Alert variant="destructive">
+                      <AlertCircle />
+                      <AlertTitle>
+                        {invalidRows} of {report.rows.length} {report.rows.length === 1 ? "row needs" : "rows need"} fixing
+                      </AlertTitle>
+                      <AlertDescription>Fix the rows below in the CSV and check again.</AlertDescription>
+                    </Alert>
+                  ) : (
+                    <Alert>
+                      <CheckCircle2 />
+                      <AlertTitle>
+                        All {report.rows.length} {report.rows.length === 1 ? "row is" : "rows are"} ready
+                      </AlertTitle>
+                      <AlertDescription>Each row counts towards your daily and monthly article limits.</AlertDescription>
+                    </Alert>
+                  )}
+                  {report.ignoredColumns.length > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      Ignored columns: {report.ignoredColumns.join(", ")}
+                    </p>
+                  )}
+                  <div className="max-h-96 overflow-auto rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-16">Row</TableHead>
+                          <TableHead>Title</TableHead>
+                          <TableHead>Keywords</TableHead>
+                          <TableHead>Check</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.rows.map((row) => (
+                          <TableRow key={row.row}>
+                            <TableCell className="font-mono">{row.row}</TableCell>
+                            <TableCell className="max-w-64 truncate">{row.title}</TableCell>
+                            <TableCell className="max-w-48 truncate text-muted-foreground">{row.keywords}</TableCell>
+                            <TableCell>
+                              {row.errors.length === 0 ? (
+                                <Badge variant="outline">Valid</Badge>
+                              ) : (
+                                <ul className="space-y-1 text-xs text-destructive">
+                                  {row.errors.map((error, index) => (
+                                    <li key={index}>
+                                      <span className="font-mono">{error.field}</span>: {error.message}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => validateMutation.mutate(input)}
+                  disabled={!csv.trim() || validateMutation.isPending}
+                >
+                  {validateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Check rows
+                </Button>
+                <Button
+                  onClick={handleStart}
+                  disabled={!report || invalidRows > 0 || createMutation.isPending}
+                >
+                  {createMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Play className="mr-2 h-4 w-4" />
+                  )}
+                  Start batch
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Columns</CardTitle>
+              <CardDescription>Headers ignore case, spaces and underscores</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div>
+                <p className="font-medium">Required</p>
+                <p className="font-mono text-xs text-muted-foreground">title, keywords</p>
+              </div>
+              <div>
+                <p className="font-medium">Settings</p>
+                <p className="font-mono text-xs text-muted-foreground">{SETTING_COLUMNS.join(", ")}</p>
+                <p className="text-xs text-muted-foreground">Values as shown in the generator, e.g. How-to guide</p>
+              </div>
+              <div>
+                <p className="font-medium">Structure</p>
+                <p className="font-mono text-xs text-muted-foreground">{STRUCTURE_COLUMNS.join(", ")}</p>
+                <p className="text-xs text-muted-foreground">yes or no</p>
+              </div>
+              <div>
+                <p className="font-medium">Generation</p>
+                <p className="font-mono text-xs text-muted-foreground">{GENERATION_COLUMNS.join(", ")}</p>
+                <p className="text-xs text-muted-foreground">An allowed model id and numbers</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Batches</CardTitle>
+            <CardDescription>Paused batches finish the rows already generating; failed rows can be retried</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoadingBatches ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : batches.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No batches yet.</p>
+            ) : (
+              batches.map((batch) => {
+                const finished = batch.progress.succeeded + batch.progress.failed;
+                const isSelected = selectedBatchId === batch.id;
+
+                return (
+                  <div key={batch.id} className={`space-y-3 rounded-md border p-3 ${isSelected ? "bg-muted/40" : ""}`}>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <button
+                        type="button"
+                        className="min-w-0 flex-1 text-left"
+                        onClick={() => setSelectedBatchId(isSelected ? null : batch.id)}
+                      >
+                        <p className="flex items-center gap-2 font-medium">
+                          {batch.name}
+                          {batch.status === "paused" && <Badge variant="secondary">Paused</Badge>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(new Date(batch.createdAt))} · {batch.progress.succeeded} done · {batch.progress.failed} failed · {batch.progress.queued + batch.progress.running} remaining
+                        </p>
+                      </button>
+                      <BatchActions batch={batch} />
+                    </div>
+                    <Progress value={batch.totalRows > 0 ? (finished / batch.totalRows) * 100 : 0} />
+                    {isSelected && <BatchRows id={batch.id} />}
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
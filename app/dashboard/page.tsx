@@ -1,27 +1,141 @@
 "use client";
 
 import { useState } from "react";
+import { toast } from "sonner";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArticleGeneratorForm } from "@/components/article-generator-form";
 import { ArticleHistory } from "@/components/article-history";
 import { ArticleDisplay } from "@/components/article-display";
+import { OutlineEditor } from "@/components/outline-editor";
 import { Toaster } from "@/components/ui/sonner";
-import { useArticles, useGenerateArticle, useDeleteArticle } from "@/hooks/use-articles";
-import { Article, ArticleSettings } from "@/db/schema/articles";
-import { Wand2, History, Eye } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  GenerationRequestError,
+  useArticles,
+  useStreamGenerateArticle,
+  useDeleteArticle,
+  useGenerateOutline,
+  useSaveDraftArticle,
+  type ArticleFormData,
+} from "@/hooks/use-articles";
+import { useEnqueueGeneration, useGenerationJobs } from "@/hooks/use-generation-jobs";
+import { Article, ArticleOutline, ArticleSettings } from "@/db/schema/articles";
+import { Wand2, History, Eye, Loader2, Save, Square, Trash2 } from "lucide-react";
 
 export default function Page() {
   const [activeTab, setActiveTab] = useState("generate");
   const [selectedArticle, setSelectedArticle] = useState<(Article & { settings: ArticleSettings }) | null>(null);
 
   const { data: articles, isLoading: articlesLoading, refetch: refetchArticles } = useArticles();
-  const generateMutation = useGenerateArticle();
+  const streamGeneration = useStreamGenerateArticle();
   const deleteMutation = useDeleteArticle();
+  const saveDraftMutation = useSaveDraftArticle();
+  const enqueueMutation = useEnqueueGeneration();
+  const { data: jobs } = useGenerationJobs();
+  const [streamRequest, setStreamRequest] = useState<ArticleFormData | null>(null);
+  const outlineMutation = useGenerateOutline();
+  // Settings and outline under review in the outline-first flow
+  const [outlineDraft, setOutlineDraft] = useState<{ request: ArticleFormData; outline: ArticleOutline } | null>(null);
 
-  const handleGenerateArticle = async (data: any) => {
-    await generateMutation.mutateAsync(data);
-    // Switch to history tab after successful generation
+  // Each new request replaces the error shown for the previous one
+  const resetRequestErrors = () => {
+    enqueueMutation.reset();
+    outlineMutation.reset();
+  };
+
+  const handleGenerateArticle = async (data: ArticleFormData) => {
+    resetRequestErrors();
+    setStreamRequest(data);
+    const article = await streamGeneration.generate(data);
+    if (!article) {
+      // Keep the form filled in so the user can retry; the hook already reported the error
+      throw new Error("Article generation did not complete");
+    }
+    // Show the saved article once the stream completed cleanly
+    setSelectedArticle(article);
+    setActiveTab("view");
+    streamGeneration.reset();
+  };
+
+  // The partial output of a cancelled generation is kept as a draft only when the user asks for it
+  const handleSaveDraft = async () => {
+    if (!streamRequest) return;
+    try {
+      const draft = await saveDraftMutation.mutateAsync({ ...streamRequest, content: streamGeneration.content });
+      streamGeneration.reset();
+      setSelectedArticle(draft);
+      setActiveTab("view");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save draft");
+    }
+  };
+
+  // Placeholder article rendered while the stream is still growing
+  const streamingArticle = streamRequest && streamGeneration.status !== "idle" && streamGeneration.status !== "succeeded"
+    ? {
+        id: "",
+        userId: "",
+        title: streamRequest.title,
+        content: streamGeneration.content,
+        keywords: streamRequest.keywords,
+        settings: streamRequest,
+        outline: streamRequest.outline ?? null,
+        metaTitle: null,
+        metaDescription: null,
+        slug: null,
+        h1: null,
+        body: null,
+        faq: null,
+        compliance: null,
+        aiPhraseReport: null,
+        readabilityReport: null,
+        promptRecord: null,
+        status: "draft" as const,
+        translationGroupId: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }
+    : null;
+
+  // The most recent failure of the generate, queue or outline requests, shown in the form
+  const requestError = enqueueMutation.error ?? outlineMutation.error;
+  const formError = requestError
+    ? { message: requestError.message, code: requestError instanceof GenerationRequestError ? requestError.code : null }
+    : streamGeneration.error
+      ? { message: streamGeneration.error, code: streamGeneration.errorCode }
+      : null;
+
+  const handleCreateOutline = async (data: ArticleFormData) => {
+    resetRequestErrors();
+    try {
+      const outline = await outlineMutation.mutateAsync(data);
+      setOutlineDraft({ request: data, outline });
+    } catch {
+      // Reported by the hook and shown in the form through outlineMutation.error
+    }
+  };
+
+  const handleGenerateFromOutline = async () => {
+    if (!outlineDraft) return;
+    try {
+      await handleGenerateArticle({ ...outlineDraft.request, outline: outlineDraft.outline });
+      setOutlineDraft(null);
+    } catch {
+      // Keep the outline so the user can try again
+    }
+  };
+
+  const handleQueueArticle = async (data: ArticleFormData) => {
+    resetRequestErrors();
+    try {
+      await enqueueMutation.mutateAsync(data);
+    } catch {
+      // Reported by the hook and shown in the form through enqueueMutation.error
+      return false;
+    }
     setActiveTab("history");
+    return true;
   };
 
   const handleSelectArticle = (article: Article & { settings: ArticleSettings }) => {
@@ -74,8 +188,66 @@ export default function Page() {
             <div className="space-y-6">
               <ArticleGeneratorForm 
                 onSubmit={handleGenerateArticle}
-                isLoading={generateMutation.isPending}
+                onQueue={handleQueueArticle}
+                onOutline={handleCreateOutline}
+                onCancel={streamGeneration.cancel}
+                isLoading={streamGeneration.status === "streaming"}
+                isQueueing={enqueueMutation.isPending}
+                isOutlining={outlineMutation.isPending}
+                error={formError}
               />
+              {outlineDraft && (
+                <OutlineEditor
+                  outline={outlineDraft.outline}
+                  articleSize={outlineDraft.request.articleSize}
+                  onChange={(outline) => setOutlineDraft({ ...outlineDraft, outline })}
+                  onApprove={handleGenerateFromOutline}
+                  onRegenerate={() => handleCreateOutline(outlineDraft.request)}
+                  onCancel={() => setOutlineDraft(null)}
+                  isGenerating={streamGeneration.status === "streaming"}
+                  isRegenerating={outlineMutation.isPending}
+                />
+              )}
+              {streamGeneration.status === "cancelled" && (
+                <Alert>
+                  <Square />
+                  <AlertTitle>Generation cancelled</AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    <p>
+                      {streamGeneration.content.trim()
+                        ? "Keep what was written so far as a draft, or discard it."
+                        : "Nothing was written before the generation was stopped."}
+                    </p>
+                    <div className="flex gap-2">
+                      {streamGeneration.content.trim() && (
+                        <Button size="sm" onClick={handleSaveDraft} disabled={saveDraftMutation.isPending}>
+                          {saveDraftMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Save className="mr-2 h-4 w-4" />
+                          )}
+                          Save as draft
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={streamGeneration.reset}
+                        disabled={saveDraftMutation.isPending}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Discard
+                      </Button>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+              {streamingArticle && (
+                <ArticleDisplay
+                  article={streamingArticle}
+                  status={streamGeneration.status as "streaming" | "partial" | "failed" | "cancelled"}
+                />
+              )}
             </div>
           </TabsContent>
 
@@ -85,12 +257,17 @@ export default function Page() {
               isLoading={articlesLoading}
               onSelectArticle={handleSelectArticle}
               onDeleteArticle={handleDeleteArticle}
+              jobs={jobs}
             />
           </TabsContent>
 
           <TabsContent value="view" className="mt-6">
             {selectedArticle ? (
-              <ArticleDisplay article={selectedArticle} />
+              <ArticleDisplay
+                article={selectedArticle}
+                onArticleUpdated={setSelectedArticle}
+                onSelectArticle={setSelectedArticle}
+              />
             ) : (
               <div className="text-center py-12">
                 <Eye className="mx-auto h-12 w-12 text-muted-foreground" />
@@ -0,0 +1,305 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertCircle, FileText, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { PromptTemplate } from "@/db/schema/prompt-templates";
+import { useDeletePromptTemplate, usePromptTemplates, useSavePromptTemplate } from "@/hooks/use-prompt-templates";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  findTemplateIssues,
+  renderPromptTemplate,
+  SAMPLE_PROMPT_DATA,
+  TEMPLATE_VARIABLES,
+} from "@/lib/prompt-template-renderer";
+import { formatDate } from "@/lib/utils";
+
+type TemplateDraft = {
+  id: string | null;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  userPrompt: string;
+};
+
+const NEW_DRAFT: TemplateDraft = {
+  id: null,
+  name: "",
+  description: "",
+  ...DEFAULT_PROMPT_TEMPLATE,
+};
+
+function toDraft(template: PromptTemplate): TemplateDraft {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description ?? "",
+    systemPrompt: template.systemPrompt,
+    userPrompt: template.userPrompt,
+  };
+}
+
+function PreviewBlock({ label, text }: { label: string; text: string }) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs font-medium uppercase text-muted-foreground">{label}</span>
+      <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/40 p-3 text-xs">{text}</pre>
+    </div>
+  );
+}
+
+export default function PromptsPage() {
+  const { data: templates = [], isLoading } = usePromptTemplates();
+  const saveMutation = useSavePromptTemplate();
+  const deleteMutation = useDeletePromptTemplate();
+  const [draft, setDraft] = useState<TemplateDraft>(NEW_DRAFT);
+  const [sample, setSample] = useState({ title: SAMPLE_PROMPT_DATA.title, keywords: SAMPLE_PROMPT_DATA.keywords });
+
+  const update = (changes: Partial<TemplateDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const issues = useMemo(
+    () => [
+      ...findTemplateIssues(draft.systemPrompt).map((issue) => `System prompt: ${issue}`),
+      ...findTemplateIssues(draft.userPrompt).map((issue) => `User prompt: ${issue}`),
+    ],
+    [draft.systemPrompt, draft.userPrompt]
+  );
+
+  // Rendered exactly as the server would, against the sample settings
+  const preview = useMemo(() => {
+    if (issues.length > 0) return null;
+    return renderPromptTemplate(draft, { ...SAMPLE_PROMPT_DATA, ...sample });
+  }, [draft, sample, issues]);
+
+  const canSave = draft.name.trim().length > 0 && draft.systemPrompt.trim().length > 0 && draft.userPrompt.trim().length > 0 && issues.length === 0;
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveMutation.mutateAsync({
+        id: draft.id,
+        input: {
+          name: draft.name,
+          description: draft.description || null,
+          systemPrompt: draft.systemPrompt,
+          userPrompt: draft.userPrompt,
+        },
+      });
+      setDraft(toDraft(saved));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save prompt template");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMutation.mutateAsync(id);
+      if (draft.id === id) setDraft(NEW_DRAFT);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete prompt template");
+    }
+  };
+
+  return (
+    <div className="@container/main container mx-auto p-4 md:p-6 lg:p-8 max-w-7xl">
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Prompt Templates</h1>
+          <p className="text-muted-foreground">
+            Write your own article prompt and pick it in the generator. Templates are not available for Large articles, which are written section by section with the built-in prompts.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle>Your templates</CardTitle>
+              <CardDescription>Every save creates a new version</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Button variant="outline" className="w-full" onClick={() => setDraft(NEW_DRAFT)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New template
+              </Button>
+              {isLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : templates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No templates yet.</p>
+              ) : (
+                templates.map((template) => (
+                  <div
+                    key={template.id}
+                    className={`flex items-center gap-2 rounded-md border p-2 ${draft.id === template.id ? "bg-muted" : ""}`}
+                  >
+                    <button type="button" className="min-w-0 flex-1 text-left" onClick={() => setDraft(toDraft(template))}>
+                      <p className="truncate text-sm font-medium">{template.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        v{template.version} · {formatDate(new Date(template.updatedAt))}
+                      </p>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(template.id)}
+                      disabled={deleteMutation.isPending}
+                      aria-label={`Delete ${template.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5" />
+                  {draft.id ? "Edit template" : "New template"}
+                </CardTitle>
+                <CardDescription>
+                  Use {"{{variableName}}"} placeholders; they are filled in from the article settings
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-name">Name</Label>
+                    <Input
+                      id="template-name"
+                      value={draft.name}
+                      onChange={(e) => update({ name: e.target.value })}
+                      placeholder="e.g. Product-led blog post"
+                      maxLength={100}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-description">Description</Label>
+                    <Input
+                      id="template-description"
+                      value={draft.description}
+                      onChange={(e) => update({ description: e.target.value })}
+                      placeholder="Optional"
+                      maxLength={500}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-system">System prompt</Label>
+                  <Textarea
+                    id="template-system"
+                    value={draft.systemPrompt}
+                    onChange={(e) => update({ systemPrompt: e.target.value })}
+                    className="min-h-24 font-mono text-xs"
+                    maxLength={5000}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-user">User prompt</Label>
+                  <Textarea
+                    id="template-user"
+                    value={draft.userPrompt}
+                    onChange={(e) => update({ userPrompt: e.target.value })}
+                    className="min-h-80 font-mono text-xs"
+                    maxLength={20000}
+                  />
+                </div>
+
+                {issues.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertCircle />
+                    <AlertTitle>Template cannot be rendered</AlertTitle>
+                    <AlertDescription>
+                      <ul className="list-disc pl-4">
+                        {issues.map((issue) => (
+                          <li key={issue}>{issue}</li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex justify-end">
+                  <Button onClick={handleSave} disabled={!canSave || saveMutation.isPending}>
+                    {saveMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 h-4 w-4" />
+                    )}
+                    Save template
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Variables</CardTitle>
+                <CardDescription>
+                  The JSON output instructions are appended automatically when {"{{outputFormat}}"} is not used
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-2 md:grid-cols-2">
+                  {TEMPLATE_VARIABLES.map((variable) => (
+                    <div key={variable.name} className="text-sm">
+                      <Badge variant="outline" className="font-mono">{`{{${variable.name}}}`}</Badge>
+                      <span className="ml-2 text-muted-foreground">{variable.description}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  Rendered with sample settings: {SAMPLE_PROMPT_DATA.articleSize} {SAMPLE_PROMPT_DATA.articleType.toLowerCase()}, {SAMPLE_PROMPT_DATA.tone.toLowerCase()} tone
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-title">Sample title</Label>
+                    <Input
+                      id="sample-title"
+                      value={sample.title}
+                      onChange={(e) => setSample({ ...sample, title: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-keywords">Sample keywords</Label>
+                    <Input
+                      id="sample-keywords"
+                      value={sample.keywords}
+                      onChange={(e) => setSample({ ...sample, keywords: e.target.value })}
+                    />
+                  </div>
+                </div>
+                {preview ? (
+                  <>
+                    <PreviewBlock label="System prompt" text={preview.systemPrompt} />
+                    <PreviewBlock label="User prompt" text={preview.userPrompt} />
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Fix the template errors above to see the preview.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
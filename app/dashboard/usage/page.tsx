@@ -0,0 +1,100 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SectionCards } from "@/components/section-cards";
+import { useUsageSummary } from "@/hooks/use-usage";
+import type { UsagePeriod } from "@/lib/llm-usage";
+import { formatCost, formatNumber } from "@/lib/utils";
+
+function UsageTable({ periods, label }: { periods: UsagePeriod[]; label: string }) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{label}</TableHead>
+            <TableHead className="text-right">Articles</TableHead>
+            <TableHead className="text-right">LLM calls</TableHead>
+            <TableHead className="text-right">Prompt tokens</TableHead>
+            <TableHead className="text-right">Completion tokens</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {periods.map((period) => (
+            <TableRow key={period.period} className={period.calls === 0 ? "text-muted-foreground" : undefined}>
+              <TableCell className="font-mono">{period.period}</TableCell>
+              <TableCell className="text-right">{formatNumber(period.articles)}</TableCell>
+              <TableCell className="text-right">{formatNumber(period.calls)}</TableCell>
+              <TableCell className="text-right">{formatNumber(period.promptTokens)}</TableCell>
+              <TableCell className="text-right">{formatNumber(period.completionTokens)}</TableCell>
+              <TableCell className="text-right">{formatCost(period.cost)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const { data: summary, isLoading, isError } = useUsageSummary();
+
+  return (
+    <div className="@container/main container mx-auto p-4 md:p-6 lg:p-8 max-w-7xl">
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Usage</h1>
+          <p className="text-muted-foreground">
+            Tokens and cost of every AI call made for your articles
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : isError || !summary ? (
+          <p className="text-muted-foreground">Usage could not be loaded. Please try again.</p>
+        ) : (
+          <>
+            <div className="-mx-4 lg:-mx-6">
+              <SectionCards summary={summary} />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>History</CardTitle>
+                <CardDescription>Costs use the price table configured for each model</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="daily">
+                  <TabsList>
+                    <TabsTrigger value="daily">Last 30 days</TabsTrigger>
+                    <TabsTrigger value="monthly">Last 12 months</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="daily" className="mt-4">
+                    <UsageTable periods={summary.daily} label="Day" />
+                  </TabsContent>
+                  <TabsContent value="monthly" className="mt-4">
+                    <UsageTable periods={summary.monthly} label="Month" />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
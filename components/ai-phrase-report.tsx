@@ -0,0 +1,61 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Sparkles } from "lucide-react";
+import { AIPhraseMatch, AIPhraseReport } from "@/db/schema/articles";
+
+interface AIPhraseReportPanelProps {
+  report: AIPhraseReport;
+}
+
+const fieldLabels: Record<AIPhraseMatch["field"], string> = {
+  body: "Body",
+  faq: "FAQ",
+  metaDescription: "Meta description",
+};
+
+// What the AI cleaning pass found, fixed and left in place
+export function AIPhraseReportPanel({ report }: AIPhraseReportPanelProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Sparkles className="h-4 w-4" />
+          <span className="font-medium">AI phrase cleaning</span>
+          <Badge variant="outline">{report.tier}</Badge>
+        </div>
+        <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+          <span>{report.found.length} found</span>
+          <span>· {report.replaced} removed</span>
+          {report.rewritten > 0 && <span>· {report.rewritten} rewritten</span>}
+          <span>· {report.remaining.length} remaining</span>
+        </div>
+      </div>
+
+      {report.builtInList === false && (
+        <p className="text-sm text-muted-foreground">
+          There is no built-in phrase list for this article&apos;s language yet, so only your banned phrases were checked.
+        </p>
+      )}
+
+      {report.remaining.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No AI-sounding phrases left in the article.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {report.remaining.map((match, index) => (
+            <li key={`${match.field}-${match.line}-${match.phrase}-${index}`} className="space-y-1 p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={match.source === "custom" ? "destructive" : "secondary"}>{match.phrase}</Badge>
+                <span className="text-muted-foreground">
+                  {fieldLabels[match.field]}
+                  {match.section ? ` · ${match.section}` : ""} · line {match.line}
+                </span>
+              </div>
+              <p className="text-muted-foreground">{match.excerpt}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
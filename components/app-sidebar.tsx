@@ -18,6 +18,8 @@ import {
   IconReport,
   IconSearch,
   IconSettings,
+  IconSpeakerphone,
+  IconTableImport,
   IconUsers,
 } from "@tabler/icons-react"
 
@@ -39,7 +41,7 @@ const staticData = {
   navMain: [
     {
       title: "Dashboard",
-      url: "#",
+      url: "/dashboard",
       icon: IconDashboard,
     },
     {
@@ -48,10 +50,25 @@ const staticData = {
       icon: IconListDetails,
     },
     {
-      title: "Analytics",
-      url: "#",
+      title: "Usage",
+      url: "/dashboard/usage",
       icon: IconChartBar,
     },
+    {
+      title: "Prompts",
+      url: "/dashboard/prompts",
+      icon: IconFileAi,
+    },
+    {
+      title: "Brand Voices",
+      url: "/dashboard/brand-voices",
+      icon: IconSpeakerphone,
+    },
+    {
+      title: "Bulk Import",
+      url: "/dashboard/bulk",
+      icon: IconTableImport,
+    },
     {
       title: "Projects",
       url: "#",
@@ -14,21 +14,48 @@ import {
   Calendar, 
   User, 
   FileText,
+  Loader2,
   Settings,
   ChevronDown,
   ChevronUp 
 } from "lucide-react";
 import { Article, ArticleSettings } from "@/db/schema/articles";
+import { ArticleMetadataEditor } from "@/components/article-metadata-editor";
+import { ComplianceChecklist } from "@/components/compliance-checklist";
+import { AIPhraseReportPanel } from "@/components/ai-phrase-report";
+import { KeywordAnalysisPanel } from "@/components/keyword-analysis-panel";
+import { ReadabilityHeatmap } from "@/components/readability-heatmap";
+import { ArticleUsageSummary } from "@/components/article-usage-summary";
+import { ArticlePromptView } from "@/components/article-prompt-view";
+import { SectionRegenerator } from "@/components/section-regenerator";
+import { InlineEditor } from "@/components/inline-editor";
+import { ArticleTranslations } from "@/components/article-translations";
+import { validateArticle } from "@/lib/compliance";
+import { useArticleOptions } from "@/hooks/use-article-options";
+import { DEFAULT_OPTIONS, getOptionLabel, type OptionCategory } from "@/lib/article-options";
+import { MIN_SELECTION_LENGTH } from "@/lib/inline-edit-actions";
+import { getStructuredArticle } from "@/lib/structured-article";
 import { formatDate } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface ArticleDisplayProps {
   article: Article & { settings: ArticleSettings };
+  // Set while the article is still being streamed or when the stream did not finish
+  status?: "streaming" | "partial" | "failed" | "cancelled";
+  onArticleUpdated?: (article: Article & { settings: ArticleSettings }) => void;
+  // Shows another article in place of this one, e.g. one of its language versions
+  onSelectArticle?: (article: Article & { settings: ArticleSettings }) => void;
 }
 
-export function ArticleDisplay({ article }: ArticleDisplayProps) {
+export function ArticleDisplay({ article, status, onArticleUpdated, onSelectArticle }: ArticleDisplayProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [activeTab, setActiveTab] = useState("content");
+  // Text selected in the content view, offered to the inline editor
+  const [selection, setSelection] = useState<string | null>(null);
+  const { data: options = DEFAULT_OPTIONS } = useArticleOptions();
+  const optionLabel = (category: OptionCategory) => getOptionLabel(options, category, article.settings[category]);
+
+  const complianceReport = article.compliance ?? validateArticle(getStructuredArticle(article), article.settings);
 
   const copyToClipboard = async (text: string) => {
     try {
@@ -50,6 +77,14 @@ export function ArticleDisplay({ article }: ArticleDisplayProps) {
     toast.success("Article downloaded successfully!");
   };
 
+  const handleContentSelection = (container: HTMLElement) => {
+    const selected = window.getSelection();
+    const text = selected?.toString().trim() ?? "";
+    if (selected && text.length >= MIN_SELECTION_LENGTH && container.contains(selected.anchorNode)) {
+      setSelection(text);
+    }
+  };
+
   const formatContent = (content: string) => {
     return content.split('\n').map((paragraph, index) => {
       if (paragraph.trim() === '') return null;
@@ -78,31 +113,6 @@ export function ArticleDisplay({ article }: ArticleDisplayProps) {
     });
   };
 
-  const getLanguageName = (code: string) => {
-    const languages: { [key: string]: string } = {
-      'en': 'English',
-      'es': 'Spanish',
-      'fr': 'French',
-      'de': 'German',
-      'it': 'Italian',
-      'pt': 'Portuguese',
-      'nl': 'Dutch',
-      'pl': 'Polish',
-      'ru': 'Russian',
-      'ja': 'Japanese',
-      'ko': 'Korean',
-      'zh': 'Chinese',
-      'ar': 'Arabic',
-      'hi': 'Hindi',
-      'tr': 'Turkish',
-      'sv': 'Swedish',
-      'da': 'Danish',
-      'no': 'Norwegian',
-      'fi': 'Finnish'
-    };
-    return languages[code] || code;
-  };
-
   const getSizeDisplay = (size: string) => {
     const sizes: { [key: string]: string } = {
       'X-Small': 'X-Small (600-1200 words)',
@@ -118,7 +128,27 @@ export function ArticleDisplay({ article }: ArticleDisplayProps) {
       <CardHeader>
         <div className="flex items-start justify-between">
           <div className="space-y-2 flex-1">
-            <CardTitle className="text-xl">{article.title}</CardTitle>
+            <CardTitle className="text-xl flex items-center gap-2">
+              {article.title}
+              {status === "streaming" && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Generating
+                </Badge>
+              )}
+              {status === "partial" && (
+                <Badge variant="destructive">Incomplete – not saved</Badge>
+              )}
+              {status === "failed" && (
+                <Badge variant="destructive">Failed</Badge>
+              )}
+              {status === "cancelled" && (
+                <Badge variant="secondary">Cancelled – not saved</Badge>
+              )}
+              {!status && article.status === "draft" && (
+                <Badge variant="secondary">Draft</Badge>
+              )}
+            </CardTitle>
             <CardDescription className="flex items-center gap-4 text-sm">
               <span className="flex items-center gap-1">
                 <Calendar className="h-4 w-4" />
@@ -156,22 +186,84 @@ export function ArticleDisplay({ article }: ArticleDisplayProps) {
             </Badge>
           ))}
         </div>
+
+        {!status && article.status !== "draft" && (
+          <ArticleTranslations
+            article={article}
+            onSelectArticle={
+              onSelectArticle &&
+              ((version) => {
+                setSelection(null);
+                onSelectArticle(version);
+              })
+            }
+          />
+        )}
       </CardHeader>
 
       <CardContent>
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="content">Content</TabsTrigger>
+            <TabsTrigger value="checks">Checks</TabsTrigger>
+            <TabsTrigger value="seo">SEO</TabsTrigger>
+            <TabsTrigger value="readability">Readability</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
             <TabsTrigger value="metadata">Metadata</TabsTrigger>
+            <TabsTrigger value="prompt">Prompt</TabsTrigger>
           </TabsList>
 
           <TabsContent value="content" className="mt-4">
             <ScrollArea className="h-[600px] w-full rounded-md border p-6">
-              <div className="prose prose-gray max-w-none">
+              <div
+                className="prose prose-gray max-w-none"
+                onMouseUp={status ? undefined : (e) => handleContentSelection(e.currentTarget)}
+              >
                 {formatContent(article.content)}
               </div>
             </ScrollArea>
+            {!status && (
+              <>
+                <Separator className="my-6" />
+                <div className="space-y-3">
+                  <h3 className="font-medium">Edit selected text</h3>
+                  <InlineEditor
+                    key={`${article.id}-${article.updatedAt}`}
+                    article={article}
+                    selection={selection}
+                    onClear={() => setSelection(null)}
+                    onUpdated={onArticleUpdated}
+                  />
+                </div>
+                <Separator className="my-6" />
+                <div className="space-y-3">
+                  <h3 className="font-medium">Regenerate a section</h3>
+                  <SectionRegenerator
+                    key={`${article.id}-${article.updatedAt}`}
+                    article={article}
+                    onUpdated={onArticleUpdated}
+                  />
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="checks" className="mt-4">
+            <ComplianceChecklist report={complianceReport} isLive={!article.compliance} />
+            {article.aiPhraseReport && (
+              <>
+                <Separator className="my-6" />
+                <AIPhraseReportPanel report={article.aiPhraseReport} />
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="seo" className="mt-4">
+            <KeywordAnalysisPanel article={article} />
+          </TabsContent>
+
+          <TabsContent value="readability" className="mt-4">
+            <ReadabilityHeatmap article={article} />
           </TabsContent>
 
           <TabsContent value="settings" className="mt-4">
@@ -183,13 +275,21 @@ export function ArticleDisplay({ article }: ArticleDisplayProps) {
                     Article Settings
                   </h4>
                   <div className="space-y-1 text-sm text-muted-foreground">
-                    <p><span className="font-medium">Type:</span> {article.settings.articleType}</p>
+                    <p><span className="font-medium">Type:</span> {optionLabel("articleType")}</p>
                     <p><span className="font-medium">Size:</span> {getSizeDisplay(article.settings.articleSize)}</p>
-                    <p><span className="font-medium">Language:</span> {getLanguageName(article.settings.language)}</p>
-                    <p><span className="font-medium">Tone:</span> {article.settings.tone}</p>
-                    <p><span className="font-medium">Point of View:</span> {article.settings.pointOfView}</p>
-                    <p><span className="font-medium">Readability:</span> {article.settings.readability}</p>
+                    <p><span className="font-medium">Language:</span> {optionLabel("language")}</p>
+                    <p><span className="font-medium">Tone:</span> {optionLabel("tone")}</p>
+                    <p><span className="font-medium">Point of View:</span> {optionLabel("pointOfView")}</p>
+                    <p><span className="font-medium">Readability:</span> {optionLabel("readability")}</p>
                     <p><span className="font-medium">AI Cleaning:</span> {article.settings.aiCleaning}</p>
+                    {article.settings.modelSettings && (
+                      <>
+                        <p><span className="font-medium">Model:</span> {article.settings.modelSettings.model}</p>
+                        <p>
+                          <span className="font-medium">Sampling:</span> temperature {article.settings.modelSettings.temperature}, top P {article.settings.modelSettings.topP}, penalties {article.settings.modelSettings.frequencyPenalty} / {article.settings.modelSettings.presencePenalty}
+                        </p>
+                      </>
+                    )}
                   </div>
                 </div>
 
@@ -209,7 +309,23 @@ export function ArticleDisplay({ article }: ArticleDisplayProps) {
           </TabsContent>
 
           <TabsContent value="metadata" className="mt-4">
-            <div className="space-y-4">
+            <div className="space-y-6">
+              <ArticleMetadataEditor
+                key={`${article.id}-${article.updatedAt}`}
+                article={article}
+                onUpdated={onArticleUpdated}
+                readOnly={!!status}
+              />
+              {!status && (
+                <>
+                  <Separator />
+                  <div className="space-y-3">
+                    <h3 className="font-medium">Usage</h3>
+                    <ArticleUsageSummary articleId={article.id} />
+                  </div>
+                </>
+              )}
+              <Separator />
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                 <div>
                   <span className="font-medium">Article ID:</span>
@@ -234,6 +350,10 @@ export function ArticleDisplay({ article }: ArticleDisplayProps) {
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="prompt" className="mt-4">
+            <ArticlePromptView record={article.promptRecord} />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
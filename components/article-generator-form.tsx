@@ -14,16 +14,40 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Wand2 } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import Link from "next/link";
+import { ChevronDown, Clock, Lightbulb, ListTree, Loader2, SlidersHorizontal, Square, Wand2 } from "lucide-react";
+import { LengthBadge } from "@/components/article-metadata-editor";
+import { BannedPhrasesDialog } from "@/components/banned-phrases-dialog";
+import { QuotaIndicator } from "@/components/quota-indicator";
+import { GenerationErrorAlert, type GenerationErrorInfo } from "@/components/generation-error-alert";
+import { usePromptTemplates } from "@/hooks/use-prompt-templates";
+import { useBrandVoices } from "@/hooks/use-brand-voices";
+import { useArticleOptions } from "@/hooks/use-article-options";
+import { useAllowedModels } from "@/hooks/use-models";
+import { useSuggestTitles } from "@/hooks/use-articles";
+import { hasPhraseList } from "@/lib/ai-phrases";
+import { DEFAULT_OPTIONS, type ArticleOption } from "@/lib/article-options";
+import { DEFAULT_SAMPLING, generationParamsSchema, SAMPLING_LIMITS, type SamplingParams } from "@/lib/generation-params";
+import type { TitleSuggestion } from "@/lib/title-suggestions";
+
+// Select items need a non-empty value; the built-in prompt, no brand voice and the default model are stored as null
+const BUILT_IN_TEMPLATE = "built-in";
+const NO_BRAND_VOICE = "none";
+const DEFAULT_MODEL = "default";
+
+const SAMPLING_PARAMS = Object.keys(DEFAULT_SAMPLING) as (keyof SamplingParams)[];
 
 const articleSettingsSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
   keywords: z.string().min(1, "Keywords are required").max(500, "Keywords must be less than 500 characters"),
-  articleType: z.enum(["None", "How-to guide", "Listicle", "Product review", "News", "Comparison", "Case study", "Opinion piece", "Tutorial", "Roundup post", "Q&A page"]),
+  // Article type, tone, point of view, readability and language come from the option registry
+  articleType: z.string().min(1),
   articleSize: z.enum(["X-Small", "Small", "Medium", "Large"]),
-  tone: z.enum(["None", "Friendly", "Professional", "Informational", "Transactional", "Inspirational", "Neutral", "Witty", "Casual", "Authoritative", "Encouraging", "Persuasive", "Poetic"]),
-  pointOfView: z.enum(["None", "First person singular", "First person plural", "Second person", "Third person"]),
-  readability: z.enum(["None", "5th grade", "6th grade", "7th grade", "8th & 9th grade", "10th to 12th grade", "College", "College graduate", "Professional"]),
+  tone: z.string().min(1),
+  pointOfView: z.string().min(1),
+  readability: z.string().min(1),
   aiCleaning: z.enum(["No AI Words Removal", "Basic AI Words Removal", "Extended AI Words Removal"]),
   structure: z.object({
     conclusion: z.boolean(),
@@ -37,24 +61,15 @@ const articleSettingsSchema = z.object({
     keyTakeaways: z.boolean(),
   }),
   language: z.string().min(1, "Language is required"),
+  autoRepair: z.boolean(),
+  rewriteFlaggedSentences: z.boolean(),
+  promptTemplateId: z.string().nullable(),
+  brandVoiceId: z.string().nullable(),
+  generation: generationParamsSchema,
 });
 
 type ArticleSettingsForm = z.infer<typeof articleSettingsSchema>;
 
-const articleTypes = [
-  "None",
-  "How-to guide", 
-  "Listicle",
-  "Product review",
-  "News",
-  "Comparison",
-  "Case study",
-  "Opinion piece",
-  "Tutorial",
-  "Roundup post",
-  "Q&A page"
-];
-
 const articleSizes = [
   { value: "X-Small", label: "X-Small", description: "600-1200 words, 2-5 H2 headings" },
   { value: "Small", label: "Small", description: "1200-2400 words, 5-8 H2 headings" },
@@ -62,28 +77,6 @@ const articleSizes = [
   { value: "Large", label: "Large", description: "3600-5200 words, 13-16 H2 headings" }
 ];
 
-const tones = [
-  "None", "Friendly", "Professional", "Informational", "Transactional", 
-  "Inspirational", "Neutral", "Witty", "Casual", "Authoritative", 
-  "Encouraging", "Persuasive", "Poetic"
-];
-
-const pointsOfView = [
-  "None", "First person singular", "First person plural", "Second person", "Third person"
-];
-
-const readabilityLevels = [
-  { value: "None", label: "None" },
-  { value: "5th grade", label: "5th grade", description: "Easily understood by 11-year-olds" },
-  { value: "6th grade", label: "6th grade", description: "Conversational language" },
-  { value: "7th grade", label: "7th grade", description: "Fairly easy to read" },
-  { value: "8th & 9th grade", label: "8th & 9th grade", description: "Easily understood" },
-  { value: "10th to 12th grade", label: "10th to 12th grade", description: "Fairly difficult to read" },
-  { value: "College", label: "College", description: "Difficult to read" },
-  { value: "College graduate", label: "College graduate", description: "Very difficult to read" },
-  { value: "Professional", label: "Professional", description: "Extremely difficult to read" }
-];
-
 const aiCleaningOptions = [
   "No AI Words Removal",
   "Basic AI Words Removal", 
@@ -102,84 +95,53 @@ const structureOptions = [
   { key: "keyTakeaways", label: "Key Takeaways", description: "Add key takeaways section" }
 ];
 
-const languages = [
-  { code: "en", name: "English" },
-  { code: "es", name: "Spanish" },
-  { code: "fr", name: "French" },
-  { code: "de", name: "German" },
-  { code: "it", name: "Italian" },
-  { code: "pt", name: "Portuguese" },
-  { code: "nl", name: "Dutch" },
-  { code: "pl", name: "Polish" },
-  { code: "ru", name: "Russian" },
-  { code: "ja", name: "Japanese" },
-  { code: "ko", name: "Korean" },
-  { code: "zh", name: "Chinese" },
-  { code: "ar", name: "Arabic" },
-  { code: "hi", name: "Hindi" },
-  { code: "tr", name: "Turkish" },
-  { code: "sv", name: "Swedish" },
-  { code: "da", name: "Danish" },
-  { code: "no", name: "Norwegian" },
-  { code: "fi", name: "Finnish" },
-  { code: "cs", name: "Czech" },
-  { code: "hu", name: "Hungarian" },
-  { code: "ro", name: "Romanian" },
-  { code: "bg", name: "Bulgarian" },
-  { code: "hr", name: "Croatian" },
-  { code: "sr", name: "Serbian" },
-  { code: "sk", name: "Slovak" },
-  { code: "et", name: "Estonian" },
-  { code: "lv", name: "Latvian" },
-  { code: "lt", name: "Lithuanian" },
-  { code: "sl", name: "Slovenian" },
-  { code: "mt", name: "Maltese" },
-  { code: "ga", name: "Irish" },
-  { code: "cy", name: "Welsh" },
-  { code: "is", name: "Icelandic" },
-  { code: "mk", name: "Macedonian" },
-  { code: "sq", name: "Albanian" },
-  { code: "bs", name: "Bosnian" },
-  { code: "eu", name: "Basque" },
-  { code: "ca", name: "Catalan" },
-  { code: "gl", name: "Galician" },
-  { code: "be", name: "Belarusian" },
-  { code: "uk", name: "Ukrainian" },
-  { code: "el", name: "Greek" },
-  { code: "hy", name: "Armenian" },
-  { code: "ka", name: "Georgian" },
-  { code: "he", name: "Hebrew" },
-  { code: "ur", name: "Urdu" },
-  { code: "bn", name: "Bengali" },
-  { code: "ta", name: "Tamil" },
-  { code: "te", name: "Telugu" },
-  { code: "ml", name: "Malayalam" },
-  { code: "kn", name: "Kannada" },
-  { code: "gu", name: "Gujarati" },
-  { code: "pa", name: "Punjabi" },
-  { code: "mr", name: "Marathi" },
-  { code: "ne", name: "Nepali" },
-  { code: "si", name: "Sinhala" },
-  { code: "my", name: "Myanmar" },
-  { code: "km", name: "Khmer" },
-  { code: "lo", name: "Lao" },
-  { code: "ka", name: "Georgian" },
-  { code: "am", name: "Amharic" },
-  { code: "sw", name: "Swahili" },
-  { code: "zu", name: "Zulu" },
-  { code: "af", name: "Afrikaans" },
-  { code: "is", name: "Icelandic" },
-  { code: "mt", name: "Maltese" },
-  { code: "cy", name: "Welsh" }
-];
+// Registry options with their description under the label, as admins describe custom ones there
+function OptionItems({ items }: { items: ArticleOption[] }) {
+  return items.map((option) => (
+    <SelectItem key={option.value} value={option.value}>
+      <div>{option.label}</div>
+      {option.description && (
+        <div className="text-xs text-muted-foreground">
+          {option.description}
+        </div>
+      )}
+    </SelectItem>
+  ));
+}
 
 interface ArticleGeneratorFormProps {
   onSubmit: (data: ArticleSettingsForm) => Promise<void>;
+  // Queues the article for background generation instead of waiting for it; resolves false when
+  // the job was not queued, so the form keeps its values
+  onQueue?: (data: ArticleSettingsForm) => Promise<boolean>;
+  // Starts the outline-first flow; the form keeps its values so the outline can be regenerated
+  onOutline?: (data: ArticleSettingsForm) => Promise<void>;
+  // Stops the generation in progress; the form keeps its values so a typo can be fixed
+  onCancel?: () => void;
   isLoading?: boolean;
+  isQueueing?: boolean;
+  isOutlining?: boolean;
+  // Why the last generate, queue or outline request failed
+  error?: GenerationErrorInfo | null;
 }
 
-export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGeneratorFormProps) {
+export function ArticleGeneratorForm({
+  onSubmit,
+  onQueue,
+  onOutline,
+  onCancel,
+  isLoading = false,
+  isQueueing = false,
+  isOutlining = false,
+  error = null,
+}: ArticleGeneratorFormProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { data: promptTemplates = [] } = usePromptTemplates();
+  const { data: brandVoices = [] } = useBrandVoices();
+  const { data: options = DEFAULT_OPTIONS } = useArticleOptions();
+  const { data: allowedModels } = useAllowedModels();
+  const suggestTitles = useSuggestTitles();
+  const [titleSuggestions, setTitleSuggestions] = useState<TitleSuggestion[]>([]);
 
   const form = useForm<ArticleSettingsForm>({
     resolver: zodResolver(articleSettingsSchema),
@@ -204,6 +166,11 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
         keyTakeaways: false,
       },
       language: "en",
+      autoRepair: true,
+      rewriteFlaggedSentences: false,
+      promptTemplateId: null,
+      brandVoiceId: null,
+      generation: { model: null, ...DEFAULT_SAMPLING },
     },
   });
 
@@ -211,11 +178,49 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
     try {
       await onSubmit(data);
       form.reset();
+      setTitleSuggestions([]);
     } catch (error) {
       console.error("Form submission error:", error);
     }
   };
 
+  const handleQueue = async (data: ArticleSettingsForm) => {
+    if (!onQueue) return;
+    try {
+      if (await onQueue(data)) form.reset();
+    } catch (error) {
+      console.error("Form queue error:", error);
+    }
+  };
+
+  const handleOutline = async (data: ArticleSettingsForm) => {
+    if (!onOutline) return;
+    try {
+      await onOutline(data);
+    } catch (error) {
+      console.error("Form outline error:", error);
+    }
+  };
+
+  // Titles are suggested from whatever keywords, article type and language are filled in so far
+  const handleSuggestTitles = async () => {
+    const { keywords, articleType, language, generation } = form.getValues();
+    if (!keywords.trim()) {
+      form.setError("keywords", { message: "Enter keywords to get title suggestions" });
+      return;
+    }
+    try {
+      setTitleSuggestions(await suggestTitles.mutateAsync({ keywords, articleType, language, generation }));
+    } catch (error) {
+      console.error("Title suggestion error:", error);
+    }
+  };
+
+  const handleSelectTitle = (title: string) => {
+    form.setValue("title", title, { shouldValidate: true });
+    setTitleSuggestions([]);
+  };
+
   const watchedValues = form.watch();
 
   return (
@@ -228,6 +233,7 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
         <CardDescription>
           Create SEO-optimized articles in any language with customizable settings
         </CardDescription>
+        <QuotaIndicator />
       </CardHeader>
       <CardContent>
         <Form {...form}>
@@ -242,16 +248,50 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Article Title</FormLabel>
-                    <FormControl>
-                      <Input 
-                        placeholder="Enter your article title..." 
-                        {...field}
-                      />
-                    </FormControl>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input 
+                          placeholder="Enter your article title..." 
+                          {...field}
+                        />
+                      </FormControl>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleSuggestTitles}
+                        disabled={suggestTitles.isPending}
+                      >
+                        {suggestTitles.isPending ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Lightbulb className="mr-2 h-4 w-4" />
+                        )}
+                        Suggest titles
+                      </Button>
+                    </div>
                     <FormDescription>
                       The main title for your SEO article
                     </FormDescription>
                     <FormMessage />
+                    {titleSuggestions.length > 0 && (
+                      <div className="space-y-1 rounded-md border p-2">
+                        {titleSuggestions.map((suggestion, index) => (
+                          <button
+                            key={suggestion.title}
+                            type="button"
+                            className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+                            onClick={() => handleSelectTitle(suggestion.title)}
+                          >
+                            <span className="w-6 text-muted-foreground">{index + 1}.</span>
+                            <span className="flex-1">{suggestion.title}</span>
+                            {!suggestion.hasPrimaryKeyword && (
+                              <Badge variant="outline" className="text-xs font-normal">No primary keyword</Badge>
+                            )}
+                            <LengthBadge length={suggestion.length} min={50} max={60} />
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </FormItem>
                 )}
               />
@@ -289,11 +329,7 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {languages.map((lang) => (
-                          <SelectItem key={lang.code} value={lang.code}>
-                            {lang.name}
-                          </SelectItem>
-                        ))}
+                        <OptionItems items={options.language} />
                       </SelectContent>
                     </Select>
                     <FormDescription>
@@ -334,11 +370,7 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {articleTypes.map((type) => (
-                          <SelectItem key={type} value={type}>
-                            {type}
-                          </SelectItem>
-                        ))}
+                        <OptionItems items={options.articleType} />
                       </SelectContent>
                     </Select>
                     <FormDescription>
@@ -357,7 +389,11 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
                     <FormLabel>Article Size</FormLabel>
                     <FormControl>
                       <RadioGroup
-                        onValueChange={field.onChange}
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          // Large articles are written with the built-in section prompts
+                          if (value === "Large") form.setValue("promptTemplateId", null);
+                        }}
                         defaultValue={field.value}
                         className="grid grid-cols-1 md:grid-cols-2 gap-4"
                       >
@@ -394,15 +430,46 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {tones.map((tone) => (
-                          <SelectItem key={tone} value={tone}>
-                            {tone}
+                        <OptionItems items={options.tone} />
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      The tone and style of the article
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="brandVoiceId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Brand Voice</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_BRAND_VOICE ? null : value)}
+                      value={field.value ?? NO_BRAND_VOICE}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select brand voice" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_BRAND_VOICE}>None</SelectItem>
+                        {brandVoices.map((voice) => (
+                          <SelectItem key={voice.id} value={voice.id}>
+                            {voice.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
                     <FormDescription>
-                      The tone and style of the article
+                      Write in one of your brands&apos; voices; forbidden terms are checked after generation.{" "}
+                      <Link href="/dashboard/brand-voices" className="underline underline-offset-2">
+                        Manage voices
+                      </Link>
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -422,11 +489,7 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {pointsOfView.map((pov) => (
-                          <SelectItem key={pov} value={pov}>
-                            {pov}
-                          </SelectItem>
-                        ))}
+                        <OptionItems items={options.pointOfView} />
                       </SelectContent>
                     </Select>
                     <FormDescription>
@@ -450,16 +513,7 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {readabilityLevels.map((level) => (
-                          <SelectItem key={level.value} value={level.value}>
-                            <div>{level.label}</div>
-                            {level.description && (
-                              <div className="text-xs text-muted-foreground">
-                                {level.description}
-                              </div>
-                            )}
-                          </SelectItem>
-                        ))}
+                        <OptionItems items={options.readability} />
                       </SelectContent>
                     </Select>
                     <FormDescription>
@@ -491,7 +545,46 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
                       </SelectContent>
                     </Select>
                     <FormDescription>
-                      Level of AI word removal to make content sound more natural
+                      {field.value !== "No AI Words Removal" && !hasPhraseList(watchedValues.language)
+                        ? "There is no built-in phrase list for this language yet; only your banned phrases are checked"
+                        : "Level of AI word removal to make content sound more natural"}
+                    </FormDescription>
+                    <BannedPhrasesDialog />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="promptTemplateId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prompt Template</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === BUILT_IN_TEMPLATE ? null : value)}
+                      value={field.value ?? BUILT_IN_TEMPLATE}
+                      disabled={watchedValues.articleSize === "Large"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select prompt template" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={BUILT_IN_TEMPLATE}>Built-in</SelectItem>
+                        {promptTemplates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Your own article prompt; not available for Large articles, which use the built-in section prompts.{" "}
+                      <Link href="/dashboard/prompts" className="underline underline-offset-2">
+                        Manage templates
+                      </Link>
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -533,8 +626,189 @@ export function ArticleGeneratorForm({ onSubmit, isLoading = false }: ArticleGen
               </div>
             </div>
 
+            {/* Advanced */}
+            <Collapsible className="rounded-lg border">
+              <CollapsibleTrigger asChild>
+                <Button type="button" variant="ghost" className="group w-full justify-between p-4">
+                  <span className="flex items-center gap-2 text-base font-semibold">
+                    <SlidersHorizontal className="h-4 w-4" />
+                    Advanced
+                  </span>
+                  <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="space-y-6 px-4 pb-4">
+                <FormField
+                  control={form.control}
+                  name="generation.model"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Model</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === DEFAULT_MODEL ? null : value)}
+                        value={field.value ?? DEFAULT_MODEL}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select model" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_MODEL}>
+                            Default{allowedModels ? ` (${allowedModels.defaultModel})` : ""}
+                          </SelectItem>
+                          {allowedModels?.models
+                            .filter((model) => model.id !== allowedModels.defaultModel)
+                            .map((model) => (
+                              <SelectItem key={model.id} value={model.id}>
+                                <div>{model.label}</div>
+                                {model.maxTokens && (
+                                  <div className="text-xs text-muted-foreground">
+                                    Up to {model.maxTokens.toLocaleString()} tokens per call
+                                  </div>
+                                )}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Models your admin allows; the article settings record which one wrote the article
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {SAMPLING_PARAMS.map((param) => {
+                    const limits = SAMPLING_LIMITS[param];
+                    return (
+                      <FormField
+                        key={param}
+                        control={form.control}
+                        name={`generation.${param}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <div className="flex items-center justify-between">
+                              <FormLabel>{limits.label}</FormLabel>
+                              <span className="font-mono text-sm text-muted-foreground">{field.value.toFixed(2)}</span>
+                            </div>
+                            <FormControl>
+                              <Slider
+                                min={limits.min}
+                                max={limits.max}
+                                step={limits.step}
+                                value={[field.value]}
+                                onValueChange={([value]) => field.onChange(value)}
+                              />
+                            </FormControl>
+                            <FormDescription>{limits.description}</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    );
+                  })}
+                </div>
+
+                <div className="flex justify-end">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => form.setValue("generation", { model: null, ...DEFAULT_SAMPLING })}
+                  >
+                    Reset to defaults
+                  </Button>
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+
+            {/* Quality Checks */}
+            <FormField
+              control={form.control}
+              name="autoRepair"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Auto-fix Missed Requirements</FormLabel>
+                    <FormDescription>
+                      Check word count, sections and structure after generation and run a few targeted fixes before saving
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {watchedValues.aiCleaning !== "No AI Words Removal" && (
+              <FormField
+                control={form.control}
+                name="rewriteFlaggedSentences"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">Rewrite Flagged Sentences</FormLabel>
+                      <FormDescription>
+                        Let the AI rewrite sentences whose AI-sounding phrases cannot simply be removed
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {error && <GenerationErrorAlert error={error} />}
+
             {/* Submit Button */}
-            <div className="flex justify-end pt-6">
+            <div className="flex justify-end gap-2 pt-6">
+              {onOutline && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isLoading || isOutlining}
+                  onClick={form.handleSubmit(handleOutline)}
+                >
+                  {isOutlining ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <ListTree className="mr-2 h-4 w-4" />
+                  )}
+                  Create Outline First
+                </Button>
+              )}
+              {onQueue && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isLoading || isQueueing}
+                  onClick={form.handleSubmit(handleQueue)}
+                >
+                  {isQueueing ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Clock className="mr-2 h-4 w-4" />
+                  )}
+                  Generate in Background
+                </Button>
+              )}
+              {onCancel && isLoading && (
+                <Button type="button" variant="outline" onClick={onCancel}>
+                  <Square className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
               <Button 
                 type="submit" 
                 disabled={isLoading}
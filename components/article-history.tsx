@@ -16,10 +16,16 @@ import {
   Trash2, 
   Filter,
   SortAsc,
-  SortDesc
+  SortDesc,
+  Loader2,
+  Clock,
+  AlertCircle
 } from "lucide-react";
 import { Article, ArticleSettings } from "@/db/schema/articles";
+import { GenerationJob } from "@/db/schema/generation-jobs";
 import { formatDate, truncateText } from "@/lib/utils";
+import { useArticleOptions } from "@/hooks/use-article-options";
+import { DEFAULT_OPTIONS, getOptionLabel, NO_OPTION } from "@/lib/article-options";
 import { toast } from "sonner";
 
 interface ArticleHistoryProps {
@@ -27,6 +33,7 @@ interface ArticleHistoryProps {
   isLoading: boolean;
   onSelectArticle: (article: Article & { settings: ArticleSettings }) => void;
   onDeleteArticle: (articleId: string) => Promise<void>;
+  jobs?: GenerationJob[];
 }
 
 type SortField = 'createdAt' | 'title' | 'articleSize';
@@ -36,12 +43,14 @@ export function ArticleHistory({
   articles, 
   isLoading, 
   onSelectArticle, 
-  onDeleteArticle 
+  onDeleteArticle,
+  jobs = []
 }: ArticleHistoryProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState<string>("all");
   const [sortField, setSortField] = useState<SortField>('createdAt');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
+  const { data: options = DEFAULT_OPTIONS } = useArticleOptions();
 
   // Filter and sort articles
   const filteredArticles = articles
@@ -87,17 +96,6 @@ export function ArticleHistory({
     }
   };
 
-  const getLanguageName = (code: string) => {
-    const languages: { [key: string]: string } = {
-      'en': 'English', 'es': 'Spanish', 'fr': 'French', 'de': 'German',
-      'it': 'Italian', 'pt': 'Portuguese', 'nl': 'Dutch', 'pl': 'Polish',
-      'ru': 'Russian', 'ja': 'Japanese', 'ko': 'Korean', 'zh': 'Chinese',
-      'ar': 'Arabic', 'hi': 'Hindi', 'tr': 'Turkish', 'sv': 'Swedish',
-      'da': 'Danish', 'no': 'Norwegian', 'fi': 'Finnish'
-    };
-    return languages[code] || code;
-  };
-
   const getSizeColor = (size: string) => {
     const colors = {
       'X-Small': 'bg-blue-100 text-blue-800',
@@ -160,16 +158,13 @@ export function ArticleHistory({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="How-to guide">How-to guide</SelectItem>
-                <SelectItem value="Listicle">Listicle</SelectItem>
-                <SelectItem value="Product review">Product review</SelectItem>
-                <SelectItem value="News">News</SelectItem>
-                <SelectItem value="Comparison">Comparison</SelectItem>
-                <SelectItem value="Case study">Case study</SelectItem>
-                <SelectItem value="Opinion piece">Opinion piece</SelectItem>
-                <SelectItem value="Tutorial">Tutorial</SelectItem>
-                <SelectItem value="Roundup post">Roundup post</SelectItem>
-                <SelectItem value="Q&A page">Q&A page</SelectItem>
+                {options.articleType
+                  .filter((type) => type.value !== NO_OPTION)
+                  .map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
               </SelectContent>
             </Select>
           </div>
@@ -199,6 +194,44 @@ export function ArticleHistory({
           </div>
         </div>
 
+        {/* Background generation jobs */}
+        {jobs.length > 0 && (
+          <div className="space-y-2 mb-6">
+            <h4 className="text-sm font-medium">Background generation</h4>
+            {jobs.map((job) => {
+              const request = job.request as { title?: string };
+              return (
+                <div
+                  key={job.id}
+                  className="flex items-center justify-between rounded-lg border p-3 text-sm"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    {job.status === "running" && <Loader2 className="h-4 w-4 animate-spin shrink-0" />}
+                    {job.status === "queued" && <Clock className="h-4 w-4 text-muted-foreground shrink-0" />}
+                    {job.status === "failed" && <AlertCircle className="h-4 w-4 text-destructive shrink-0" />}
+                    <span className="truncate font-medium">{request.title || "Untitled"}</span>
+                  </div>
+                  <div className="flex items-center gap-2 ml-4">
+                    {job.status === "failed" && job.error && (
+                      <span className="text-xs text-muted-foreground truncate max-w-[240px]" title={job.error}>
+                        {job.error}
+                      </span>
+                    )}
+                    {job.attempts > 1 && job.status !== "failed" && (
+                      <span className="text-xs text-muted-foreground">
+                        Attempt {job.attempts}/{job.maxAttempts}
+                      </span>
+                    )}
+                    <Badge variant={job.status === "failed" ? "destructive" : "secondary"} className="capitalize">
+                      {job.status}
+                    </Badge>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Articles List */}
         {filteredArticles.length === 0 ? (
           <div className="text-center py-8">
@@ -225,6 +258,9 @@ export function ArticleHistory({
                           >
                             {article.title}
                           </h3>
+                          {article.status === "draft" && (
+                            <Badge variant="secondary">Draft</Badge>
+                          )}
                           <Badge className={getSizeColor(article.settings.articleSize)}>
                             {article.settings.articleSize}
                           </Badge>
@@ -245,7 +281,7 @@ export function ArticleHistory({
                             {article.content.split(' ').length} words
                           </span>
                           <span className="text-xs px-2 py-1 bg-muted rounded">
-                            {getLanguageName(article.settings.language)}
+                            {getOptionLabel(options, "language", article.settings.language)}
                           </span>
                         </div>
                         
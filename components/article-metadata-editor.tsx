@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Plus, Save, X } from "lucide-react";
+import { Article, ArticleFaqItem, ArticleSettings } from "@/db/schema/articles";
+import { useUpdateArticleMetadata } from "@/hooks/use-articles";
+import { getStructuredArticle, slugify } from "@/lib/structured-article";
+
+interface ArticleMetadataEditorProps {
+  article: Article & { settings: ArticleSettings };
+  onUpdated?: (article: Article & { settings: ArticleSettings }) => void;
+  readOnly?: boolean;
+}
+
+export function LengthBadge({ length, min, max }: { length: number; min: number; max: number }) {
+  const withinRange = length >= min && length <= max;
+  return (
+    <Badge variant={withinRange ? "secondary" : "outline"} className="text-xs font-normal">
+      {length} chars (target {min}-{max})
+    </Badge>
+  );
+}
+
+// Structured fields of the article, editable one by one
+export function ArticleMetadataEditor({ article, onUpdated, readOnly = false }: ArticleMetadataEditorProps) {
+  // Articles saved before the structured columns existed are parsed from their content
+  const initial = getStructuredArticle(article);
+
+  const [metaTitle, setMetaTitle] = useState(initial.metaTitle);
+  const [metaDescription, setMetaDescription] = useState(initial.metaDescription);
+  const [slug, setSlug] = useState(initial.slug);
+  const [h1, setH1] = useState(initial.h1);
+  const [faq, setFaq] = useState<ArticleFaqItem[]>(initial.faq);
+  const updateMutation = useUpdateArticleMetadata();
+
+  const hasEmptyFields =
+    !h1.trim() || faq.some((item) => !item.question.trim() || !item.answer.trim());
+
+  const updateFaq = (index: number, item: ArticleFaqItem) => {
+    setFaq(faq.map((current, i) => (i === index ? item : current)));
+  };
+
+  const handleSave = async () => {
+    try {
+      const updated = await updateMutation.mutateAsync({
+        articleId: article.id,
+        updates: { metaTitle, metaDescription, slug, h1, faq },
+      });
+      setSlug(updated.slug ?? slug);
+      onUpdated?.(updated);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update article");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="meta-title">Meta Title</Label>
+          <LengthBadge length={metaTitle.length} min={50} max={60} />
+        </div>
+        <Input
+          id="meta-title"
+          value={metaTitle}
+          onChange={(e) => setMetaTitle(e.target.value)}
+          disabled={readOnly}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="meta-description">Meta Description</Label>
+          <LengthBadge length={metaDescription.length} min={150} max={160} />
+        </div>
+        <Textarea
+          id="meta-description"
+          value={metaDescription}
+          onChange={(e) => setMetaDescription(e.target.value)}
+          rows={3}
+          disabled={readOnly}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="slug">Slug</Label>
+          <Input
+            id="slug"
+            value={slug}
+            onChange={(e) => setSlug(e.target.value)}
+            onBlur={() => setSlug(slugify(slug))}
+            className="font-mono"
+            disabled={readOnly}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="h1">H1</Label>
+          <Input id="h1" value={h1} onChange={(e) => setH1(e.target.value)} disabled={readOnly} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>FAQ</Label>
+        {faq.length === 0 && (
+          <p className="text-sm text-muted-foreground">This article has no FAQ</p>
+        )}
+        {faq.map((item, index) => (
+          <div key={index} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={item.question}
+                onChange={(e) => updateFaq(index, { ...item, question: e.target.value })}
+                placeholder="Question"
+                disabled={readOnly}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setFaq(faq.filter((_, i) => i !== index))}
+                disabled={readOnly}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove question</span>
+              </Button>
+            </div>
+            <Textarea
+              value={item.answer}
+              onChange={(e) => updateFaq(index, { ...item, answer: e.target.value })}
+              placeholder="Answer"
+              rows={3}
+              disabled={readOnly}
+            />
+          </div>
+        ))}
+        {!readOnly && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setFaq([...faq, { question: "", answer: "" }])}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add Question
+          </Button>
+        )}
+      </div>
+
+      {!readOnly && (
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            onClick={() => handleSave().catch(() => {})}
+            disabled={updateMutation.isPending || hasEmptyFields}
+          >
+            {updateMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save Metadata
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
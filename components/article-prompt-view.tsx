@@ -0,0 +1,114 @@
+"use client";
+
+import { Copy, ScrollText } from "lucide-react";
+import { toast } from "sonner";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { PromptCall, PromptRecord } from "@/db/schema/articles";
+import { formatDate } from "@/lib/utils";
+
+interface ArticlePromptViewProps {
+  record: PromptRecord | null;
+}
+
+function formatParam(value: number | string | null): string {
+  return value === null ? "—" : String(value);
+}
+
+function PromptBlock({ label, text }: { label: string; text: string }) {
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied to clipboard!`);
+    } catch {
+      toast.error("Failed to copy to clipboard");
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium uppercase text-muted-foreground">{label}</span>
+        <Button variant="ghost" size="sm" onClick={copy}>
+          <Copy className="h-3 w-3" />
+        </Button>
+      </div>
+      <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/40 p-3 text-xs">{text}</pre>
+    </div>
+  );
+}
+
+function CallParams({ call }: { call: PromptCall }) {
+  const { params } = call;
+  const entries: [string, number | string | null][] = [
+    ["Model", params.model],
+    ["Temperature", params.temperature],
+    ["Top P", params.topP],
+    ["Frequency penalty", params.frequencyPenalty],
+    ["Presence penalty", params.presencePenalty],
+    ["Max tokens", params.maxTokens],
+    ["Response format", params.responseFormat],
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-xs md:grid-cols-4">
+      {entries.map(([label, value]) => (
+        <div key={label}>
+          <p className="text-muted-foreground">{label}</p>
+          <p className="font-mono">{formatParam(value)}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// The prompts and parameters sent to the model for this article, call by call
+export function ArticlePromptView({ record }: ArticlePromptViewProps) {
+  if (!record) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Prompts were not recorded for this article. They are saved for articles generated from now on.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ScrollText className="h-4 w-4" />
+          <span className="font-medium">Prompts sent</span>
+          <Badge variant="outline">{record.provider}</Badge>
+          <Badge variant="secondary">{record.model}</Badge>
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {record.calls.length} {record.calls.length === 1 ? "call" : "calls"} · recorded {formatDate(new Date(record.recordedAt))}
+        </span>
+      </div>
+
+      <Accordion type="multiple" className="rounded-md border px-3">
+        {record.calls.map((call, index) => (
+          <AccordionItem key={`${call.template}-${index}`} value={String(index)}>
+            <AccordionTrigger>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">{index + 1}.</span>
+                <Badge variant="outline" className="font-mono">{call.template}</Badge>
+                {call.continuations > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    continued {call.continuations} {call.continuations === 1 ? "time" : "times"}
+                  </span>
+                )}
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-4">
+              <CallParams call={call} />
+              <PromptBlock label="System prompt" text={call.systemPrompt} />
+              <PromptBlock label="User prompt" text={call.userPrompt} />
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
+  );
+}
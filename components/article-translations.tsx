@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Languages, Loader2 } from "lucide-react";
+import { Article, ArticleSettings } from "@/db/schema/articles";
+import { useArticleOptions } from "@/hooks/use-article-options";
+import { useArticleTranslations, useTranslateArticle } from "@/hooks/use-articles";
+import { DEFAULT_OPTIONS, getOptionLabel } from "@/lib/article-options";
+
+interface ArticleTranslationsProps {
+  article: Article & { settings: ArticleSettings };
+  onSelectArticle?: (article: Article & { settings: ArticleSettings }) => void;
+}
+
+// Switches between the language versions of an article and translates it into new languages
+export function ArticleTranslations({ article, onSelectArticle }: ArticleTranslationsProps) {
+  const { data: options = DEFAULT_OPTIONS } = useArticleOptions();
+  const { data: versions = [article] } = useArticleTranslations(article.id);
+  const translateMutation = useTranslateArticle();
+  const [language, setLanguage] = useState("");
+
+  const existing = new Set(versions.map((version) => version.settings.language));
+  const available = options.language.filter((option) => !existing.has(option.value));
+
+  const handleTranslate = async () => {
+    try {
+      const translation = await translateMutation.mutateAsync({ articleId: article.id, input: { language } });
+      setLanguage("");
+      onSelectArticle?.(translation);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to translate article");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Languages className="h-4 w-4 text-muted-foreground" />
+      {versions.map((version) => (
+        <Button
+          key={version.id}
+          variant={version.id === article.id ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => version.id !== article.id && onSelectArticle?.(version)}
+          disabled={!onSelectArticle}
+        >
+          {getOptionLabel(options, "language", version.settings.language)}
+        </Button>
+      ))}
+      {available.length > 0 && (
+        <div className="ml-auto flex items-center gap-2">
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger size="sm" className="w-40">
+              <SelectValue placeholder="Translate into…" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={handleTranslate} disabled={!language || translateMutation.isPending}>
+            {translateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Translate
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
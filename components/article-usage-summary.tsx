@@ -0,0 +1,58 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { useArticleUsage } from "@/hooks/use-usage";
+import { formatCost, formatNumber } from "@/lib/utils";
+
+interface ArticleUsageSummaryProps {
+  articleId: string;
+}
+
+// Tokens, cost and time spent on every LLM call made for the article
+export function ArticleUsageSummary({ articleId }: ArticleUsageSummaryProps) {
+  const { data: usage, isLoading, isError } = useArticleUsage(articleId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading usage...
+      </div>
+    );
+  }
+
+  if (isError || !usage) {
+    return <p className="text-sm text-muted-foreground">Usage could not be loaded.</p>;
+  }
+
+  if (usage.calls === 0) {
+    return <p className="text-sm text-muted-foreground">No usage was recorded for this article.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+      <div>
+        <span className="font-medium">Cost:</span>
+        <p className="text-muted-foreground">{formatCost(usage.cost)}</p>
+      </div>
+      <div>
+        <span className="font-medium">Tokens:</span>
+        <p className="text-muted-foreground">
+          {formatNumber(usage.promptTokens)} in · {formatNumber(usage.completionTokens)} out
+        </p>
+      </div>
+      <div>
+        <span className="font-medium">LLM calls:</span>
+        <p className="text-muted-foreground">{usage.calls}</p>
+      </div>
+      <div>
+        <span className="font-medium">Generation time:</span>
+        <p className="text-muted-foreground">{(usage.latencyMs / 1000).toFixed(1)}s</p>
+      </div>
+      <div className="col-span-2 md:col-span-4">
+        <span className="font-medium">Models:</span>
+        <p className="text-muted-foreground font-mono">{usage.models.join(", ")}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Ban, Loader2, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { useAddBannedPhrase, useBannedPhrases, useDeleteBannedPhrase } from "@/hooks/use-banned-phrases";
+import { PHRASE_LIST_LANGUAGES } from "@/lib/ai-phrases";
+import { getLanguageName } from "@/lib/article-options";
+
+// Manages the user's own banned phrases, scrubbed whenever AI cleaning is enabled
+export function BannedPhrasesDialog() {
+  const [phrase, setPhrase] = useState("");
+  const { data: phrases = [], isLoading } = useBannedPhrases();
+  const addMutation = useAddBannedPhrase();
+  const deleteMutation = useDeleteBannedPhrase();
+
+  const handleAdd = async () => {
+    if (phrase.trim().length < 2) return;
+    try {
+      await addMutation.mutateAsync(phrase.trim());
+      setPhrase("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add banned phrase");
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" variant="link" size="sm" className="h-auto p-0">
+          <Ban className="mr-1 h-3 w-3" />
+          Banned phrases{phrases.length > 0 ? ` (${phrases.length})` : ""}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Banned Phrases</DialogTitle>
+          <DialogDescription>
+            Phrases you never want in your articles. They are flagged on top of the built-in list whenever AI cleaning is on.
+            Built-in lists exist for {PHRASE_LIST_LANGUAGES.map((code) => getLanguageName(code)).join(", ")}; articles in
+            other languages are only checked for these phrases.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            value={phrase}
+            onChange={(e) => setPhrase(e.target.value)}
+            placeholder="e.g. cutting-edge"
+            maxLength={100}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+          />
+          <Button type="button" onClick={handleAdd} disabled={addMutation.isPending || phrase.trim().length < 2}>
+            {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : phrases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No banned phrases yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {phrases.map((entry) => (
+              <Badge key={entry.id} variant="secondary" className="gap-1 pr-1">
+                {entry.phrase}
+                <button
+                  type="button"
+                  className="rounded-sm opacity-70 hover:opacity-100"
+                  onClick={() => deleteMutation.mutate(entry.id)}
+                  aria-label={`Remove ${entry.phrase}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
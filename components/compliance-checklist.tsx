@@ -0,0 +1,53 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Wrench, XCircle } from "lucide-react";
+import { ComplianceReport } from "@/db/schema/articles";
+
+interface ComplianceChecklistProps {
+  report: ComplianceReport;
+  // Reports of articles saved before checks existed are computed on the fly
+  isLive?: boolean;
+}
+
+export function ComplianceChecklist({ report, isLive = false }: ComplianceChecklistProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">Requirements met</span>
+          <Badge variant={report.passed ? "secondary" : "destructive"}>{report.score}%</Badge>
+        </div>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {report.repairAttempts > 0 && (
+            <span className="flex items-center gap-1">
+              <Wrench className="h-4 w-4" />
+              {report.repairAttempts} automatic {report.repairAttempts === 1 ? "fix" : "fixes"} applied
+            </span>
+          )}
+          {isLive && <span>Checked against the current content</span>}
+        </div>
+      </div>
+      <Progress value={report.score} />
+
+      <ul className="divide-y rounded-md border">
+        {report.checks.map((check) => (
+          <li key={check.id} className="flex items-start gap-3 p-3 text-sm">
+            {check.passed ? (
+              <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+            ) : (
+              <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+            )}
+            <div className="flex-1">
+              <p className="font-medium">{check.label}</p>
+              <p className="text-muted-foreground">
+                Expected {check.expected} · Found {check.actual}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { AlertCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+export type GenerationErrorInfo = {
+  message: string;
+  // Error code returned by the API, when it sent one
+  code: string | null;
+};
+
+// Headlines for the error codes of the generation routes; the message from the server explains the details
+const errorTitles: { [code: string]: string } = {
+  ai_rate_limited: "The AI service is busy",
+  ai_unavailable: "The AI service is unavailable",
+  ai_auth_failed: "The AI service is misconfigured",
+  ai_content_policy: "Blocked by the AI content policy",
+  ai_context_length: "Too long for the AI model",
+  ai_invalid_request: "The AI service rejected the request",
+  ai_timeout: "The AI service timed out",
+  ai_circuit_open: "AI requests are paused",
+  rate_limited: "Too many requests",
+  too_many_concurrent: "Generation already running",
+  daily_article_quota: "Daily article limit reached",
+  monthly_article_quota: "Monthly article limit reached",
+  daily_token_quota: "Daily token budget used up",
+  monthly_token_quota: "Monthly token budget used up",
+  idempotency_key_in_use: "Already generating",
+  invalid_prompt_template: "Prompt template unavailable",
+  invalid_brand_voice: "Brand voice unavailable",
+};
+
+// Last generation error, shown above the form buttons
+export function GenerationErrorAlert({ error }: { error: GenerationErrorInfo }) {
+  return (
+    <Alert variant="destructive">
+      <AlertCircle />
+      <AlertTitle>{(error.code && errorTitles[error.code]) || "Generation failed"}</AlertTitle>
+      <AlertDescription>
+        <p>{error.message}</p>
+        {error.code && <p className="font-mono text-xs">Error code: {error.code}</p>}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Loader2, RefreshCw, Wand2, X } from "lucide-react";
+import { Article, ArticleSettings } from "@/db/schema/articles";
+import { useAcceptInlineEdit, useSuggestInlineEdit } from "@/hooks/use-articles";
+import {
+  diffWords,
+  INLINE_EDIT_ACTIONS,
+  MAX_SELECTION_LENGTH,
+  type InlineEditAction,
+  type InlineEditSuggestion,
+} from "@/lib/inline-edit-actions";
+
+interface InlineEditorProps {
+  article: Article & { settings: ArticleSettings };
+  // Text selected in the article view, or null
+  selection: string | null;
+  onClear: () => void;
+  onUpdated?: (article: Article & { settings: ArticleSettings }) => void;
+}
+
+// Rewrites the selected text and shows the suggestion as a diff; the article only changes on accept
+export function InlineEditor({ article, selection, onClear, onUpdated }: InlineEditorProps) {
+  const [instruction, setInstruction] = useState("");
+  const [suggestion, setSuggestion] = useState<InlineEditSuggestion | null>(null);
+  const [lastAction, setLastAction] = useState<InlineEditAction | null>(null);
+  const suggestMutation = useSuggestInlineEdit();
+  const acceptMutation = useAcceptInlineEdit();
+
+  if (!selection) {
+    return <p className="text-sm text-muted-foreground">Select a passage in the article above to expand, shorten or rewrite it.</p>;
+  }
+
+  if (selection.length > MAX_SELECTION_LENGTH) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The selection is {selection.length.toLocaleString()} characters long; select at most {MAX_SELECTION_LENGTH.toLocaleString()} to rewrite it.
+      </p>
+    );
+  }
+
+  const isBusy = suggestMutation.isPending || acceptMutation.isPending;
+
+  const handleSuggest = async (action: InlineEditAction) => {
+    setLastAction(action);
+    setSuggestion(null);
+    try {
+      const result = await suggestMutation.mutateAsync({
+        articleId: article.id,
+        input: { text: selection, action, instruction: action === "custom" ? instruction.trim() : null },
+      });
+      setSuggestion(result);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to rewrite the selected text");
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!suggestion) return;
+    try {
+      const updated = await acceptMutation.mutateAsync({
+        articleId: article.id,
+        input: {
+          text: suggestion.text,
+          replacement: suggestion.replacement,
+          action: suggestion.action,
+          instruction: suggestion.instruction,
+        },
+      });
+      setSuggestion(null);
+      onClear();
+      onUpdated?.(updated);
+    } catch (error) {
+      // The suggestion stays so the user can try to accept it again
+      toast.error(error instanceof Error ? error.message : "Failed to apply the edit");
+    }
+  };
+
+  const handleReject = () => {
+    setSuggestion(null);
+    onClear();
+  };
+
+  return (
+    <div className="space-y-4">
+      {suggestion ? (
+        <div className="rounded-md border bg-muted/40 p-3 text-sm leading-relaxed whitespace-pre-wrap">
+          {diffWords(suggestion.text, suggestion.replacement).map((part, index) =>
+            part.type === "removed" ? (
+              <del key={index} className="bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300">
+                {part.text}
+              </del>
+            ) : part.type === "added" ? (
+              <ins key={index} className="bg-green-100 text-green-800 no-underline dark:bg-green-950 dark:text-green-300">
+                {part.text}
+              </ins>
+            ) : (
+              <span key={index}>{part.text}</span>
+            )
+          )}
+        </div>
+      ) : (
+        <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground line-clamp-4">{selection}</blockquote>
+      )}
+
+      {suggestion ? (
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={handleReject} disabled={isBusy}>
+            <X className="mr-2 h-4 w-4" />
+            Reject
+          </Button>
+          <Button variant="outline" onClick={() => lastAction && handleSuggest(lastAction)} disabled={isBusy}>
+            {suggestMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Try again
+          </Button>
+          <Button onClick={handleAccept} disabled={isBusy}>
+            {acceptMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Check className="mr-2 h-4 w-4" />
+            )}
+            Accept
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {INLINE_EDIT_ACTIONS.filter((action) => action.id !== "custom").map((action) => (
+              <Button key={action.id} variant="outline" size="sm" onClick={() => handleSuggest(action.id)} disabled={isBusy}>
+                {suggestMutation.isPending && lastAction === action.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {action.label}
+              </Button>
+            ))}
+            <Button variant="ghost" size="sm" onClick={onClear} disabled={isBusy}>
+              Clear selection
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Or describe the change, e.g. Mention the 30-day return policy"
+              maxLength={500}
+            />
+            <Button onClick={() => handleSuggest("custom")} disabled={!instruction.trim() || isBusy}>
+              {suggestMutation.isPending && lastAction === "custom" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Wand2 className="mr-2 h-4 w-4" />
+              )}
+              Rewrite
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
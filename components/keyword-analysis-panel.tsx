@@ -0,0 +1,107 @@
+"use client";
+
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Check, Minus } from "lucide-react";
+import { Article, ArticleSettings } from "@/db/schema/articles";
+import { analyzeKeywords, TARGET_DENSITY, type KeywordReport } from "@/lib/keyword-analysis";
+import { getStructuredArticle } from "@/lib/structured-article";
+
+interface KeywordAnalysisPanelProps {
+  article: Article & { settings: ArticleSettings };
+}
+
+const statusLabels: { [key in KeywordReport["status"]]: string } = {
+  missing: "Missing",
+  low: "Low",
+  ok: "Good",
+  high: "High",
+};
+
+const placementColumns: { key: keyof KeywordReport["placements"]; label: string }[] = [
+  { key: "h1", label: "H1" },
+  { key: "firstWords", label: "First 100 words" },
+  { key: "h2", label: "H2" },
+  { key: "metaDescription", label: "Meta description" },
+];
+
+function PlacementCell({ present }: { present: boolean }) {
+  return present ? (
+    <Check className="h-4 w-4 text-green-600" />
+  ) : (
+    <Minus className="h-4 w-4 text-muted-foreground" />
+  );
+}
+
+export function KeywordAnalysisPanel({ article }: KeywordAnalysisPanelProps) {
+  const analysis = useMemo(
+    () => analyzeKeywords(getStructuredArticle(article), article.keywords, article.settings.language),
+    [article]
+  );
+  const warnings = analysis.keywords.flatMap((report) =>
+    report.warnings.map((warning) => `${report.keyword}: ${warning}`)
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {analysis.totalWords} words analyzed · target density {TARGET_DENSITY.min}-{TARGET_DENSITY.max}%
+      </p>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Keyword</TableHead>
+              <TableHead className="text-right">Count</TableHead>
+              <TableHead className="text-right">Density</TableHead>
+              {placementColumns.map((column) => (
+                <TableHead key={column.key}>{column.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analysis.keywords.map((report) => (
+              <TableRow key={report.keyword}>
+                <TableCell className="font-medium">{report.keyword}</TableCell>
+                <TableCell className="text-right">{report.count}</TableCell>
+                <TableCell className="text-right">
+                  <div className="flex items-center justify-end gap-2">
+                    {report.density}%
+                    <Badge variant={report.status === "ok" ? "secondary" : "destructive"} className="text-xs">
+                      {statusLabels[report.status]}
+                    </Badge>
+                  </div>
+                </TableCell>
+                {placementColumns.map((column) => (
+                  <TableCell key={column.key}>
+                    <PlacementCell present={report.placements[column.key]} />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="space-y-2">
+          {warnings.map((warning) => (
+            <p key={warning} className="flex items-start gap-2 text-sm text-destructive">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useId } from "react";
+import {
+  closestCenter,
+  DndContext,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { restrictToVerticalAxis } from "@dnd-kit/modifiers";
+import {
+  arrayMove,
+  SortableContext,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GripVertical, ListTree, Loader2, Plus, RefreshCw, Trash2, Wand2, X } from "lucide-react";
+import { ArticleOutline, ArticleOutlineSection } from "@/db/schema/articles";
+import { sizeRequirements } from "@/lib/prompt-builder";
+import { generateId } from "@/lib/utils";
+
+interface OutlineEditorProps {
+  outline: ArticleOutline;
+  articleSize: string;
+  onChange: (outline: ArticleOutline) => void;
+  onApprove: () => void;
+  onRegenerate: () => void;
+  onCancel: () => void;
+  isGenerating?: boolean;
+  isRegenerating?: boolean;
+}
+
+interface SortableSectionProps {
+  section: ArticleOutlineSection;
+  index: number;
+  onChange: (section: ArticleOutlineSection) => void;
+  onRemove: () => void;
+}
+
+function SortableSection({ section, index, onChange, onRemove }: SortableSectionProps) {
+  const { attributes, listeners, transform, transition, setNodeRef, isDragging } = useSortable({
+    id: section.id,
+  });
+
+  const updateSubheading = (subIndex: number, value: string) => {
+    onChange({
+      ...section,
+      subheadings: section.subheadings.map((sub, i) => (i === subIndex ? value : sub)),
+    });
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      data-dragging={isDragging}
+      className="relative z-0 rounded-lg border bg-card p-3 space-y-2 data-[dragging=true]:z-10 data-[dragging=true]:opacity-80"
+      style={{
+        transform: CSS.Transform.toString(transform),
+        transition,
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <Button
+          {...attributes}
+          {...listeners}
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="text-muted-foreground size-7 hover:bg-transparent cursor-grab"
+        >
+          <GripVertical className="h-4 w-4" />
+          <span className="sr-only">Drag to reorder</span>
+        </Button>
+        <span className="text-xs font-mono text-muted-foreground w-8">H2 {index + 1}</span>
+        <Input
+          value={section.heading}
+          onChange={(e) => onChange({ ...section, heading: e.target.value })}
+          placeholder="Section heading"
+        />
+        <Button type="button" variant="ghost" size="icon" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+          <span className="sr-only">Remove section</span>
+        </Button>
+      </div>
+
+      <div className="ml-16 space-y-2">
+        {section.subheadings.map((subheading, subIndex) => (
+          <div key={subIndex} className="flex items-center gap-2">
+            <span className="text-xs font-mono text-muted-foreground w-6">H3</span>
+            <Input
+              value={subheading}
+              onChange={(e) => updateSubheading(subIndex, e.target.value)}
+              placeholder="Subheading"
+              className="h-8"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="size-8"
+              onClick={() =>
+                onChange({
+                  ...section,
+                  subheadings: section.subheadings.filter((_, i) => i !== subIndex),
+                })
+              }
+            >
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove subheading</span>
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...section, subheadings: [...section.subheadings, ""] })}
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Add H3
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function OutlineEditor({
+  outline,
+  articleSize,
+  onChange,
+  onApprove,
+  onRegenerate,
+  onCancel,
+  isGenerating = false,
+  isRegenerating = false,
+}: OutlineEditorProps) {
+  const sortableId = useId();
+  const sensors = useSensors(
+    useSensor(MouseSensor, {}),
+    useSensor(TouchSensor, {}),
+    useSensor(KeyboardSensor, {})
+  );
+
+  const [minH2, maxH2] = (sizeRequirements[articleSize as keyof typeof sizeRequirements]?.h2 || "1-30")
+    .split("-")
+    .map(Number);
+  const sectionCount = outline.sections.length;
+  const withinRange = sectionCount >= minH2 && sectionCount <= maxH2;
+
+  const hasEmptyFields =
+    !outline.h1.trim() ||
+    outline.sections.some((section) => !section.heading.trim() || section.subheadings.some((sub) => !sub.trim())) ||
+    outline.faq.some((question) => !question.trim());
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (active && over && active.id !== over.id) {
+      const ids = outline.sections.map((section) => section.id);
+      onChange({
+        ...outline,
+        sections: arrayMove(outline.sections, ids.indexOf(String(active.id)), ids.indexOf(String(over.id))),
+      });
+    }
+  };
+
+  const updateSection = (index: number, section: ArticleOutlineSection) => {
+    onChange({
+      ...outline,
+      sections: outline.sections.map((current, i) => (i === index ? section : current)),
+    });
+  };
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListTree className="h-5 w-5" />
+          Review Outline
+        </CardTitle>
+        <CardDescription>
+          Reorder, rename, remove or add headings, then generate the article from the approved outline
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="outline-h1">H1</Label>
+          <Input
+            id="outline-h1"
+            value={outline.h1}
+            onChange={(e) => onChange({ ...outline, h1: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Sections</Label>
+            <Badge variant={withinRange ? "secondary" : "destructive"}>
+              {sectionCount} H2 sections (target {minH2}-{maxH2})
+            </Badge>
+          </div>
+          <DndContext
+            collisionDetection={closestCenter}
+            modifiers={[restrictToVerticalAxis]}
+            onDragEnd={handleDragEnd}
+            sensors={sensors}
+            id={sortableId}
+          >
+            <SortableContext
+              items={outline.sections.map((section) => section.id)}
+              strategy={verticalListSortingStrategy}
+            >
+              <div className="space-y-2">
+                {outline.sections.map((section, index) => (
+                  <SortableSection
+                    key={section.id}
+                    section={section}
+                    index={index}
+                    onChange={(updated) => updateSection(index, updated)}
+                    onRemove={() =>
+                      onChange({
+                        ...outline,
+                        sections: outline.sections.filter((_, i) => i !== index),
+                      })
+                    }
+                  />
+                ))}
+              </div>
+            </SortableContext>
+          </DndContext>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...outline,
+                sections: [...outline.sections, { id: generateId(), heading: "", subheadings: [] }],
+              })
+            }
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add Section
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>FAQ Questions</Label>
+          {outline.faq.length === 0 && (
+            <p className="text-sm text-muted-foreground">No FAQ questions planned</p>
+          )}
+          {outline.faq.map((question, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={question}
+                onChange={(e) =>
+                  onChange({
+                    ...outline,
+                    faq: outline.faq.map((current, i) => (i === index ? e.target.value : current)),
+                  })
+                }
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange({ ...outline, faq: outline.faq.filter((_, i) => i !== index) })}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove question</span>
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...outline, faq: [...outline.faq, ""] })}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add Question
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 pt-2">
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onRegenerate}
+            disabled={isGenerating || isRegenerating}
+          >
+            {isRegenerating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Regenerate Outline
+          </Button>
+          <Button
+            type="button"
+            onClick={onApprove}
+            disabled={isGenerating || isRegenerating || sectionCount === 0 || hasEmptyFields}
+          >
+            {isGenerating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Wand2 className="mr-2 h-4 w-4" />
+            )}
+            Generate from Outline
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
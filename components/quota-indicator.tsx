@@ -0,0 +1,55 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useQuota } from "@/hooks/use-usage";
+import { formatNumber } from "@/lib/utils";
+
+function QuotaLine({ label, used, limit }: { label: string; used: number; limit: number | null }) {
+  if (limit === null) {
+    return (
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{label}</span>
+          <span>Unlimited</span>
+        </div>
+      </div>
+    );
+  }
+
+  const left = Math.max(0, limit - used);
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span className={left === 0 ? "text-destructive" : undefined}>
+          {formatNumber(left)} of {formatNumber(limit)} left
+        </span>
+      </div>
+      <Progress value={Math.min(100, (used / limit) * 100)} className="h-1.5" />
+    </div>
+  );
+}
+
+// What is left of the user's plan, shown above the generator form
+export function QuotaIndicator() {
+  const { data: quota } = useQuota();
+  if (!quota) return null;
+
+  const { limits, used } = quota;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Remaining quota</span>
+        <Badge variant="outline" className="capitalize">{quota.plan} plan</Badge>
+      </div>
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <QuotaLine label="Articles today" used={used.articlesToday} limit={limits.articlesPerDay} />
+        <QuotaLine label="Articles this month" used={used.articlesThisMonth} limit={limits.articlesPerMonth} />
+        <QuotaLine label="Tokens today" used={used.tokensToday} limit={limits.tokensPerDay} />
+        <QuotaLine label="Tokens this month" used={used.tokensThisMonth} limit={limits.tokensPerMonth} />
+      </div>
+    </div>
+  );
+}
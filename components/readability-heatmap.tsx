@@ -0,0 +1,96 @@
+"use client";
+
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { Article, ArticleSettings, ReadabilityReport, ReadabilityStatus } from "@/db/schema/articles";
+import { analyzeReadability, READABILITY_TARGETS } from "@/lib/readability";
+import { getStructuredArticle } from "@/lib/structured-article";
+
+interface ReadabilityHeatmapProps {
+  article: Article & { settings: ArticleSettings };
+}
+
+const statusStyles: { [key in ReadabilityStatus]: { label: string; className: string } } = {
+  "on-target": { label: "On target", className: "bg-green-500/15 border-green-500/40" },
+  "too-easy": { label: "Too easy", className: "bg-amber-500/15 border-amber-500/40" },
+  "too-hard": { label: "Too hard", className: "bg-red-500/15 border-red-500/40" },
+  "not-scored": { label: "Not scored", className: "bg-muted border-border" },
+};
+
+const methodLabels: { [key in ReadabilityReport["method"]]: string } = {
+  flesch: "Flesch Reading Ease",
+  adapted: "Flesch Reading Ease adapted to the article language",
+  lix: "LIX, mapped onto the Flesch scale",
+  none: "Reading ease is not estimated for this language",
+};
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold">{value}</p>
+    </div>
+  );
+}
+
+// Overall readability and a per-section heatmap against the requested level
+export function ReadabilityHeatmap({ article }: ReadabilityHeatmapProps) {
+  // Articles saved before readability was stored are scored on the fly
+  const report = useMemo(
+    () => article.readabilityReport ?? analyzeReadability(getStructuredArticle(article), article.settings),
+    [article]
+  );
+  const { overall } = report;
+  const band = report.target ? READABILITY_TARGETS[report.target] : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">Readability</span>
+          {overall.level && <Badge variant="secondary">{overall.level}</Badge>}
+          {overall.status !== "not-scored" && (
+            <Badge variant={overall.status === "on-target" ? "secondary" : "destructive"}>
+              {statusStyles[overall.status].label}
+            </Badge>
+          )}
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {band ? `Target: ${report.target} (reading ease ${band[0]}-${band[1]})` : "No readability level requested"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+        <Stat label="Reading ease" value={overall.readingEase !== null ? String(overall.readingEase) : "—"} />
+        <Stat label="Grade level" value={overall.gradeLevel !== null ? String(overall.gradeLevel) : "—"} />
+        <Stat label="Avg. sentence length" value={`${overall.averageSentenceLength} words`} />
+        <Stat
+          label="Long words"
+          value={`${overall.longWordRatio}%${overall.polysyllableRatio !== null ? ` · ${overall.polysyllableRatio}% 3+ syll.` : ""}`}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">{methodLabels[report.method]}</p>
+
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+        {report.sections.map((section, index) => (
+          <div
+            key={`${section.heading}-${index}`}
+            className={cn("rounded-md border p-3 text-sm", statusStyles[section.status].className)}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <p className="font-medium">{section.heading}</p>
+              <span className="shrink-0 font-semibold">{section.readingEase ?? "—"}</span>
+            </div>
+            <p className="text-muted-foreground">
+              {section.words} words · {section.averageSentenceLength} words/sentence · {section.longWordRatio}% long words
+            </p>
+            {report.target && (
+              <p className="text-xs text-muted-foreground">{statusStyles[section.status].label}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { IconTrendingDown, IconTrendingUp } from "@tabler/icons-react"
+import { IconMinus, IconTrendingDown, IconTrendingUp } from "@tabler/icons-react"
 
 import { Badge } from "@/components/ui/badge"
 import {
@@ -9,94 +9,89 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card"
+import type { UsageSummary } from "@/lib/llm-usage"
+import { formatCost, formatNumber } from "@/lib/utils"
+
+// Change against the previous period, null when there is nothing to compare with
+function getChange(current: number, previous: number): number | null {
+  if (previous === 0) return null
+  return ((current - previous) / previous) * 100
+}
+
+function UsageCard({
+  label,
+  value,
+  change,
+  footer,
+  description,
+}: {
+  label: string
+  value: string
+  change: number | null
+  footer: string
+  description: string
+}) {
+  const TrendIcon = change === null || change === 0 ? IconMinus : change > 0 ? IconTrendingUp : IconTrendingDown
+
+  return (
+    <Card className="@container/card">
+      <CardHeader>
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+          {value}
+        </CardTitle>
+        <CardAction>
+          <Badge variant="outline">
+            <TrendIcon />
+            {change === null ? "New" : `${change > 0 ? "+" : ""}${change.toFixed(1)}%`}
+          </Badge>
+        </CardAction>
+      </CardHeader>
+      <CardFooter className="flex-col items-start gap-1.5 text-sm">
+        <div className="line-clamp-1 flex gap-2 font-medium">
+          {footer} <TrendIcon className="size-4" />
+        </div>
+        <div className="text-muted-foreground">{description}</div>
+      </CardFooter>
+    </Card>
+  )
+}
+
+export function SectionCards({ summary }: { summary: UsageSummary }) {
+  const { thisMonth, lastMonth, today } = summary
+  const costPerArticle = thisMonth.articles > 0 ? thisMonth.cost / thisMonth.articles : 0
+  const lastCostPerArticle = lastMonth.articles > 0 ? lastMonth.cost / lastMonth.articles : 0
 
-export function SectionCards() {
   return (
     <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 px-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs lg:px-6 @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Total Revenue</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            $1,250.00
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingUp />
-              +12.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Trending up this month <IconTrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">
-            Visitors for the last 6 months
-          </div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>New Customers</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            1,234
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingDown />
-              -20%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Down 20% this period <IconTrendingDown className="size-4" />
-          </div>
-          <div className="text-muted-foreground">
-            Acquisition needs attention
-          </div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Active Accounts</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            45,678
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingUp />
-              +12.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Strong user retention <IconTrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Engagement exceed targets</div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Growth Rate</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            4.5%
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingUp />
-              +4.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Steady performance increase <IconTrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Meets growth projections</div>
-        </CardFooter>
-      </Card>
+      <UsageCard
+        label="Cost This Month"
+        value={formatCost(thisMonth.cost)}
+        change={getChange(thisMonth.cost, lastMonth.cost)}
+        footer={`${formatCost(today.cost)} spent today`}
+        description="Compared with last month"
+      />
+      <UsageCard
+        label="Tokens This Month"
+        value={formatNumber(thisMonth.totalTokens)}
+        change={getChange(thisMonth.totalTokens, lastMonth.totalTokens)}
+        footer={`${formatNumber(thisMonth.promptTokens)} in · ${formatNumber(thisMonth.completionTokens)} out`}
+        description="Prompt and completion tokens"
+      />
+      <UsageCard
+        label="Articles This Month"
+        value={formatNumber(thisMonth.articles)}
+        change={getChange(thisMonth.articles, lastMonth.articles)}
+        footer={`${formatNumber(thisMonth.calls)} LLM calls`}
+        description="Articles with recorded usage"
+      />
+      <UsageCard
+        label="Cost per Article"
+        value={formatCost(costPerArticle)}
+        change={getChange(costPerArticle, lastCostPerArticle)}
+        footer={`${formatCost(lastCostPerArticle)} last month`}
+        description="Average for this month"
+      />
     </div>
   )
 }
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { History, Loader2, RefreshCw } from "lucide-react";
+import { Article, ArticleSettings } from "@/db/schema/articles";
+import { useArticleRevisions, useRegenerateSection } from "@/hooks/use-articles";
+import { getH2Headings } from "@/lib/compliance";
+import { getStructuredArticle } from "@/lib/structured-article";
+import { formatDate } from "@/lib/utils";
+
+interface SectionRegeneratorProps {
+  article: Article & { settings: ArticleSettings };
+  onUpdated?: (article: Article & { settings: ArticleSettings }) => void;
+}
+
+// Rewrites one H2 section with optional instructions; every rewrite is kept as a revision
+export function SectionRegenerator({ article, onUpdated }: SectionRegeneratorProps) {
+  const headings = getH2Headings(getStructuredArticle(article).body);
+  const [sectionIndex, setSectionIndex] = useState<string>("");
+  const [instructions, setInstructions] = useState("");
+  const regenerateMutation = useRegenerateSection();
+  const { data: revisions = [] } = useArticleRevisions(article.id);
+
+  const selected = sectionIndex === "" ? null : Number(sectionIndex);
+  const canRegenerate = selected !== null && headings[selected] !== undefined;
+
+  const handleRegenerate = async () => {
+    if (selected === null) return;
+    try {
+      const updated = await regenerateMutation.mutateAsync({
+        articleId: article.id,
+        input: { sectionIndex: selected, heading: headings[selected], instructions: instructions.trim() || null },
+      });
+      setInstructions("");
+      onUpdated?.(updated);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to regenerate section");
+    }
+  };
+
+  if (headings.length === 0) {
+    return <p className="text-sm text-muted-foreground">This article has no H2 sections to regenerate.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-[1fr_2fr]">
+        <div className="space-y-2">
+          <Label>Section</Label>
+          <Select value={sectionIndex} onValueChange={setSectionIndex}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Pick a heading" />
+            </SelectTrigger>
+            <SelectContent>
+              {headings.map((heading, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {heading}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="section-instructions">Instructions (optional)</Label>
+          <Textarea
+            id="section-instructions"
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="e.g. Add a concrete example and cut the generic advice"
+            maxLength={1000}
+            className="min-h-20"
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          The rest of the article, the keywords and the original settings are sent along as context.
+        </p>
+        <Button onClick={handleRegenerate} disabled={!canRegenerate || regenerateMutation.isPending}>
+          {regenerateMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Regenerate section
+        </Button>
+      </div>
+
+      {revisions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 text-sm font-medium">
+            <History className="h-4 w-4" />
+            Revisions
+          </h4>
+          <ul className="space-y-1 text-sm">
+            {revisions.map((revision) => (
+              <li key={revision.id} className="flex gap-3">
+                <span className="font-mono text-muted-foreground">#{revision.revision}</span>
+                <span className="flex-1">{revision.note ?? "Original article"}</span>
+                <span className="text-muted-foreground">{formatDate(new Date(revision.createdAt))}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,28 @@ import 'dotenv/config';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import * as authSchema from './schema/auth';
 import * as articlesSchema from './schema/articles';
+import * as generationJobsSchema from './schema/generation-jobs';
+import * as bannedPhrasesSchema from './schema/banned-phrases';
+import * as llmUsageSchema from './schema/llm-usage';
+import * as generationQuotasSchema from './schema/generation-quotas';
+import * as idempotencyKeysSchema from './schema/idempotency-keys';
+import * as promptTemplatesSchema from './schema/prompt-templates';
+import * as brandVoicesSchema from './schema/brand-voices';
+import * as articleOptionsSchema from './schema/article-options';
+import * as articleRevisionsSchema from './schema/article-revisions';
 
 export const db = drizzle(process.env.DATABASE_URL!, {
-  schema: { ...authSchema, ...articlesSchema },
+  schema: { ...authSchema, ...articlesSchema, ...generationJobsSchema, ...bannedPhrasesSchema, ...llmUsageSchema, ...generationQuotasSchema, ...idempotencyKeysSchema, ...promptTemplatesSchema, ...brandVoicesSchema, ...articleOptionsSchema, ...articleRevisionsSchema },
 });
 
 export * from './schema/auth';
-export * from './schema/articles';
\ No newline at end of file
+export * from './schema/articles';
+export * from './schema/generation-jobs';
+export * from './schema/banned-phrases';
+export * from './schema/llm-usage';
+export * from './schema/generation-quotas';
+export * from './schema/idempotency-keys';
+export * from './schema/prompt-templates';
+export * from './schema/brand-voices';
+export * from './schema/article-options';
+export * from './schema/article-revisions';
\ No newline at end of file
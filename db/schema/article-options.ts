@@ -0,0 +1,25 @@
+import { pgTable, text, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+
+// Admin-defined options for the article settings, merged over the built-in ones in lib/article-options.ts.
+// An entry with the value of a built-in option replaces it.
+export const articleOptions = pgTable("article_options", {
+  id: text("id").primaryKey(),
+  category: text("category").$type<OptionCategory>().notNull(),
+  value: text("value").notNull(),
+  label: text("label").notNull(),
+  description: text("description"),
+  instruction: text("instruction"),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  categoryValueIdx: uniqueIndex("article_options_category_value_idx").on(table.category, table.value),
+}));
+
+export type OptionCategory = "articleType" | "tone" | "pointOfView" | "readability" | "language";
+
+export type ArticleOptionEntry = typeof articleOptions.$inferSelect;
+export type NewArticleOptionEntry = typeof articleOptions.$inferInsert;
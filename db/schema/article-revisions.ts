@@ -0,0 +1,29 @@
+import { pgTable, text, timestamp, integer, uniqueIndex } from "drizzle-orm/pg-core";
+import { articles } from "./articles";
+
+// Snapshots of an article's text. The article row always holds the latest revision; the first
+// edit also stores the text the article had before it as revision 1.
+export const articleRevisions = pgTable("article_revisions", {
+  id: text("id").primaryKey(),
+  articleId: text("article_id")
+    .notNull()
+    .references(() => articles.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  content: text("content").notNull(),
+  body: text("body").notNull(),
+  source: text("source").$type<ArticleRevisionSource>().notNull(),
+  // What changed, e.g. the regenerated heading and the user's instructions
+  note: text("note"),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  articleRevisionIdx: uniqueIndex("article_revisions_article_id_revision_idx").on(table.articleId, table.revision),
+}));
+
+// "generated" is the article as first written, "section" a regenerated H2 section, "inline"
+// an accepted rewrite of selected text and "metadata" edited metadata or FAQ
+export type ArticleRevisionSource = "generated" | "section" | "inline" | "metadata";
+
+export type ArticleRevision = typeof articleRevisions.$inferSelect;
+export type NewArticleRevision = typeof articleRevisions.$inferInsert;
@@ -10,6 +10,27 @@ export const articles = pgTable("articles", {
   content: text("content").notNull(),
   keywords: text("keywords").notNull(),
   settings: jsonb("settings").notNull(),
+  // Outline the user approved before the body was generated, if any
+  outline: jsonb("outline").$type<ArticleOutline>(),
+  // Structured parts of the article; content keeps the full rendered markdown
+  metaTitle: text("meta_title"),
+  metaDescription: text("meta_description"),
+  slug: text("slug"),
+  h1: text("h1"),
+  body: text("body"),
+  faq: jsonb("faq").$type<ArticleFaqItem[]>(),
+  // How well the article met its settings, checked before it was saved
+  compliance: jsonb("compliance").$type<ComplianceReport>(),
+  // AI-sounding phrases found and scrubbed when aiCleaning is enabled
+  aiPhraseReport: jsonb("ai_phrase_report").$type<AIPhraseReport>(),
+  // Readability scores of the saved article against the requested level
+  readabilityReport: jsonb("readability_report").$type<ReadabilityReport>(),
+  // Prompts and sampling parameters sent to the model while the article was generated
+  promptRecord: jsonb("prompt_record").$type<PromptRecord>(),
+  // "draft" articles hold the partial output of a cancelled generation
+  status: text("status").$type<ArticleStatus>().notNull().default("complete"),
+  // Shared by an article and its translations; null until it is first translated
+  translationGroupId: text("translation_group_id"),
   createdAt: timestamp("created_at")
     .$defaultFn(() => new Date())
     .notNull(),
@@ -19,8 +40,11 @@ export const articles = pgTable("articles", {
 }, (table) => ({
   userIdIdx: index("articles_user_id_idx").on(table.userId),
   createdAtIdx: index("articles_created_at_idx").on(table.createdAt),
+  translationGroupIdx: index("articles_translation_group_id_idx").on(table.translationGroupId),
 }));
 
+export type ArticleStatus = "complete" | "draft";
+
 export type ArticleSettings = {
   articleType: string;
   articleSize: string;
@@ -40,6 +64,151 @@ export type ArticleSettings = {
     keyTakeaways: boolean;
   };
   language: string;
+  // Model and sampling the article was written with; missing on older articles
+  modelSettings?: ArticleModelSettings;
+  // Prompt template and brand voice the article was written with, so later edits can use them too
+  promptTemplateId?: string | null;
+  brandVoiceId?: string | null;
+};
+
+export type ArticleModelSettings = {
+  model: string;
+  temperature: number;
+  topP: number;
+  frequencyPenalty: number;
+  presencePenalty: number;
+};
+
+export type ArticleOutlineSection = {
+  id: string;
+  heading: string;
+  subheadings: string[];
+};
+
+export type ArticleOutline = {
+  h1: string;
+  sections: ArticleOutlineSection[];
+  faq: string[];
+};
+
+export type ArticleFaqItem = {
+  question: string;
+  answer: string;
+};
+
+export type ComplianceCheckId =
+  | "word-count"
+  | "h2-count"
+  | "faq"
+  | "conclusion"
+  | "key-takeaways"
+  | "tables"
+  | "language"
+  | "forbidden-terms";
+
+export type ComplianceCheck = {
+  id: ComplianceCheckId;
+  label: string;
+  passed: boolean;
+  expected: string;
+  actual: string;
+};
+
+export type ComplianceReport = {
+  // Share of passed checks, 0-100
+  score: number;
+  passed: boolean;
+  checks: ComplianceCheck[];
+  // Targeted repair calls made before the article was saved
+  repairAttempts: number;
+  checkedAt: string;
+};
+
+export type AIPhraseMatch = {
+  phrase: string;
+  // "custom" phrases come from the user's own banned list
+  source: "list" | "custom";
+  field: "body" | "faq" | "metaDescription";
+  // H2 section the phrase was found in, null for the introduction and non-body fields
+  section: string | null;
+  line: number;
+  excerpt: string;
+};
+
+export type AIPhraseReport = {
+  tier: string;
+  // Everything detected in the raw output, before scrubbing
+  found: AIPhraseMatch[];
+  replaced: number;
+  rewritten: number;
+  // Flagged phrases still present after scrubbing
+  remaining: AIPhraseMatch[];
+  // False when the article's language has no built-in list, so only banned phrases were checked.
+  // Missing on reports saved before it was recorded.
+  builtInList?: boolean;
+};
+
+export type ReadabilityScores = {
+  words: number;
+  sentences: number;
+  // Flesch Reading Ease or the language's own adaptation of it; null where it cannot be estimated
+  readingEase: number | null;
+  // Flesch-Kincaid grade, English only
+  gradeLevel: number | null;
+  averageSentenceLength: number;
+  averageSyllablesPerWord: number | null;
+  // Percentage of words with seven or more letters
+  longWordRatio: number;
+  // Percentage of words with three or more syllables
+  polysyllableRatio: number | null;
+  // Readability option the reading ease falls into
+  level: string | null;
+};
+
+export type ReadabilityStatus = "on-target" | "too-easy" | "too-hard" | "not-scored";
+
+export type ReadabilitySection = ReadabilityScores & {
+  heading: string;
+  status: ReadabilityStatus;
+};
+
+export type ReadabilityReport = {
+  // How the reading ease was worked out for the article language
+  method: "flesch" | "adapted" | "lix" | "none";
+  // Requested readability option, null when none was requested
+  target: string | null;
+  overall: ReadabilityScores & { status: ReadabilityStatus };
+  sections: ReadabilitySection[];
+  checkedAt: string;
+};
+
+export type PromptCallParams = {
+  model: string;
+  temperature: number | null;
+  topP: number | null;
+  frequencyPenalty: number | null;
+  presencePenalty: number | null;
+  maxTokens: number;
+  // Name of the JSON schema the output was constrained to, if any
+  responseFormat: string | null;
+};
+
+export type PromptCall = {
+  // Versioned template id, e.g. "article@1"
+  template: string;
+  systemPrompt: string;
+  userPrompt: string;
+  params: PromptCallParams;
+  // Follow-up calls asking the model to continue after it hit max_tokens
+  continuations: number;
+};
+
+export type PromptRecord = {
+  provider: string;
+  model: string;
+  // Every call in the order it was made: outline, article or sections, repairs and rewrites
+  calls: PromptCall[];
+  recordedAt: string;
 };
 
 export type Article = typeof articles.$inferSelect;
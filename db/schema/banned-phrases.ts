@@ -0,0 +1,19 @@
+import { pgTable, text, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+
+// Phrases a user never wants in their articles, scrubbed on top of the built-in lists
+export const bannedPhrases = pgTable("banned_phrases", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  phrase: text("phrase").notNull(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  userPhraseIdx: uniqueIndex("banned_phrases_user_id_phrase_idx").on(table.userId, table.phrase),
+}));
+
+export type BannedPhrase = typeof bannedPhrases.$inferSelect;
+export type NewBannedPhrase = typeof bannedPhrases.$inferInsert;
@@ -0,0 +1,30 @@
+import { pgTable, text, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+
+// How a brand writes, folded into the article prompts; forbidden terms are checked after generation
+export const brandVoices = pgTable("brand_voices", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  dos: jsonb("dos").$type<string[]>().notNull(),
+  donts: jsonb("donts").$type<string[]>().notNull(),
+  // Words and phrases the brand prefers
+  vocabulary: jsonb("vocabulary").$type<string[]>().notNull(),
+  forbiddenTerms: jsonb("forbidden_terms").$type<string[]>().notNull(),
+  // Paragraphs written in the brand's voice, shown to the model as style references
+  samples: jsonb("samples").$type<string[]>().notNull(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  userIdIdx: index("brand_voices_user_id_idx").on(table.userId),
+}));
+
+export type BrandVoice = typeof brandVoices.$inferSelect;
+export type NewBrandVoice = typeof brandVoices.$inferInsert;
@@ -0,0 +1,66 @@
+import { pgTable, text, timestamp, jsonb, integer, index } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+import { articles } from "./articles";
+import { generationRequests } from "./generation-quotas";
+
+// A bulk import; each of its rows is a generation job. The worker only runs rows of active batches.
+export const generationBatches = pgTable("generation_batches", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  status: text("status").$type<GenerationBatchStatus>().notNull().default("active"),
+  totalRows: integer("total_rows").notNull(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  userIdIdx: index("generation_batches_user_id_idx").on(table.userId),
+}));
+
+export const generationJobs = pgTable("generation_jobs", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  status: text("status").$type<GenerationJobStatus>().notNull().default("queued"),
+  request: jsonb("request").notNull(),
+  articleId: text("article_id").references(() => articles.id, { onDelete: "set null" }),
+  batchId: text("batch_id").references(() => generationBatches.id, { onDelete: "cascade" }),
+  // Data row of the imported CSV, starting at 1
+  batchRow: integer("batch_row"),
+  // The quota slot reserved for the job; the worker starts and finishes it with the job
+  generationRequestId: text("generation_request_id").references(() => generationRequests.id, { onDelete: "set null" }),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  error: text("error"),
+  runAfter: timestamp("run_after")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  lockedAt: timestamp("locked_at"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  userIdIdx: index("generation_jobs_user_id_idx").on(table.userId),
+  statusRunAfterIdx: index("generation_jobs_status_run_after_idx").on(table.status, table.runAfter),
+  batchIdIdx: index("generation_jobs_batch_id_idx").on(table.batchId),
+}));
+
+export type GenerationJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type GenerationBatchStatus = "active" | "paused";
+
+export type GenerationBatch = typeof generationBatches.$inferSelect;
+export type NewGenerationBatch = typeof generationBatches.$inferInsert;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type NewGenerationJob = typeof generationJobs.$inferInsert;
@@ -0,0 +1,38 @@
+import { pgTable, text, timestamp, index } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+
+// Plan assigned to a user; users without a row get DEFAULT_PLAN
+export const userPlans = pgTable("user_plans", {
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => user.id, { onDelete: "cascade" }),
+  plan: text("plan").notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+// One row per accepted generation request; backs the rate limiter, the concurrency cap and the article quotas
+export const generationRequests = pgTable("generation_requests", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  status: text("status").$type<GenerationRequestStatus>().notNull().default("running"),
+  // Shared by the requests reserved together by one bulk import, which the rate limit counts once
+  reservationId: text("reservation_id"),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  // When the request started running; queued requests start when the worker picks up their job
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  userIdCreatedAtIdx: index("generation_requests_user_id_created_at_idx").on(table.userId, table.createdAt),
+}));
+
+// "queued" requests were handed to the background worker; "cancelled" ones were stopped by the user
+export type GenerationRequestStatus = "running" | "queued" | "succeeded" | "failed" | "cancelled";
+
+export type UserPlan = typeof userPlans.$inferSelect;
+export type GenerationRequest = typeof generationRequests.$inferSelect;
@@ -0,0 +1,32 @@
+import { pgTable, text, timestamp, integer, jsonb, primaryKey, index } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+import { articles } from "./articles";
+
+// Idempotency-Key sent with a generation request and the response it produced, kept for a retention window
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  // Hash of the endpoint and request body; a key cannot be reused for a different request
+  fingerprint: text("fingerprint").notNull(),
+  status: text("status").$type<IdempotencyKeyStatus>().notNull().default("in_progress"),
+  statusCode: integer("status_code"),
+  response: jsonb("response"),
+  articleId: text("article_id").references(() => articles.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.key] }),
+  expiresAtIdx: index("idempotency_keys_expires_at_idx").on(table.expiresAt),
+}));
+
+// "failed" keys can be claimed again, so a retry after an error generates normally
+export type IdempotencyKeyStatus = "in_progress" | "completed" | "failed";
+
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
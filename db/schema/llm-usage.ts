@@ -0,0 +1,29 @@
+import { pgTable, text, timestamp, integer, doublePrecision, boolean, index } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+import { articles } from "./articles";
+
+// One row per LLM call, linked to the article once it has been saved
+export const llmUsage = pgTable("llm_usage", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  articleId: text("article_id").references(() => articles.id, { onDelete: "set null" }),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  // True when the provider reported no usage and the tokens were estimated from the text
+  estimated: boolean("estimated").notNull().default(false),
+  // USD, priced with the table in lib/llm/pricing.ts at the time of the call
+  cost: doublePrecision("cost").notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  userIdCreatedAtIdx: index("llm_usage_user_id_created_at_idx").on(table.userId, table.createdAt),
+  articleIdIdx: index("llm_usage_article_id_idx").on(table.articleId),
+}));
+
+export type LLMUsageRecord = typeof llmUsage.$inferSelect;
+export type NewLLMUsageRecord = typeof llmUsage.$inferInsert;
@@ -0,0 +1,27 @@
+import { pgTable, text, timestamp, integer, index } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+
+// User-written article prompts with {{variable}} placeholders, rendered in place of the built-in prompt
+export const promptTemplates = pgTable("prompt_templates", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  systemPrompt: text("system_prompt").notNull(),
+  userPrompt: text("user_prompt").notNull(),
+  // Bumped on every edit and recorded with the prompts of each article
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  userIdIdx: index("prompt_templates_user_id_idx").on(table.userId),
+}));
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type NewPromptTemplate = typeof promptTemplates.$inferInsert;
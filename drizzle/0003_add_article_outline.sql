@@ -0,0 +1 @@
+ALTER TABLE "articles" ADD COLUMN "outline" jsonb;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "articles" ADD COLUMN "meta_title" text;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "meta_description" text;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "slug" text;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "h1" text;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "body" text;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "faq" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "articles" ADD COLUMN "compliance" jsonb;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "banned_phrases" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"phrase" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "ai_phrase_report" jsonb;--> statement-breakpoint
+ALTER TABLE "banned_phrases" ADD CONSTRAINT "banned_phrases_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "banned_phrases_user_id_phrase_idx" ON "banned_phrases" USING btree ("user_id","phrase");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "articles" ADD COLUMN "readability_report" jsonb;
\ No newline at end of file
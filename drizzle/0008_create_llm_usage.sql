@@ -0,0 +1,17 @@
+CREATE TABLE "llm_usage" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"article_id" text,
+	"model" text NOT NULL,
+	"prompt_tokens" integer NOT NULL,
+	"completion_tokens" integer NOT NULL,
+	"estimated" boolean DEFAULT false NOT NULL,
+	"cost" double precision NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "llm_usage" ADD CONSTRAINT "llm_usage_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "llm_usage" ADD CONSTRAINT "llm_usage_article_id_articles_id_fk" FOREIGN KEY ("article_id") REFERENCES "public"."articles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "llm_usage_user_id_created_at_idx" ON "llm_usage" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "llm_usage_article_id_idx" ON "llm_usage" USING btree ("article_id");
\ No newline at end of file
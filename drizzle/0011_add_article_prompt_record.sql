@@ -0,0 +1 @@
+ALTER TABLE "articles" ADD COLUMN "prompt_record" jsonb;
\ No newline at end of file
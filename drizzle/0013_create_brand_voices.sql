@@ -0,0 +1,16 @@
+CREATE TABLE "brand_voices" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"dos" jsonb NOT NULL,
+	"donts" jsonb NOT NULL,
+	"vocabulary" jsonb NOT NULL,
+	"forbidden_terms" jsonb NOT NULL,
+	"samples" jsonb NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "brand_voices" ADD CONSTRAINT "brand_voices_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "brand_voices_user_id_idx" ON "brand_voices" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "article_options" (
+	"id" text PRIMARY KEY NOT NULL,
+	"category" text NOT NULL,
+	"value" text NOT NULL,
+	"label" text NOT NULL,
+	"description" text,
+	"instruction" text,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "article_options_category_value_idx" ON "article_options" USING btree ("category","value");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "generation_batches" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"total_rows" integer NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN "batch_id" text;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN "batch_row" integer;--> statement-breakpoint
+ALTER TABLE "generation_batches" ADD CONSTRAINT "generation_batches_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generation_batches_user_id_idx" ON "generation_batches" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_batch_id_generation_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."generation_batches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generation_jobs_batch_id_idx" ON "generation_jobs" USING btree ("batch_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "articles" ADD COLUMN "status" text DEFAULT 'complete' NOT NULL;
\ No newline at end of file
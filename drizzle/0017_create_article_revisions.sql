@@ -0,0 +1,13 @@
+CREATE TABLE "article_revisions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"article_id" text NOT NULL,
+	"revision" integer NOT NULL,
+	"content" text NOT NULL,
+	"body" text NOT NULL,
+	"source" text NOT NULL,
+	"note" text,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "article_revisions" ADD CONSTRAINT "article_revisions_article_id_articles_id_fk" FOREIGN KEY ("article_id") REFERENCES "public"."articles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "article_revisions_article_id_revision_idx" ON "article_revisions" USING btree ("article_id","revision");
\ No newline at end of file
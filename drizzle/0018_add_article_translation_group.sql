@@ -0,0 +1,2 @@
+ALTER TABLE "articles" ADD COLUMN "translation_group_id" text;--> statement-breakpoint
+CREATE INDEX "articles_translation_group_id_idx" ON "articles" USING btree ("translation_group_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "generation_jobs" ADD COLUMN "generation_request_id" text;--> statement-breakpoint
+ALTER TABLE "generation_requests" ADD COLUMN "reservation_id" text;--> statement-breakpoint
+ALTER TABLE "generation_requests" ADD COLUMN "started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_generation_request_id_generation_requests_id_fk" FOREIGN KEY ("generation_request_id") REFERENCES "public"."generation_requests"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE "generation_requests" SET "started_at" = "created_at" WHERE "status" = 'running';
\ No newline at end of file
@@ -0,0 +1,23 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_OPTIONS, type OptionRegistry } from "@/lib/article-options";
+
+// The options for the article settings, including the custom ones added by admins. The built-in
+// options are shown until the registry loads, so the form never renders empty selects.
+export function useArticleOptions() {
+  return useQuery({
+    queryKey: ["article-options"],
+    queryFn: async () => {
+      const response = await fetch("/api/options");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch article options");
+      }
+
+      return response.json() as Promise<OptionRegistry>;
+    },
+    placeholderData: DEFAULT_OPTIONS,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
@@ -1,11 +1,21 @@
 "use client";
 
+import { useCallback, useRef, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Article, ArticleSettings } from "@/db/schema/articles";
-import { generateId } from "@/lib/utils";
+import { Article, ArticleOutline, ArticleSettings } from "@/db/schema/articles";
+import type { ArticleMetadataUpdate } from "@/lib/structured-article";
+import type { GenerationParams } from "@/lib/generation-params";
+import type { ArticleRevisionSummary } from "@/lib/article-revisions";
+import type { TranslateArticleInput } from "@/lib/article-translation";
+import type { TitleSuggestion, TitleSuggestionRequest } from "@/lib/title-suggestions";
+import type { AcceptInlineEditInput, InlineEditInput, InlineEditSuggestion } from "@/lib/inline-edit-actions";
+import type { RegenerateSectionInput } from "@/lib/section-regeneration";
+import { generateId, readResponseError } from "@/lib/utils";
+import { parseSSEBuffer } from "@/lib/sse";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
 import { toast } from "sonner";
 
-type ArticleFormData = {
+export type ArticleFormData = {
   title: string;
   keywords: string;
   articleType: string;
@@ -26,11 +36,26 @@ type ArticleFormData = {
     keyTakeaways: boolean;
   };
   language: string;
+  outline?: ArticleOutline;
+  autoRepair?: boolean;
+  rewriteFlaggedSentences?: boolean;
+  promptTemplateId?: string | null;
+  brandVoiceId?: string | null;
+  generation?: GenerationParams | null;
 };
 
+// Failed generation request; code is the API's error code, such as ai_rate_limited or daily_article_quota
+export class GenerationRequestError extends Error {
+  constructor(message: string, public code: string | null = null) {
+    super(message);
+    this.name = "GenerationRequestError";
+  }
+}
+
 // Generate article mutation
 export function useGenerateArticle() {
   const queryClient = useQueryClient();
+  const idempotency = useIdempotencyKey();
 
   return useMutation({
     mutationFn: async (data: ArticleFormData) => {
@@ -38,24 +63,249 @@ export function useGenerateArticle() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotency.keyFor(data),
         },
         body: JSON.stringify(data),
       });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || "Failed to generate article");
+        throw new GenerationRequestError(error.error || "Failed to generate article", error.code ?? null);
       }
 
       return response.json();
     },
     onSuccess: (data) => {
+      idempotency.release();
       toast.success("Article generated successfully!");
       // Invalidate articles query to refresh the list
       queryClient.invalidateQueries({ queryKey: ["articles"] });
+      queryClient.invalidateQueries({ queryKey: ["quota"] });
     },
     onError: (error: Error) => {
       toast.error(error.message || "Failed to generate article");
+      queryClient.invalidateQueries({ queryKey: ["quota"] });
+    },
+  });
+}
+
+// First phase of outline-first generation
+export function useGenerateOutline() {
+  return useMutation({
+    mutationFn: async (data: ArticleFormData) => {
+      const response = await fetch("/api/outline", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new GenerationRequestError(error.error || "Failed to generate outline", error.code ?? null);
+      }
+
+      const result = await response.json();
+      return result.outline as ArticleOutline;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to generate outline");
+    },
+  });
+}
+
+export function useSuggestTitles() {
+  return useMutation({
+    mutationFn: async (data: TitleSuggestionRequest) => {
+      const response = await fetch("/api/titles", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to suggest titles"));
+      }
+
+      const result = await response.json();
+      return result.titles as TitleSuggestion[];
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to suggest titles");
+    },
+  });
+}
+
+export type StreamStatus = "idle" | "streaming" | "succeeded" | "partial" | "failed" | "cancelled";
+
+// Abort reason that tells a cancel apart from a reset or a newer request replacing the stream
+const CANCELLED = "cancelled";
+
+// Streaming variant of useGenerateArticle: exposes the article text as it grows
+export function useStreamGenerateArticle() {
+  const queryClient = useQueryClient();
+  const [content, setContent] = useState("");
+  const [status, setStatus] = useState<StreamStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<string | null>(null);
+  const [article, setArticle] = useState<(Article & { settings: ArticleSettings }) | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { keyFor, release } = useIdempotencyKey();
+  // The stream in flight, so a second click on the same submission joins it instead of restarting it
+  const pendingRef = useRef<{ key: string; result: Promise<(Article & { settings: ArticleSettings }) | null> } | null>(null);
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    setContent("");
+    setStatus("idle");
+    setError(null);
+    setErrorCode(null);
+    setArticle(null);
+  }, []);
+
+  // Stops the stream and, through the aborted request, the LLM call on the server. The text
+  // received so far stays in content so it can be saved as a draft.
+  const cancel = useCallback(() => {
+    abortRef.current?.abort(CANCELLED);
+  }, []);
+
+  const run = useCallback(async (data: ArticleFormData, idempotencyKey: string) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setContent("");
+    setError(null);
+    setErrorCode(null);
+    setArticle(null);
+    setStatus("streaming");
+
+    const fail = (message: string, partial: boolean, code: string | null = null) => {
+      setError(message);
+      setErrorCode(code);
+      setStatus(partial ? "partial" : "failed");
+      toast.error(message);
+      queryClient.invalidateQueries({ queryKey: ["quota"] });
+    };
+
+    try {
+      const response = await fetch("/api/generate/stream", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey,
+        },
+        body: JSON.stringify(data),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}));
+        fail(body.error || "Failed to generate article", false, body.code ?? null);
+        return null;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let received = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const { messages, rest } = parseSSEBuffer(buffer);
+        buffer = rest;
+
+        for (const message of messages) {
+          const payload = JSON.parse(message.data);
+
+          if (message.event === "delta") {
+            received += payload.content;
+            setContent(received);
+          } else if (message.event === "repair") {
+            toast.info(payload.message);
+          } else if (message.event === "done") {
+            release();
+            setArticle(payload.article);
+            setStatus("succeeded");
+            toast.success("Article generated successfully!");
+            queryClient.invalidateQueries({ queryKey: ["articles"] });
+            queryClient.invalidateQueries({ queryKey: ["quota"] });
+            return payload.article as Article & { settings: ArticleSettings };
+          } else if (message.event === "error") {
+            fail(payload.error || "Failed to generate article", payload.status === "partial", payload.code ?? null);
+            return null;
+          }
+        }
+      }
+
+      // The connection closed without a terminal event
+      fail("The connection was lost before the article finished.", received.length > 0);
+      return null;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        if (controller.signal.reason === CANCELLED) {
+          // The server gives up the key when it notices; a resubmission should not wait for that
+          release();
+          setStatus("cancelled");
+          toast.info("Article generation cancelled");
+          queryClient.invalidateQueries({ queryKey: ["quota"] });
+        } else {
+          setStatus("idle");
+        }
+        return null;
+      }
+      fail(err instanceof Error ? err.message : "Failed to generate article", false);
+      return null;
+    }
+  }, [queryClient, release]);
+
+  const generate = useCallback((data: ArticleFormData) => {
+    const key = keyFor(data);
+    if (pendingRef.current?.key === key) {
+      return pendingRef.current.result;
+    }
+
+    const result = run(data, key).finally(() => {
+      if (pendingRef.current?.result === result) {
+        pendingRef.current = null;
+      }
+    });
+    pendingRef.current = { key, result };
+    return result;
+  }, [run, keyFor]);
+
+  return { generate, cancel, reset, content, status, error, errorCode, article };
+}
+
+// Keeps the partial output of a cancelled generation as a draft article
+export function useSaveDraftArticle() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: ArticleFormData & { content: string }) => {
+      const response = await fetch("/api/articles/drafts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to save draft"));
+      }
+
+      return response.json() as Promise<Article & { settings: ArticleSettings }>;
+    },
+    onSuccess: () => {
+      toast.success("Draft saved!");
+      queryClient.invalidateQueries({ queryKey: ["articles"] });
     },
   });
 }
@@ -103,6 +353,180 @@ export function useDeleteArticle() {
   });
 }
 
+// Update the structured metadata of an article
+export function useUpdateArticleMetadata() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ articleId, updates }: { articleId: string; updates: ArticleMetadataUpdate }) => {
+      const response = await fetch(`/api/articles/${articleId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update article");
+      }
+
+      return result as Article & { settings: ArticleSettings };
+    },
+    onSuccess: (article) => {
+      toast.success("Metadata saved!");
+      queryClient.invalidateQueries({ queryKey: ["articles"] });
+      queryClient.invalidateQueries({ queryKey: ["article-revisions", article.id] });
+    },
+  });
+}
+
+// Regenerate one H2 section; the article comes back as its new revision
+export function useRegenerateSection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ articleId, input }: { articleId: string; input: RegenerateSectionInput }) => {
+      const response = await fetch(`/api/articles/${articleId}/sections`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to regenerate section"));
+      }
+
+      return response.json() as Promise<Article & { settings: ArticleSettings }>;
+    },
+    onSuccess: (article) => {
+      toast.success("Section regenerated!");
+      queryClient.invalidateQueries({ queryKey: ["articles"] });
+      queryClient.invalidateQueries({ queryKey: ["article-revisions", article.id] });
+      queryClient.invalidateQueries({ queryKey: ["usage"] });
+    },
+  });
+}
+
+export function useArticleRevisions(articleId: string | null) {
+  return useQuery({
+    queryKey: ["article-revisions", articleId],
+    queryFn: async () => {
+      const response = await fetch(`/api/articles/${articleId}/revisions`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch revisions");
+      }
+
+      return response.json() as Promise<ArticleRevisionSummary[]>;
+    },
+    enabled: !!articleId,
+  });
+}
+
+// Suggestions are only shown; nothing changes until one is accepted
+export function useSuggestInlineEdit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ articleId, input }: { articleId: string; input: InlineEditInput }) => {
+      const response = await fetch(`/api/articles/${articleId}/edits`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to rewrite the selected text"));
+      }
+
+      return response.json() as Promise<InlineEditSuggestion>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["usage"] });
+    },
+  });
+}
+
+export function useAcceptInlineEdit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ articleId, input }: { articleId: string; input: AcceptInlineEditInput }) => {
+      const response = await fetch(`/api/articles/${articleId}/edits`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to apply the edit"));
+      }
+
+      return response.json() as Promise<Article & { settings: ArticleSettings }>;
+    },
+    onSuccess: (article) => {
+      toast.success("Edit applied!");
+      queryClient.invalidateQueries({ queryKey: ["articles"] });
+      queryClient.invalidateQueries({ queryKey: ["article-revisions", article.id] });
+    },
+  });
+}
+
+// The article and its language versions, oldest first
+export function useArticleTranslations(articleId: string | null) {
+  return useQuery({
+    queryKey: ["article-translations", articleId],
+    queryFn: async () => {
+      const response = await fetch(`/api/articles/${articleId}/translations`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch translations");
+      }
+
+      return response.json() as Promise<(Article & { settings: ArticleSettings })[]>;
+    },
+    enabled: !!articleId,
+  });
+}
+
+export function useTranslateArticle() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ articleId, input }: { articleId: string; input: TranslateArticleInput }) => {
+      const response = await fetch(`/api/articles/${articleId}/translations`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to translate article"));
+      }
+
+      return response.json() as Promise<Article & { settings: ArticleSettings }>;
+    },
+    onSuccess: () => {
+      toast.success("Translation saved!");
+      queryClient.invalidateQueries({ queryKey: ["articles"] });
+      queryClient.invalidateQueries({ queryKey: ["article-translations"] });
+      queryClient.invalidateQueries({ queryKey: ["usage"] });
+      queryClient.invalidateQueries({ queryKey: ["quota"] });
+    },
+  });
+}
+
 // Get single article query
 export function useArticle(articleId: string) {
   return useQuery({
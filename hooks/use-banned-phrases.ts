@@ -0,0 +1,71 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BannedPhrase } from "@/db/schema/banned-phrases";
+import { toast } from "sonner";
+
+// The user's own phrases that are scrubbed from generated articles
+export function useBannedPhrases() {
+  return useQuery({
+    queryKey: ["banned-phrases"],
+    queryFn: async () => {
+      const response = await fetch("/api/banned-phrases");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch banned phrases");
+      }
+
+      return response.json() as Promise<BannedPhrase[]>;
+    },
+  });
+}
+
+export function useAddBannedPhrase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (phrase: string) => {
+      const response = await fetch("/api/banned-phrases", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ phrase }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to add banned phrase");
+      }
+
+      return response.json() as Promise<BannedPhrase>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["banned-phrases"] });
+    },
+  });
+}
+
+export function useDeleteBannedPhrase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/banned-phrases/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete banned phrase");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["banned-phrases"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete banned phrase");
+    },
+  });
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BrandVoice } from "@/db/schema/brand-voices";
+import type { BrandVoiceInput } from "@/lib/brand-voices";
+import { readResponseError } from "@/lib/utils";
+import { toast } from "sonner";
+
+// The user's brand voice profiles, selectable in the generator
+export function useBrandVoices() {
+  return useQuery({
+    queryKey: ["brand-voices"],
+    queryFn: async () => {
+      const response = await fetch("/api/brand-voices");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch brand voices");
+      }
+
+      return response.json() as Promise<BrandVoice[]>;
+    },
+  });
+}
+
+export function useSaveBrandVoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, input }: { id: string | null; input: BrandVoiceInput }) => {
+      const response = await fetch(id ? `/api/brand-voices/${id}` : "/api/brand-voices", {
+        method: id ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to save brand voice"));
+      }
+
+      return response.json() as Promise<BrandVoice>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["brand-voices"] });
+      toast.success("Brand voice saved");
+    },
+  });
+}
+
+export function useDeleteBrandVoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/brand-voices/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete brand voice");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["brand-voices"] });
+    },
+  });
+}
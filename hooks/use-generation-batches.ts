@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { GenerationBatch } from "@/db/schema/generation-jobs";
+import type {
+  BulkImportInput,
+  BulkImportReport,
+  GenerationBatchAction,
+  GenerationBatchRow,
+  GenerationBatchSummary,
+} from "@/lib/generation-batches";
+import { readResponseError } from "@/lib/utils";
+import { toast } from "sonner";
+
+const ACTIVE_POLL_INTERVAL = 3000;
+
+function isInProgress(batch: GenerationBatchSummary) {
+  return batch.progress.running > 0 || (batch.status === "active" && batch.progress.queued > 0);
+}
+
+// Row-level report of a CSV, before anything is queued
+export function useValidateBulkImport() {
+  return useMutation({
+    mutationFn: async (input: BulkImportInput) => {
+      const response = await fetch("/api/batches/validate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to check the CSV"));
+      }
+
+      return response.json() as Promise<BulkImportReport>;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to check the CSV");
+    },
+  });
+}
+
+export function useCreateGenerationBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: BulkImportInput) => {
+      const response = await fetch("/api/batches", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to start the batch"));
+      }
+
+      return response.json() as Promise<GenerationBatch>;
+    },
+    onSuccess: (batch) => {
+      toast.success(`${batch.totalRows} ${batch.totalRows === 1 ? "article" : "articles"} queued`);
+      queryClient.invalidateQueries({ queryKey: ["generation-batches"] });
+      queryClient.invalidateQueries({ queryKey: ["quota"] });
+    },
+  });
+}
+
+// The user's batches; polls while any of them is still generating
+export function useGenerationBatches() {
+  const queryClient = useQueryClient();
+  const succeededRef = useRef<number | null>(null);
+
+  const query = useQuery({
+    queryKey: ["generation-batches"],
+    queryFn: async () => {
+      const response = await fetch("/api/batches");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch batches");
+      }
+
+      return response.json() as Promise<GenerationBatchSummary[]>;
+    },
+    refetchInterval: (query) => (query.state.data?.some(isInProgress) ? ACTIVE_POLL_INTERVAL : false),
+  });
+
+  // Finished rows are new articles; refresh the article list
+  useEffect(() => {
+    if (!query.data) return;
+
+    const succeeded = query.data.reduce((total, batch) => total + batch.progress.succeeded, 0);
+    if (succeededRef.current !== null && succeeded > succeededRef.current) {
+      queryClient.invalidateQueries({ queryKey: ["articles"] });
+    }
+    succeededRef.current = succeeded;
+  }, [query.data, queryClient]);
+
+  return query;
+}
+
+export function useGenerationBatch(id: string | null) {
+  return useQuery({
+    queryKey: ["generation-batches", id],
+    queryFn: async () => {
+      const response = await fetch(`/api/batches/${id}`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch batch");
+      }
+
+      return response.json() as Promise<GenerationBatchSummary & { rows: GenerationBatchRow[] }>;
+    },
+    enabled: !!id,
+    refetchInterval: (query) => (query.state.data && isInProgress(query.state.data) ? ACTIVE_POLL_INTERVAL : false),
+  });
+}
+
+export function useUpdateGenerationBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: GenerationBatchAction }) => {
+      const response = await fetch(`/api/batches/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to update the batch"));
+      }
+
+      return response.json() as Promise<GenerationBatch>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["generation-batches"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update the batch");
+    },
+  });
+}
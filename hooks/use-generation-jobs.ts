@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { GenerationJob } from "@/db/schema/generation-jobs";
+import { GenerationRequestError, type ArticleFormData } from "@/hooks/use-articles";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
+import { toast } from "sonner";
+
+const ACTIVE_POLL_INTERVAL = 3000;
+
+// Queue an article for background generation
+export function useEnqueueGeneration() {
+  const queryClient = useQueryClient();
+  const idempotency = useIdempotencyKey();
+
+  return useMutation({
+    mutationFn: async (data: ArticleFormData) => {
+      const response = await fetch("/api/jobs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotency.keyFor(data),
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new GenerationRequestError(error.error || "Failed to queue article generation", error.code ?? null);
+      }
+
+      return response.json() as Promise<GenerationJob>;
+    },
+    onSuccess: () => {
+      idempotency.release();
+      toast.success("Article queued. You can follow its progress in History.");
+      queryClient.invalidateQueries({ queryKey: ["generation-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["quota"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to queue article generation");
+    },
+  });
+}
+
+// In-flight and recently failed jobs; polls while anything is still running
+export function useGenerationJobs() {
+  const queryClient = useQueryClient();
+  const activeIdsRef = useRef<Set<string>>(new Set());
+
+  const query = useQuery({
+    queryKey: ["generation-jobs"],
+    queryFn: async () => {
+      const response = await fetch("/api/jobs");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch generation jobs");
+      }
+
+      return response.json() as Promise<GenerationJob[]>;
+    },
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => job.status === "queued" || job.status === "running")
+        ? ACTIVE_POLL_INTERVAL
+        : false,
+  });
+
+  // A job that left the active set has finished; refresh the article list
+  useEffect(() => {
+    if (!query.data) return;
+
+    const activeIds = new Set(
+      query.data
+        .filter((job) => job.status === "queued" || job.status === "running")
+        .map((job) => job.id)
+    );
+    const finished = [...activeIdsRef.current].some((id) => !activeIds.has(id));
+    activeIdsRef.current = activeIds;
+
+    if (finished) {
+      queryClient.invalidateQueries({ queryKey: ["articles"] });
+    }
+  }, [query.data, queryClient]);
+
+  return query;
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useCallback, useRef } from "react";
+
+// One idempotency key per submission: double submits and retries of the same data reuse it,
+// so the server returns the first response instead of generating again. Changing the data or
+// calling release() after a success starts a new submission.
+export function useIdempotencyKey() {
+  const submissionRef = useRef<{ payload: string; key: string } | null>(null);
+
+  const keyFor = useCallback((data: unknown) => {
+    const payload = JSON.stringify(data);
+    if (submissionRef.current?.payload !== payload) {
+      submissionRef.current = { payload, key: crypto.randomUUID() };
+    }
+    return submissionRef.current.key;
+  }, []);
+
+  const release = useCallback(() => {
+    submissionRef.current = null;
+  }, []);
+
+  return { keyFor, release };
+}
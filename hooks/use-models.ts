@@ -0,0 +1,21 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { ModelOption } from "@/lib/generation-params";
+
+// The models the server allows per generation, for the generator's "Advanced" section
+export function useAllowedModels() {
+  return useQuery({
+    queryKey: ["models"],
+    queryFn: async () => {
+      const response = await fetch("/api/models");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch models");
+      }
+
+      return response.json() as Promise<{ models: ModelOption[]; defaultModel: string }>;
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { PromptTemplate } from "@/db/schema/prompt-templates";
+import type { PromptTemplateInput } from "@/lib/prompt-templates";
+import { readResponseError } from "@/lib/utils";
+import { toast } from "sonner";
+
+// The user's own templates for the article prompt
+export function usePromptTemplates() {
+  return useQuery({
+    queryKey: ["prompt-templates"],
+    queryFn: async () => {
+      const response = await fetch("/api/prompt-templates");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch prompt templates");
+      }
+
+      return response.json() as Promise<PromptTemplate[]>;
+    },
+  });
+}
+
+export function useSavePromptTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, input }: { id: string | null; input: PromptTemplateInput }) => {
+      const response = await fetch(id ? `/api/prompt-templates/${id}` : "/api/prompt-templates", {
+        method: id ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readResponseError(response, "Failed to save prompt template"));
+      }
+
+      return response.json() as Promise<PromptTemplate>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["prompt-templates"] });
+      toast.success("Prompt template saved");
+    },
+  });
+}
+
+export function useDeletePromptTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/prompt-templates/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete prompt template");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["prompt-templates"] });
+    },
+  });
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { UsageSummary, UsageTotals } from "@/lib/llm-usage";
+import type { QuotaStatus } from "@/lib/generation-quota";
+
+export type ArticleUsage = UsageTotals & {
+  articleId: string;
+  models: string[];
+};
+
+// Daily and monthly LLM usage of the signed-in user
+export function useUsageSummary() {
+  return useQuery({
+    queryKey: ["usage"],
+    queryFn: async () => {
+      const response = await fetch("/api/usage");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch usage");
+      }
+
+      return response.json() as Promise<UsageSummary>;
+    },
+  });
+}
+
+export function useArticleUsage(articleId: string | null) {
+  return useQuery({
+    queryKey: ["usage", "article", articleId],
+    queryFn: async () => {
+      const response = await fetch(`/api/articles/${articleId}/usage`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch article usage");
+      }
+
+      return response.json() as Promise<ArticleUsage>;
+    },
+    enabled: !!articleId,
+  });
+}
+
+// Plan limits and what is left of them; refreshed after every generation
+export function useQuota() {
+  return useQuery({
+    queryKey: ["quota"],
+    queryFn: async () => {
+      const response = await fetch("/api/quota");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch quota");
+      }
+
+      return response.json() as Promise<QuotaStatus>;
+    },
+  });
+}
@@ -0,0 +1,14 @@
+// Admins manage settings shared by every user. They are listed by email in ADMIN_EMAILS,
+// separated by commas.
+function getAdminEmails(): Set<string> {
+  return new Set(
+    (process.env.ADMIN_EMAILS ?? "")
+      .split(",")
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+export function isAdmin(user: { email?: string | null }): boolean {
+  return !!user.email && getAdminEmails().has(user.email.toLowerCase());
+}
@@ -0,0 +1,413 @@
+import { type AIPhraseMatch, type AIPhraseReport } from "@/db/schema/articles";
+import { getLanguageName } from "@/lib/article-options";
+import { PROMPT_TEMPLATES } from "@/lib/prompt-builder";
+import { type StructuredArticle } from "@/lib/structured-article";
+import { phrasePattern } from "@/lib/text-analysis";
+import type { LLMProvider } from "@/lib/llm";
+
+// A phrase that reads as machine-written. `connector` phrases open a sentence and can simply be
+// dropped; phrases with a `replacement` are swapped for it; the rest are only flagged.
+type PhraseRule = {
+  phrase: string;
+  replacement?: string;
+  connector?: boolean;
+};
+
+type PhraseList = {
+  basic: PhraseRule[];
+  extended: PhraseRule[];
+};
+
+const connectors = (phrases: string[]): PhraseRule[] => phrases.map((phrase) => ({ phrase, connector: true }));
+
+// Curated per-language lists. Basic covers the stock transitions the prompt already warns about;
+// Extended adds the wider vocabulary that makes text sound generated.
+const PHRASE_LISTS: { [language: string]: PhraseList } = {
+  en: {
+    basic: [
+      ...connectors(["furthermore", "moreover", "additionally", "in addition", "in conclusion", "in summary", "ultimately", "consequently"]),
+      { phrase: "it is important to note that", replacement: "" },
+      { phrase: "it's important to note that", replacement: "" },
+      { phrase: "it is worth noting that", replacement: "" },
+    ],
+    extended: [
+      { phrase: "delve into", replacement: "explore" },
+      { phrase: "delves into", replacement: "explores" },
+      { phrase: "in order to", replacement: "to" },
+      { phrase: "due to the fact that", replacement: "because" },
+      { phrase: "a plethora of", replacement: "many" },
+      { phrase: "utilize", replacement: "use" },
+      { phrase: "leverage", replacement: "use" },
+      { phrase: "in today's fast-paced world" },
+      { phrase: "in today's digital age" },
+      { phrase: "in the realm of" },
+      { phrase: "navigate the complexities" },
+      { phrase: "a testament to" },
+      { phrase: "tapestry" },
+      { phrase: "game-changer" },
+      { phrase: "unlock the potential" },
+      { phrase: "harness the power" },
+      { phrase: "embark on a journey" },
+      { phrase: "ever-evolving" },
+      { phrase: "seamlessly" },
+      { phrase: "elevate your" },
+      { phrase: "look no further" },
+      { phrase: "when it comes to" },
+    ],
+  },
+  es: {
+    basic: [
+      ...connectors(["además", "asimismo", "por otro lado", "en conclusión", "en resumen", "por lo tanto"]),
+      { phrase: "es importante destacar que", replacement: "" },
+      { phrase: "cabe destacar que", replacement: "" },
+    ],
+    extended: [
+      { phrase: "sumergirse en" },
+      { phrase: "en el mundo actual" },
+      { phrase: "en la era digital" },
+      { phrase: "desbloquear el potencial" },
+      { phrase: "un testimonio de" },
+      { phrase: "con el fin de", replacement: "para" },
+      { phrase: "debido al hecho de que", replacement: "porque" },
+    ],
+  },
+  fr: {
+    basic: [
+      ...connectors(["de plus", "en outre", "par ailleurs", "en conclusion", "en résumé", "par conséquent"]),
+      { phrase: "il est important de noter que", replacement: "" },
+      { phrase: "il convient de noter que", replacement: "" },
+    ],
+    extended: [
+      { phrase: "plonger dans" },
+      { phrase: "dans le monde d'aujourd'hui" },
+      { phrase: "à l'ère numérique" },
+      { phrase: "libérer le potentiel" },
+      { phrase: "un témoignage de" },
+      { phrase: "afin de", replacement: "pour" },
+      { phrase: "en raison du fait que", replacement: "parce que" },
+    ],
+  },
+  de: {
+    basic: [
+      ...connectors(["darüber hinaus", "außerdem", "zusätzlich", "zusammenfassend", "abschließend", "folglich"]),
+      { phrase: "es ist wichtig zu beachten, dass", replacement: "" },
+      { phrase: "es sei darauf hingewiesen, dass", replacement: "" },
+    ],
+    extended: [
+      { phrase: "eintauchen in" },
+      { phrase: "in der heutigen schnelllebigen welt" },
+      { phrase: "im digitalen zeitalter" },
+      { phrase: "das potenzial freisetzen" },
+      { phrase: "ein zeugnis für" },
+      { phrase: "um zu gewährleisten" },
+      { phrase: "aufgrund der tatsache, dass", replacement: "weil" },
+    ],
+  },
+  it: {
+    basic: [
+      ...connectors(["inoltre", "in aggiunta", "in conclusione", "in sintesi", "di conseguenza"]),
+      { phrase: "è importante notare che", replacement: "" },
+      { phrase: "vale la pena notare che", replacement: "" },
+    ],
+    extended: [
+      { phrase: "immergersi in" },
+      { phrase: "nel mondo di oggi" },
+      { phrase: "nell'era digitale" },
+      { phrase: "sbloccare il potenziale" },
+      { phrase: "al fine di", replacement: "per" },
+    ],
+  },
+  pt: {
+    basic: [
+      ...connectors(["além disso", "ademais", "em conclusão", "em resumo", "portanto"]),
+      { phrase: "é importante notar que", replacement: "" },
+      { phrase: "vale ressaltar que", replacement: "" },
+    ],
+    extended: [
+      { phrase: "mergulhar em" },
+      { phrase: "no mundo atual" },
+      { phrase: "na era digital" },
+      { phrase: "desbloquear o potencial" },
+      { phrase: "a fim de", replacement: "para" },
+    ],
+  },
+  nl: {
+    basic: [
+      ...connectors(["bovendien", "daarnaast", "verder", "concluderend", "samenvattend", "kortom"]),
+      { phrase: "het is belangrijk om op te merken dat", replacement: "" },
+    ],
+    extended: [
+      { phrase: "duiken in" },
+      { phrase: "in de huidige snelle wereld" },
+      { phrase: "in het digitale tijdperk" },
+      { phrase: "het potentieel ontgrendelen" },
+      { phrase: "om ervoor te zorgen dat" },
+    ],
+  },
+};
+
+// Languages with a built-in list; articles in any other language are only checked for the
+// user's banned phrases
+export const PHRASE_LIST_LANGUAGES = Object.keys(PHRASE_LISTS);
+
+const FLAGGED_SENTENCE_LIMIT = 30;
+
+// Regional codes such as "pt-BR" use the list of their base language
+function findPhraseList(language: string): PhraseList | undefined {
+  return PHRASE_LISTS[language] ?? PHRASE_LISTS[language.split("-")[0]];
+}
+
+export function hasPhraseList(language: string): boolean {
+  return findPhraseList(language) !== undefined;
+}
+
+// Rules for a cleaning level; custom phrases are always only flagged
+export function getPhraseRules(aiCleaning: string, language: string, customPhrases: string[] = []) {
+  if (aiCleaning === "No AI Words Removal") return [];
+
+  const list = findPhraseList(language);
+  const rules: (PhraseRule & { source: AIPhraseMatch["source"] })[] = [];
+  if (list) {
+    rules.push(...list.basic.map((rule) => ({ ...rule, source: "list" as const })));
+    if (aiCleaning === "Extended AI Words Removal") {
+      rules.push(...list.extended.map((rule) => ({ ...rule, source: "list" as const })));
+    }
+  }
+  rules.push(...customPhrases.map((phrase) => ({ phrase, source: "custom" as const })));
+
+  return rules;
+}
+
+function matchCase(source: string, replacement: string): string {
+  if (!replacement) return replacement;
+  return source[0] === source[0].toUpperCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+function detectInText(
+  text: string,
+  field: AIPhraseMatch["field"],
+  rules: ReturnType<typeof getPhraseRules>
+): AIPhraseMatch[] {
+  const matches: AIPhraseMatch[] = [];
+  let section: string | null = null;
+
+  text.split("\n").forEach((line, index) => {
+    const heading = line.match(/^##\s+(.+)$/);
+    if (heading && field === "body") {
+      section = heading[1].trim();
+    }
+
+    for (const rule of rules) {
+      for (const match of line.matchAll(phrasePattern(rule.phrase))) {
+        const start = Math.max(0, (match.index ?? 0) - 40);
+        matches.push({
+          phrase: rule.phrase,
+          source: rule.source,
+          field,
+          section,
+          line: index + 1,
+          excerpt: `${start > 0 ? "..." : ""}${line.slice(start, (match.index ?? 0) + match[0].length + 40).trim()}`,
+        });
+      }
+    }
+  });
+
+  return matches;
+}
+
+export function detectAIPhrases(article: StructuredArticle, rules: ReturnType<typeof getPhraseRules>): AIPhraseMatch[] {
+  return [
+    ...detectInText(article.body, "body", rules),
+    ...detectInText(article.faq.map((item) => item.answer).join("\n"), "faq", rules),
+    ...detectInText(article.metaDescription, "metaDescription", rules),
+  ];
+}
+
+// Deterministic pass: drops sentence-opening connectors and swaps phrases that have a plain replacement
+function scrubText(text: string, rules: ReturnType<typeof getPhraseRules>): { text: string; replaced: number } {
+  let replaced = 0;
+  let result = text;
+
+  for (const rule of rules) {
+    const phrase = phrasePattern(rule.phrase).source;
+
+    if (rule.connector) {
+      // Only at the start of a sentence, list item or line, together with its comma
+      const pattern = new RegExp(`(^|[.!?]\\s+|^\\s*[-*]\\s+)${phrase},?\\s+(\\p{L})`, "gimu");
+      result = result.replace(pattern, (_match, lead: string, letter: string) => {
+        replaced++;
+        return `${lead}${letter.toUpperCase()}`;
+      });
+      continue;
+    }
+
+    if (rule.replacement === "") {
+      // Dropping a filler opener hands its capital letter on to the next word
+      const pattern = new RegExp(`${phrase}\\s+(\\p{L})`, "giu");
+      result = result.replace(pattern, (match, letter: string) => {
+        replaced++;
+        return matchCase(match, letter);
+      });
+      continue;
+    }
+
+    if (rule.replacement !== undefined) {
+      const replacement = rule.replacement;
+      result = result.replace(phrasePattern(rule.phrase), (match) => {
+        replaced++;
+        return matchCase(match, replacement);
+      });
+    }
+  }
+
+  return { text: result, replaced };
+}
+
+export function scrubArticle(
+  article: StructuredArticle,
+  rules: ReturnType<typeof getPhraseRules>
+): { article: StructuredArticle; replaced: number } {
+  const body = scrubText(article.body, rules);
+  const metaDescription = scrubText(article.metaDescription, rules);
+  const answers = article.faq.map((item) => scrubText(item.answer, rules));
+
+  return {
+    article: {
+      ...article,
+      body: body.text,
+      metaDescription: metaDescription.text,
+      faq: article.faq.map((item, index) => ({ ...item, answer: answers[index].text })),
+    },
+    replaced: answers.reduce((total, answer) => total + answer.replaced, body.replaced + metaDescription.replaced),
+  };
+}
+
+// Sentences in the text that still contain a flagged phrase
+function findFlaggedSentences(text: string, rules: ReturnType<typeof getPhraseRules>): string[] {
+  const sentences = text
+    .split("\n")
+    .filter((line) => line.trim() && !line.startsWith("#") && !line.startsWith("|"))
+    .flatMap((line) => line.split(/(?<=[.!?。！？])\s+/));
+
+  return sentences.filter((sentence) => rules.some((rule) => phrasePattern(rule.phrase, "iu").test(sentence)));
+}
+
+export const REWRITE_SYSTEM_PROMPT =
+  "You are an expert editor who rewrites sentences so they read as natural human writing. Always respond with valid JSON only.";
+
+export function buildRewritePrompt(sentences: string[], phrases: string[], language: string): string {
+  const targetLanguage = getLanguageName(language);
+
+  return `Rewrite each sentence below in ${targetLanguage} so it keeps its meaning and markdown formatting but no longer uses any of these phrases: ${phrases.join(", ")}.
+Do not introduce other clichés or filler.
+
+FLAGGED SENTENCES:
+${sentences.map((sentence, index) => `${index + 1}. ${sentence}`).join("\n")}
+
+REWRITE FORMAT:
+Respond with a single JSON object shaped like {"sentences": ["rewritten sentence 1", "rewritten sentence 2"]}, in the same order and with exactly ${sentences.length} entries.`;
+}
+
+// Optional model pass over the sentences the deterministic scrub could not fix
+async function rewriteFlaggedSentences(
+  article: StructuredArticle,
+  rules: ReturnType<typeof getPhraseRules>,
+  language: string,
+  provider: LLMProvider,
+  signal?: AbortSignal
+): Promise<{ article: StructuredArticle; rewritten: number }> {
+  const sentences = [
+    ...new Set([
+      ...findFlaggedSentences(article.body, rules),
+      ...article.faq.flatMap((item) => findFlaggedSentences(item.answer, rules)),
+    ]),
+  ].slice(0, FLAGGED_SENTENCE_LIMIT);
+  if (sentences.length === 0) return { article, rewritten: 0 };
+
+  const result = await provider.generate({
+    messages: [
+      { role: "system", content: REWRITE_SYSTEM_PROMPT },
+      { role: "user", content: buildRewritePrompt(sentences, [...new Set(rules.map((rule) => rule.phrase))], language) },
+    ],
+    temperature: 0.5,
+    maxTokens: 3000,
+    promptTemplate: PROMPT_TEMPLATES.rewrite,
+    signal,
+  });
+
+  let rewrites: unknown;
+  try {
+    const start = result.content.indexOf("{");
+    rewrites = JSON.parse(result.content.slice(start, result.content.lastIndexOf("}") + 1)).sentences;
+  } catch {
+    console.error("Could not parse rewritten sentences");
+    return { article, rewritten: 0 };
+  }
+  if (!Array.isArray(rewrites) || rewrites.length !== sentences.length) {
+    return { article, rewritten: 0 };
+  }
+
+  let rewritten = 0;
+  const replaceSentences = (text: string) =>
+    sentences.reduce((current, sentence, index) => {
+      const replacement = rewrites[index];
+      if (typeof replacement !== "string" || !replacement.trim() || !current.includes(sentence)) return current;
+      rewritten++;
+      return current.split(sentence).join(replacement.trim());
+    }, text);
+
+  return {
+    article: {
+      ...article,
+      body: replaceSentences(article.body),
+      faq: article.faq.map((item) => ({ ...item, answer: replaceSentences(item.answer) })),
+    },
+    rewritten,
+  };
+}
+
+// Detects, scrubs and optionally rewrites AI-sounding phrases according to the aiCleaning level
+export async function cleanAIPhrases(
+  article: StructuredArticle,
+  options: {
+    aiCleaning: string;
+    language: string;
+    customPhrases?: string[];
+    rewrite?: boolean;
+    provider?: LLMProvider;
+    signal?: AbortSignal;
+  }
+): Promise<{ article: StructuredArticle; report: AIPhraseReport | null }> {
+  if (options.aiCleaning === "No AI Words Removal") return { article, report: null };
+  const rules = getPhraseRules(options.aiCleaning, options.language, options.customPhrases);
+
+  const found = detectAIPhrases(article, rules);
+  const scrubbed = scrubArticle(article, rules);
+  let cleaned = scrubbed.article;
+  let rewritten = 0;
+
+  if (options.rewrite && options.provider) {
+    try {
+      const result = await rewriteFlaggedSentences(cleaned, rules, options.language, options.provider, options.signal);
+      cleaned = result.article;
+      rewritten = result.rewritten;
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error("AI phrase rewrite failed:", error);
+    }
+  }
+
+  return {
+    article: cleaned,
+    report: {
+      tier: options.aiCleaning,
+      found,
+      replaced: scrubbed.replaced,
+      rewritten,
+      remaining: detectAIPhrases(cleaned, rules),
+      builtInList: hasPhraseList(options.language),
+    },
+  };
+}
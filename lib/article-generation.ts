@@ -0,0 +1,420 @@
+import { z } from "zod";
+import { db } from "@/db";
+import {
+  articles,
+  type AIPhraseReport,
+  type Article,
+  type ArticleModelSettings,
+  type ArticleSettings,
+  type ComplianceReport,
+  type PromptRecord,
+  type ReadabilityReport,
+} from "@/db/schema/articles";
+import {
+  ARTICLE_SYSTEM_PROMPT,
+  buildArticlePrompt,
+  PROMPT_TEMPLATES,
+  type BrandVoicePrompt,
+  type PromptData,
+} from "@/lib/prompt-builder";
+import { renderPromptTemplate } from "@/lib/prompt-template-renderer";
+import { loadArticlePromptTemplate, type ArticlePromptTemplate } from "@/lib/prompt-templates";
+import { BrandVoiceError, loadArticleBrandVoice } from "@/lib/brand-voices";
+import { getBannedPhraseList } from "@/lib/banned-phrases";
+import { loadArticleOptions } from "@/lib/option-registry";
+import type { SelectedOptions } from "@/lib/article-options";
+import { DEFAULT_SAMPLING, generationParamsSchema, getSamplingParams } from "@/lib/generation-params";
+import { generateId } from "@/lib/utils";
+import { generateOutline, outlineSchema } from "@/lib/outline";
+import { streamArticleInSections } from "@/lib/chunked-generation";
+import {
+  ARTICLE_JSON_SCHEMA,
+  createBodyPreviewReader,
+  renderArticleMarkdown,
+  toStructuredArticle,
+  type StructuredArticle,
+} from "@/lib/structured-article";
+import { validateArticle } from "@/lib/compliance";
+import { repairArticle } from "@/lib/article-repair";
+import { cleanAIPhrases } from "@/lib/ai-phrases";
+import { analyzeReadability } from "@/lib/readability";
+import {
+  findAllowedModel,
+  getConfiguredModel,
+  getLLMProvider,
+  type LLMGenerateParams,
+  type LLMProvider,
+  type LLMResult,
+  type LLMStreamEvent,
+  type LLMUsage,
+} from "@/lib/llm";
+
+// Validation schema shared by the generation endpoints
+export const generateRequestSchema = z
+  .object({
+    title: z.string().min(1).max(200),
+    keywords: z.string().min(1).max(500),
+    // Article type, tone, point of view, readability and language are checked against the option registry
+    articleType: z.string().min(1).max(100),
+    articleSize: z.enum(["X-Small", "Small", "Medium", "Large"]),
+    tone: z.string().min(1).max(100),
+    pointOfView: z.string().min(1).max(100),
+    readability: z.string().min(1).max(100),
+    aiCleaning: z.enum(["No AI Words Removal", "Basic AI Words Removal", "Extended AI Words Removal"]),
+    structure: z.object({
+      conclusion: z.boolean(),
+      faqSection: z.boolean(),
+      tables: z.boolean(),
+      h3Headings: z.boolean(),
+      lists: z.boolean(),
+      italics: z.boolean(),
+      bold: z.boolean(),
+      quotes: z.boolean(),
+      keyTakeaways: z.boolean(),
+    }),
+    language: z.string().min(1).max(100),
+    // Approved outline from the outline-first flow
+    outline: outlineSchema.optional(),
+    // Run targeted repair calls when the article misses one of its requirements
+    autoRepair: z.boolean().default(true),
+    // Let the model rewrite sentences whose AI-sounding phrases could not be scrubbed
+    rewriteFlaggedSentences: z.boolean().default(false),
+    // The user's own prompt template instead of the built-in article prompt
+    promptTemplateId: z.string().min(1).nullish(),
+    // Brand voice profile folded into the prompts and checked for forbidden terms
+    brandVoiceId: z.string().min(1).nullish(),
+    // Model and sampling from the "Advanced" form section; the model must be on the server allowlist
+    generation: generationParamsSchema
+      .superRefine((params, ctx) => {
+        if (!findAllowedModel(params.model)) {
+          ctx.addIssue({ code: "custom", path: ["model"], message: `Model "${params.model}" is not allowed` });
+        }
+      })
+      .nullish(),
+  })
+  // Large articles are written with the built-in section prompts, so a template would have no effect
+  .refine((data) => !(data.promptTemplateId && usesSectionedGeneration(data)), {
+    message: "Prompt templates cannot be used for Large articles",
+    path: ["promptTemplateId"],
+  });
+
+export type GenerateRequest = z.infer<typeof generateRequestSchema>;
+
+// A request with its registry options, prompt template, brand voice and the token limit of its
+// model loaded, see resolveArticleRequest
+export type ArticleRequest = GenerateRequest & {
+  options?: SelectedOptions;
+  tokenLimit?: number | null;
+  promptTemplate?: ArticlePromptTemplate | null;
+  brandVoice?: BrandVoicePrompt | null;
+};
+
+// Loads what the request refers to. Throws a ZodError for options that are not in the registry,
+// and PromptTemplateError or BrandVoiceError when the template or voice is gone.
+export async function resolveArticleRequest(userId: string, data: GenerateRequest): Promise<ArticleRequest> {
+  const [options, promptTemplate, brandVoice] = await Promise.all([
+    loadArticleOptions(data),
+    data.promptTemplateId ? loadArticlePromptTemplate(userId, data.promptTemplateId) : null,
+    data.brandVoiceId ? loadArticleBrandVoice(userId, data.brandVoiceId) : null,
+  ]);
+  const tokenLimit = findAllowedModel(data.generation?.model)?.maxTokens ?? null;
+  return { ...data, options, promptTemplate, brandVoice, tokenLimit };
+}
+
+// Prompt context of a saved article, for edits made after it was generated
+export type SavedArticleContext = PromptData & {
+  generation: ArticleModelSettings | null;
+  // The article's own model while it is still allowed; null for the configured one
+  model: string | null;
+  tokenLimit: number | null;
+  // The owner's banned phrases, scrubbed from edited text as from new articles
+  bannedPhrases: string[];
+};
+
+// Options removed from the registry since the article was written fall back to their labels, and
+// a brand voice deleted since is left out
+export async function resolveSavedArticle(article: Article & { settings: ArticleSettings }): Promise<SavedArticleContext> {
+  const { settings } = article;
+  let options: SelectedOptions | undefined;
+  try {
+    options = await loadArticleOptions(settings);
+  } catch (error) {
+    if (!(error instanceof z.ZodError)) throw error;
+  }
+  const [brandVoice, bannedPhrases] = await Promise.all([
+    settings.brandVoiceId
+      ? loadArticleBrandVoice(article.userId, settings.brandVoiceId).catch((error) => {
+          if (error instanceof BrandVoiceError) return null;
+          throw error;
+        })
+      : null,
+    getBannedPhraseList(article.userId),
+  ]);
+  const model = findAllowedModel(settings.modelSettings?.model);
+
+  return {
+    ...settings,
+    title: article.title,
+    keywords: article.keywords,
+    outline: article.outline,
+    options,
+    brandVoice,
+    bannedPhrases,
+    generation: settings.modelSettings ?? null,
+    model: model?.id ?? null,
+    tokenLimit: model?.maxTokens ?? null,
+  };
+}
+
+// Single-shot articles come back as one JSON object, which cannot be continued once cut off, so
+// each limit leaves room for the top of the size's word range plus the JSON around it
+export function getMaxTokens(articleSize: string): number {
+  const tokenLimits: { [key: string]: number } = {
+    'X-Small': 3000,
+    'Small': 6000,
+    'Medium': 8000,
+    'Large': 8000,
+  };
+  return tokenLimits[articleSize] || 4000;
+}
+
+// Picks the persisted settings out of a validated request
+export function toArticleSettings(data: GenerateRequest): ArticleSettings {
+  const { temperature, topP, frequencyPenalty, presencePenalty } = data.generation ?? DEFAULT_SAMPLING;
+
+  return {
+    articleType: data.articleType,
+    articleSize: data.articleSize,
+    tone: data.tone,
+    pointOfView: data.pointOfView,
+    readability: data.readability,
+    aiCleaning: data.aiCleaning,
+    structure: data.structure,
+    language: data.language,
+    modelSettings: {
+      model: data.generation?.model || getConfiguredModel(),
+      temperature,
+      topP,
+      frequencyPenalty,
+      presencePenalty,
+    },
+    promptTemplateId: data.promptTemplateId ?? null,
+    brandVoiceId: data.brandVoiceId ?? null,
+  };
+}
+
+export function buildGenerationParams(data: ArticleRequest): LLMGenerateParams {
+  const prompts = data.promptTemplate
+    ? renderPromptTemplate(data.promptTemplate, data)
+    : { systemPrompt: ARTICLE_SYSTEM_PROMPT, userPrompt: buildArticlePrompt(data) };
+
+  return {
+    messages: [
+      { role: "system", content: prompts.systemPrompt },
+      { role: "user", content: prompts.userPrompt },
+    ],
+    ...getSamplingParams(data, getMaxTokens(data.articleSize)),
+    responseFormat: ARTICLE_JSON_SCHEMA,
+    promptTemplate: data.promptTemplate?.tag ?? PROMPT_TEMPLATES.article,
+  };
+}
+
+// Large articles exceed what a single completion reliably produces, so they are written section by section
+export function usesSectionedGeneration(data: GenerateRequest): boolean {
+  return data.articleSize === "Large";
+}
+
+// Sectioned generation needs an outline; plan one when the user did not approve their own
+export async function planArticle<T extends GenerateRequest>(
+  data: T,
+  provider: LLMProvider = getLLMProvider(),
+  signal?: AbortSignal
+): Promise<T> {
+  if (!usesSectionedGeneration(data) || data.outline) return data;
+
+  const outline = await generateOutline(data, provider, signal);
+  if (!outline) {
+    throw new Error("Could not plan the article outline");
+  }
+  return { ...data, outline };
+}
+
+// Maps raw streamed output to readable markdown for the live preview
+export function createContentPreview(data: GenerateRequest): (chunk: string) => string {
+  // Section-by-section output is already markdown; single-shot output is JSON
+  return usesSectionedGeneration(data) && data.outline ? (chunk) => chunk : createBodyPreviewReader();
+}
+
+// Streams the article with the strategy its size calls for. Truncated sections are continued;
+// a truncated single-shot article ends with finishReason "length", because a model asked to
+// continue under structured output starts a new JSON object instead of finishing the cut-off one.
+// Sectioned articles are written with the built-in section prompts; requests for them carry no template.
+export function streamArticleContent(
+  data: ArticleRequest,
+  provider: LLMProvider,
+  signal?: AbortSignal
+): AsyncIterable<LLMStreamEvent> {
+  if (usesSectionedGeneration(data) && data.outline) {
+    return streamArticleInSections({ ...data, outline: data.outline }, provider, signal);
+  }
+  return provider.stream({ ...buildGenerationParams(data), signal });
+}
+
+// Non-streaming variant for callers that only need the finished article; expects a planned request
+export async function generateArticleContent(
+  data: ArticleRequest,
+  provider: LLMProvider = getLLMProvider(),
+  signal?: AbortSignal
+): Promise<LLMResult> {
+  let content = "";
+  let finishReason: string | null = null;
+  let usage: LLMUsage | null = null;
+
+  for await (const event of streamArticleContent(data, provider, signal)) {
+    if (event.type === "delta") {
+      content += event.content;
+    } else {
+      finishReason = event.finishReason;
+      usage = event.usage;
+    }
+  }
+
+  return { content, finishReason, usage, model: provider.model };
+}
+
+export interface FinalizedArticle {
+  structured: StructuredArticle;
+  compliance: ComplianceReport;
+  aiPhraseReport: AIPhraseReport | null;
+  readabilityReport: ReadabilityReport;
+}
+
+interface FinalizeOptions {
+  signal?: AbortSignal;
+  onRepair?: (description: string) => void;
+  // The user's own banned phrases, scrubbed on top of the built-in lists
+  bannedPhrases?: string[];
+}
+
+// Parses the raw model output, checks it against the requested settings and, when enabled,
+// repairs what is missing and removes AI-sounding phrases before it is saved
+export async function finalizeArticle(
+  data: ArticleRequest,
+  output: string,
+  provider: LLMProvider = getLLMProvider(),
+  { signal, onRepair, bannedPhrases = [] }: FinalizeOptions = {}
+): Promise<FinalizedArticle> {
+  let structured = toStructuredArticle(output, data.title);
+  let repairAttempts = 0;
+
+  if (data.autoRepair) {
+    const repaired = await repairArticle(structured, data, provider, { signal, onRepair });
+    structured = repaired.article;
+    repairAttempts = repaired.compliance.repairAttempts;
+  }
+
+  if (data.rewriteFlaggedSentences && data.aiCleaning !== "No AI Words Removal") {
+    onRepair?.("Rewriting sentences with AI-sounding phrases");
+  }
+  const cleaned = await cleanAIPhrases(structured, {
+    aiCleaning: data.aiCleaning,
+    language: data.language,
+    customPhrases: bannedPhrases,
+    rewrite: data.rewriteFlaggedSentences,
+    provider,
+    signal,
+  });
+
+  // Scrubbing changes the text, so the final check runs on the cleaned article
+  return {
+    structured: cleaned.article,
+    compliance: validateArticle(cleaned.article, data, repairAttempts),
+    aiPhraseReport: cleaned.report,
+    readabilityReport: analyzeReadability(cleaned.article, data),
+  };
+}
+
+// Scrubs AI-sounding and banned phrases from edited text and checks it again, like finalizeArticle
+// does for new articles. Sentences are not rewritten, so the edit makes no further model calls.
+export async function finalizeEditedArticle(
+  data: SavedArticleContext,
+  structured: StructuredArticle
+): Promise<FinalizedArticle> {
+  const cleaned = await cleanAIPhrases(structured, {
+    aiCleaning: data.aiCleaning,
+    language: data.language,
+    customPhrases: data.bannedPhrases,
+  });
+
+  return {
+    structured: cleaned.article,
+    compliance: validateArticle(cleaned.article, data),
+    aiPhraseReport: cleaned.report,
+    readabilityReport: analyzeReadability(cleaned.article, data),
+  };
+}
+
+// Accepts a transaction so callers can persist the article atomically with their own bookkeeping
+export async function saveGeneratedArticle(
+  userId: string,
+  data: GenerateRequest,
+  {
+    structured,
+    compliance,
+    aiPhraseReport,
+    readabilityReport,
+    promptRecord,
+  }: FinalizedArticle & { promptRecord: PromptRecord | null },
+  executor: Pick<typeof db, "insert"> = db
+) {
+  const [article] = await executor
+    .insert(articles)
+    .values({
+      id: generateId(),
+      userId,
+      title: data.title,
+      content: renderArticleMarkdown(structured),
+      keywords: data.keywords,
+      settings: toArticleSettings(data),
+      outline: data.outline ?? null,
+      ...structured,
+      compliance,
+      aiPhraseReport,
+      readabilityReport,
+      promptRecord,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .returning();
+
+  return article;
+}
+
+// Body of a draft saved from a cancelled generation: the request it was made for and the
+// markdown streamed before it was stopped
+export const draftArticleSchema = generateRequestSchema.safeExtend({
+  content: z.string().trim().min(1).max(200_000),
+});
+
+export type DraftArticleRequest = z.infer<typeof draftArticleSchema>;
+
+// Drafts skip the requirement checks and repairs; they are stored as they were streamed
+export async function saveDraftArticle(userId: string, { content, ...data }: DraftArticleRequest) {
+  const [article] = await db
+    .insert(articles)
+    .values({
+      id: generateId(),
+      userId,
+      title: data.title,
+      content,
+      keywords: data.keywords,
+      settings: toArticleSettings(data),
+      outline: data.outline ?? null,
+      status: "draft",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .returning();
+
+  return article;
+}
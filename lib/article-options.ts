@@ -0,0 +1,198 @@
+import type { OptionCategory } from "@/db/schema/article-options";
+
+export type { OptionCategory };
+
+// Options for the article settings that users pick in the generator. The built-in options live
+// here; admins add custom ones (or override built-in ones) in the article_options table, and the
+// merged registry is served by /api/options. Client-safe: the form and the prompt builders share it.
+export const OPTION_CATEGORIES = ["articleType", "tone", "pointOfView", "readability", "language"] as const satisfies readonly OptionCategory[];
+
+export type ArticleOption = {
+  // Stored in the article settings; a language code for languages
+  value: string;
+  label: string;
+  description: string | null;
+  // Requirement line added to the prompts; the label is used when it is empty
+  instruction: string | null;
+  // Database id of custom options, null for built-in ones
+  id: string | null;
+};
+
+export type OptionRegistry = { [category in OptionCategory]: ArticleOption[] };
+
+// The registry entries a request was validated against, attached on the server
+export type SelectedOptions = { [category in OptionCategory]?: ArticleOption };
+
+// Value of the "no preference" option of every category except language
+export const NO_OPTION = "None";
+
+export const OPTION_CATEGORY_LABELS: { [category in OptionCategory]: string } = {
+  articleType: "Article type",
+  tone: "Tone",
+  pointOfView: "Point of view",
+  readability: "Readability",
+  language: "Language",
+};
+
+function builtIn(value: string, instruction: string | null = null, description: string | null = null): ArticleOption {
+  return { value, label: value, description, instruction, id: null };
+}
+
+function language(code: string, name: string): ArticleOption {
+  return { value: code, label: name, description: null, instruction: null, id: null };
+}
+
+export const DEFAULT_OPTIONS: OptionRegistry = {
+  articleType: [
+    builtIn(NO_OPTION),
+    builtIn("How-to guide"),
+    builtIn("Listicle"),
+    builtIn("Product review"),
+    builtIn("News"),
+    builtIn("Comparison"),
+    builtIn("Case study"),
+    builtIn("Opinion piece"),
+    builtIn("Tutorial"),
+    builtIn("Roundup post"),
+    builtIn("Q&A page"),
+  ],
+  tone: [
+    builtIn(NO_OPTION),
+    builtIn("Friendly", "Use a warm, approachable, and conversational tone"),
+    builtIn("Professional", "Maintain a formal, business-appropriate tone"),
+    builtIn("Informational", "Focus on providing clear, educational information"),
+    builtIn("Transactional", "Include clear calls-to-action and conversion-focused language"),
+    builtIn("Inspirational", "Use motivational and uplifting language"),
+    builtIn("Neutral", "Maintain an objective and unbiased tone"),
+    builtIn("Witty", "Include clever humor and wordplay where appropriate"),
+    builtIn("Casual", "Use informal, relaxed language"),
+    builtIn("Authoritative", "Demonstrate expertise and confidence"),
+    builtIn("Encouraging", "Use supportive and motivating language"),
+    builtIn("Persuasive", "Focus on convincing the reader of your viewpoint"),
+    builtIn("Poetic", "Use literary and expressive language"),
+  ],
+  pointOfView: [
+    builtIn(NO_OPTION),
+    builtIn("First person singular", 'Write from "I", "me", "my", "mine" perspective'),
+    builtIn("First person plural", 'Write from "we", "us", "our", "ours" perspective'),
+    builtIn("Second person", 'Write from "you", "your", "yours" perspective'),
+    builtIn("Third person", 'Write from "he", "she", "it", "they" perspective'),
+  ],
+  readability: [
+    builtIn(NO_OPTION),
+    builtIn("5th grade", "Use simple vocabulary and short sentences (11-year-old reading level)", "Easily understood by 11-year-olds"),
+    builtIn("6th grade", "Use conversational language with moderate complexity", "Conversational language"),
+    builtIn("7th grade", "Use fairly easy to read language with some complexity", "Fairly easy to read"),
+    builtIn("8th & 9th grade", "Use easily understood language with moderate complexity", "Easily understood"),
+    builtIn("10th to 12th grade", "Use fairly difficult language with complex sentences", "Fairly difficult to read"),
+    builtIn("College", "Use difficult language with academic vocabulary", "Difficult to read"),
+    builtIn("College graduate", "Use very difficult language with sophisticated vocabulary", "Very difficult to read"),
+    builtIn("Professional", "Use extremely difficult language specific to the industry", "Extremely difficult to read"),
+  ],
+  language: [
+    language("en", "English"),
+    language("es", "Spanish"),
+    language("fr", "French"),
+    language("de", "German"),
+    language("it", "Italian"),
+    language("pt", "Portuguese"),
+    language("nl", "Dutch"),
+    language("pl", "Polish"),
+    language("ru", "Russian"),
+    language("ja", "Japanese"),
+    language("ko", "Korean"),
+    language("zh", "Chinese"),
+    language("ar", "Arabic"),
+    language("hi", "Hindi"),
+    language("tr", "Turkish"),
+    language("sv", "Swedish"),
+    language("da", "Danish"),
+    language("no", "Norwegian"),
+    language("fi", "Finnish"),
+    language("cs", "Czech"),
+    language("hu", "Hungarian"),
+    language("ro", "Romanian"),
+    language("bg", "Bulgarian"),
+    language("hr", "Croatian"),
+    language("sr", "Serbian"),
+    language("sk", "Slovak"),
+    language("et", "Estonian"),
+    language("lv", "Latvian"),
+    language("lt", "Lithuanian"),
+    language("sl", "Slovenian"),
+    language("mt", "Maltese"),
+    language("ga", "Irish"),
+    language("cy", "Welsh"),
+    language("is", "Icelandic"),
+    language("mk", "Macedonian"),
+    language("sq", "Albanian"),
+    language("bs", "Bosnian"),
+    language("eu", "Basque"),
+    language("ca", "Catalan"),
+    language("gl", "Galician"),
+    language("be", "Belarusian"),
+    language("uk", "Ukrainian"),
+    language("el", "Greek"),
+    language("hy", "Armenian"),
+    language("ka", "Georgian"),
+    language("he", "Hebrew"),
+    language("ur", "Urdu"),
+    language("bn", "Bengali"),
+    language("ta", "Tamil"),
+    language("te", "Telugu"),
+    language("ml", "Malayalam"),
+    language("kn", "Kannada"),
+    language("gu", "Gujarati"),
+    language("pa", "Punjabi"),
+    language("mr", "Marathi"),
+    language("ne", "Nepali"),
+    language("si", "Sinhala"),
+    language("my", "Myanmar"),
+    language("km", "Khmer"),
+    language("lo", "Lao"),
+    language("am", "Amharic"),
+    language("sw", "Swahili"),
+    language("zu", "Zulu"),
+    language("af", "Afrikaans"),
+  ],
+};
+
+// Custom entries replace the built-in option with the same value and are appended otherwise
+export function mergeOptions(custom: (ArticleOption & { category: OptionCategory })[]): OptionRegistry {
+  const registry = Object.fromEntries(
+    OPTION_CATEGORIES.map((category) => [category, [...DEFAULT_OPTIONS[category]]])
+  ) as OptionRegistry;
+
+  for (const { category, ...option } of custom) {
+    const options = registry[category];
+    const index = options.findIndex((existing) => existing.value === option.value);
+    if (index === -1) {
+      options.push(option);
+    } else {
+      options[index] = option;
+    }
+  }
+
+  return registry;
+}
+
+export function findOption(registry: OptionRegistry, category: OptionCategory, value: string): ArticleOption | null {
+  return registry[category].find((option) => option.value === value) ?? null;
+}
+
+// The option behind a stored setting: the entry the request was validated against, else the
+// built-in option, else a bare entry for values that are no longer registered
+export function resolveOption(category: OptionCategory, value: string, selected?: SelectedOptions): ArticleOption {
+  return (
+    selected?.[category] ??
+    findOption(DEFAULT_OPTIONS, category, value) ?? { value, label: value, description: null, instruction: null, id: null }
+  );
+}
+
+export function getOptionLabel(registry: OptionRegistry, category: OptionCategory, value: string): string {
+  return findOption(registry, category, value)?.label ?? value;
+}
+
+export function getLanguageName(code: string, selected?: SelectedOptions): string {
+  return resolveOption("language", code, selected).label;
+}
@@ -0,0 +1,252 @@
+import { type ComplianceCheck, type ComplianceReport } from "@/db/schema/articles";
+import { getLanguageName } from "@/lib/article-options";
+import { buildRepairPrompt, PROMPT_TEMPLATES, sizeRequirements } from "@/lib/prompt-builder";
+import {
+  getH2Headings,
+  isConclusionHeading,
+  isKeyTakeawaysHeading,
+  validateArticle,
+} from "@/lib/compliance";
+import {
+  parseArticleMarkdown,
+  renderArticleMarkdown,
+  type StructuredArticle,
+} from "@/lib/structured-article";
+import { countWords } from "@/lib/text-analysis";
+import type { LLMProvider } from "@/lib/llm";
+import type { ArticleRequest } from "@/lib/article-generation";
+
+// Upper bound on repair calls per article, whatever is still failing
+export const MAX_REPAIR_CALLS = 3;
+const REPAIR_MAX_TOKENS = 2000;
+// Missing pieces are cheap to add and also add words, so they go before length fixes
+const REPAIR_ORDER: ComplianceCheck["id"][] = ["faq", "conclusion", "key-takeaways", "tables", "h2-count", "word-count"];
+
+const REPAIR_SYSTEM_PROMPT =
+  "You are an expert SEO content editor. You fix specific problems in existing articles and output only the requested markdown.";
+
+interface RepairPlan {
+  // Short description shown to the user while the repair runs
+  description: string;
+  task: string;
+  apply: (article: StructuredArticle, output: string) => StructuredArticle;
+}
+
+interface RepairOptions {
+  signal?: AbortSignal;
+  maxCalls?: number;
+  onRepair?: (description: string) => void;
+}
+
+function getSizeRange(articleSize: string, key: "words" | "h2"): [number, number] {
+  const sizeReq = sizeRequirements[articleSize as keyof typeof sizeRequirements] || sizeRequirements.Small;
+  const [min, max] = sizeReq[key].split("-").map(Number);
+  return [min, max];
+}
+
+// Splits a body into the introduction and one chunk per H2 section
+export function splitSections(body: string): string[] {
+  return body.split(/\n(?=##\s)/).map((part) => part.trim()).filter(Boolean);
+}
+
+export function joinSections(sections: string[]): string {
+  return sections.join("\n\n");
+}
+
+// The H2 section in a repair response, ignoring any preamble the model added
+export function extractSection(output: string): string | null {
+  const start = output.search(/^##\s/m);
+  return start === -1 ? null : output.slice(start).trim();
+}
+
+// Index before which new content sections go, so closing sections stay last
+function closingSectionIndex(sections: string[]): number {
+  const index = sections.findIndex((section, i) => {
+    const heading = section.match(/^##\s+(.+)$/m)?.[1];
+    return i > 0 && !!heading && (isConclusionHeading(heading) || isKeyTakeawaysHeading(heading));
+  });
+  return index === -1 ? sections.length : index;
+}
+
+function insertSection(article: StructuredArticle, section: string | null, index?: number): StructuredArticle {
+  if (!section) return article;
+  const sections = splitSections(article.body);
+  sections.splice(index ?? sections.length, 0, section);
+  return { ...article, body: joinSections(sections) };
+}
+
+// Main content sections (not the intro or closing sections) with their word counts
+function contentSections(article: StructuredArticle) {
+  const sections = splitSections(article.body);
+  return sections
+    .map((text, index) => ({ text, index, words: countWords(text), heading: text.match(/^##\s+(.+)$/m)?.[1] }))
+    .filter(({ heading }) => heading && !isConclusionHeading(heading) && !isKeyTakeawaysHeading(heading));
+}
+
+function planRepair(check: ComplianceCheck, article: StructuredArticle, data: ArticleRequest): RepairPlan | null {
+  const targetLanguage = getLanguageName(data.language, data.options);
+
+  switch (check.id) {
+    case "faq":
+      return {
+        description: "Adding the missing FAQ section",
+        task: `Write the missing FAQ section.
+- Start with the line "## Frequently Asked Questions"
+- Then 3-5 questions readers are likely to search for, each as an H3 heading followed by a short answer
+- Write the questions and answers in ${targetLanguage}`,
+        apply: (current, output) => {
+          const faq = parseArticleMarkdown(output).faq;
+          return faq.length > 0 ? { ...current, faq } : current;
+        },
+      };
+
+    case "conclusion":
+      return {
+        description: "Adding the missing conclusion",
+        task: `Write the missing conclusion section.
+- Start with an H2 heading such as "## Conclusion", written in ${targetLanguage}
+- Summarise the article in about 150 words and end with a clear next step for the reader`,
+        apply: (current, output) => insertSection(current, extractSection(output)),
+      };
+
+    case "key-takeaways":
+      return {
+        description: "Adding the missing key takeaways",
+        task: `Write the missing key takeaways section.
+- Start with an H2 heading such as "## Key Takeaways", written in ${targetLanguage}
+- Then 4-6 bullet points with the most useful points of the article`,
+        apply: (current, output) => {
+          const sections = splitSections(current.body);
+          // Key takeaways go before the conclusion when there is one
+          const conclusion = sections.findIndex((section, i) => {
+            const heading = section.match(/^##\s+(.+)$/m)?.[1];
+            return i > 0 && !!heading && isConclusionHeading(heading);
+          });
+          return insertSection(current, extractSection(output), conclusion === -1 ? undefined : conclusion);
+        },
+      };
+
+    case "tables": {
+      const [target] = contentSections(article);
+      if (!target) return null;
+      return {
+        description: "Adding a data table",
+        task: `Write a markdown data table that supports the section below.
+- Start with one sentence introducing the table
+- Then the table, with a header row and 3-6 rows
+- Output only that sentence and the table, without any heading
+
+SECTION:
+${target.text}`,
+        apply: (current, output) => {
+          const table = output.slice(Math.max(0, output.search(/\S/))).trim();
+          if (!table.includes("|")) return current;
+          const sections = splitSections(current.body);
+          sections[target.index] = `${sections[target.index]}\n\n${table}`;
+          return { ...current, body: joinSections(sections) };
+        },
+      };
+    }
+
+    case "word-count": {
+      const [minWords, maxWords] = getSizeRange(data.articleSize, "words");
+      const words = countWords(renderArticleMarkdown(article));
+      const sections = contentSections(article);
+      if (sections.length === 0) return null;
+
+      // Lengthen the shortest section or tighten the longest one
+      const tooShort = words < minWords;
+      const target = sections.reduce((best, section) =>
+        tooShort ? (section.words < best.words ? section : best) : (section.words > best.words ? section : best)
+      );
+      const targetWords = tooShort
+        ? Math.min(target.words * 3 + 200, target.words + (minWords - words) + 50)
+        : Math.max(100, target.words - (words - maxWords) - 50);
+
+      return {
+        description: tooShort ? "Expanding a section to reach the word count" : "Tightening a section to fit the word count",
+        task: `${tooShort ? "Expand" : "Tighten"} the section below so it is about ${targetWords} words long${tooShort ? ", adding depth, examples and practical detail without repeating other sections" : ", keeping the most useful points"}.
+- Keep the H2 heading and any H3 subheadings exactly as they are
+- Keep any tables, lists and quotes
+- Output only the rewritten section
+
+SECTION:
+${target.text}`,
+        apply: (current, output) => {
+          const section = extractSection(output);
+          if (!section) return current;
+          const updated = splitSections(current.body);
+          updated[target.index] = section;
+          return { ...current, body: joinSections(updated) };
+        },
+      };
+    }
+
+    case "h2-count": {
+      const [minH2] = getSizeRange(data.articleSize, "h2");
+      // Removing sections would throw away content, so only missing sections are repaired
+      if (contentSections(article).length >= minH2) return null;
+      return {
+        description: "Adding a missing H2 section",
+        task: `Write one new H2 section covering a useful subtopic that none of the article sections above cover.
+- Start with the line "## " followed by the new heading, written in ${targetLanguage}
+- Length: about 250 words`,
+        apply: (current, output) =>
+          insertSection(current, extractSection(output), closingSectionIndex(splitSections(current.body))),
+      };
+    }
+
+    default:
+      // A wrong language needs a full rewrite, which is not a targeted repair
+      return null;
+  }
+}
+
+// Re-validates after every repair and stops as soon as the article passes, nothing
+// repairable is left, or the call budget is spent
+export async function repairArticle(
+  article: StructuredArticle,
+  data: ArticleRequest,
+  provider: LLMProvider,
+  { signal, maxCalls = MAX_REPAIR_CALLS, onRepair }: RepairOptions = {}
+): Promise<{ article: StructuredArticle; compliance: ComplianceReport }> {
+  let current = article;
+  let calls = 0;
+  let report = validateArticle(current, data);
+
+  while (!report.passed && calls < maxCalls) {
+    const plan = report.checks
+      .filter((check) => !check.passed)
+      .sort((a, b) => REPAIR_ORDER.indexOf(a.id) - REPAIR_ORDER.indexOf(b.id))
+      .map((check) => planRepair(check, current, data))
+      .find((candidate): candidate is RepairPlan => candidate !== null);
+    if (!plan) break;
+
+    console.log(`Repairing article "${data.title}": ${plan.description}`);
+    onRepair?.(plan.description);
+    calls++;
+
+    try {
+      const result = await provider.generate({
+        messages: [
+          { role: "system", content: REPAIR_SYSTEM_PROMPT },
+          { role: "user", content: buildRepairPrompt(data, getH2Headings(current.body), plan.task) },
+        ],
+        temperature: 0.7,
+        maxTokens: REPAIR_MAX_TOKENS,
+        promptTemplate: PROMPT_TEMPLATES.repair,
+        signal,
+      });
+      current = plan.apply(current, result.content);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // A failed repair should not cost the user the article itself
+      console.error("Article repair failed:", error);
+      break;
+    }
+
+    report = validateArticle(current, data, calls);
+  }
+
+  return { article: current, compliance: report };
+}
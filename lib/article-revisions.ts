@@ -0,0 +1,135 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  articles,
+  type AIPhraseReport,
+  type Article,
+  type ComplianceReport,
+  type PromptRecord,
+  type ReadabilityReport,
+} from "@/db/schema/articles";
+import { articleRevisions, type ArticleRevisionSource } from "@/db/schema/article-revisions";
+import { getStructuredArticle, renderArticleMarkdown, type StructuredArticle } from "@/lib/structured-article";
+import { generateId } from "@/lib/utils";
+
+export type ArticleRevisionSummary = {
+  id: string;
+  revision: number;
+  source: ArticleRevisionSource;
+  note: string | null;
+  createdAt: Date;
+};
+
+export type ArticleRevisionChanges = {
+  structured: StructuredArticle;
+  compliance: ComplianceReport;
+  aiPhraseReport: AIPhraseReport | null;
+  readabilityReport: ReadabilityReport;
+  // Calls made for this revision, appended to the article's prompt record
+  promptRecord: PromptRecord | null;
+};
+
+// Thrown when the article was changed by someone else while the revision was being written
+export class StaleArticleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StaleArticleError";
+  }
+}
+
+function appendPromptRecord(existing: PromptRecord | null, added: PromptRecord | null): PromptRecord | null {
+  if (!existing || !added) return added ?? existing;
+  return { ...existing, calls: [...existing.calls, ...added.calls] };
+}
+
+// Saves changed text as the article's next revision. The row is locked and compared with the
+// version the change was made from, so two edits cannot overwrite each other; the first edit
+// also stores the original text as revision 1.
+export async function saveArticleRevision(
+  article: Article,
+  changes: ArticleRevisionChanges,
+  revision: { source: ArticleRevisionSource; note: string | null }
+): Promise<Article> {
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(articles)
+      .where(eq(articles.id, article.id))
+      .for("update");
+
+    if (!current || current.updatedAt.getTime() !== article.updatedAt.getTime()) {
+      throw new StaleArticleError("The article was changed while this edit was running. Reload it and try again.");
+    }
+
+    const [latest] = await tx
+      .select({ revision: sql<number | null>`max(${articleRevisions.revision})` })
+      .from(articleRevisions)
+      .where(eq(articleRevisions.articleId, article.id));
+    let next = (latest?.revision ?? 0) + 1;
+
+    if (next === 1) {
+      await tx.insert(articleRevisions).values({
+        id: generateId(),
+        articleId: article.id,
+        revision: 1,
+        content: current.content,
+        body: getStructuredArticle(current).body,
+        source: "generated",
+        note: null,
+        createdAt: current.createdAt,
+      });
+      next = 2;
+    }
+
+    const content = renderArticleMarkdown(changes.structured);
+    await tx.insert(articleRevisions).values({
+      id: generateId(),
+      articleId: article.id,
+      revision: next,
+      content,
+      body: changes.structured.body,
+      source: revision.source,
+      note: revision.note,
+      createdAt: new Date(),
+    });
+
+    const [updated] = await tx
+      .update(articles)
+      .set({
+        ...changes.structured,
+        content,
+        compliance: changes.compliance,
+        aiPhraseReport: changes.aiPhraseReport,
+        readabilityReport: changes.readabilityReport,
+        promptRecord: appendPromptRecord(current.promptRecord, changes.promptRecord),
+        updatedAt: new Date(),
+      })
+      .where(eq(articles.id, article.id))
+      .returning();
+
+    return updated;
+  });
+}
+
+// Newest first; null when the article does not exist or belongs to someone else
+export async function listArticleRevisions(userId: string, articleId: string): Promise<ArticleRevisionSummary[] | null> {
+  const [article] = await db
+    .select({ id: articles.id })
+    .from(articles)
+    .where(and(eq(articles.id, articleId), eq(articles.userId, userId)))
+    .limit(1);
+
+  if (!article) return null;
+
+  return db
+    .select({
+      id: articleRevisions.id,
+      revision: articleRevisions.revision,
+      source: articleRevisions.source,
+      note: articleRevisions.note,
+      createdAt: articleRevisions.createdAt,
+    })
+    .from(articleRevisions)
+    .where(eq(articleRevisions.articleId, articleId))
+    .orderBy(desc(articleRevisions.revision));
+}
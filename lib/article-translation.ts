@@ -0,0 +1,372 @@
+import { and, asc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/db";
+import { articles, type Article, type ArticleSettings } from "@/db/schema/articles";
+import { resolveSavedArticle } from "@/lib/article-generation";
+import { findOption, getLanguageName, type ArticleOption } from "@/lib/article-options";
+import { joinSections, splitSections } from "@/lib/article-repair";
+import { validateArticle } from "@/lib/compliance";
+import { getSamplingParams } from "@/lib/generation-params";
+import { acquireGenerationSlot, finishGenerationSlot } from "@/lib/generation-quota";
+import { getLLMProvider, type LLMProvider } from "@/lib/llm";
+import { createUsageTracker } from "@/lib/llm-usage";
+import { getOptionRegistry } from "@/lib/option-registry";
+import {
+  buildTranslationMetadataPrompt,
+  buildTranslationSectionPrompt,
+  PROMPT_TEMPLATES,
+  type TranslationContext,
+} from "@/lib/prompt-builder";
+import { createPromptRecorder } from "@/lib/prompt-recorder";
+import { analyzeReadability } from "@/lib/readability";
+import { getStructuredArticle, renderArticleMarkdown, slugify, type StructuredArticle } from "@/lib/structured-article";
+import { generateId } from "@/lib/utils";
+
+const TRANSLATION_SYSTEM_PROMPT =
+  "You are a professional translator who localizes SEO articles. Always follow the rules provided in each prompt.";
+
+const METADATA_MAX_TOKENS = 3000;
+const SECTION_MAX_TOKENS = 3000;
+// A section that comes back with a different structure gets one more try
+const SECTION_ATTEMPTS = 2;
+
+// Translations should follow the original closely, and repeating a keyword is expected
+const TRANSLATION_SAMPLING = {
+  temperature: 0.3,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+};
+
+export const translateArticleSchema = z.object({
+  language: z.string().min(1).max(100),
+});
+
+export type TranslateArticleInput = z.infer<typeof translateArticleSchema>;
+
+export type TranslationErrorCode = "translation_exists" | "translation_failed";
+
+export class TranslationError extends Error {
+  constructor(
+    message: string,
+    public code: TranslationErrorCode
+  ) {
+    super(message);
+    this.name = "TranslationError";
+  }
+}
+
+const translatedMetadataSchema = z.object({
+  title: z.string().min(1).max(300),
+  keywords: z.string().min(1).max(500),
+  metaTitle: z.string().max(200),
+  metaDescription: z.string().max(500),
+  h1: z.string().min(1).max(300),
+  faq: z.array(z.object({ question: z.string().min(1).max(300), answer: z.string().min(1) })).max(20),
+});
+
+type TranslatedMetadata = z.infer<typeof translatedMetadataSchema>;
+
+// JSON schema sent as the response format; mirrors translatedMetadataSchema
+const TRANSLATION_METADATA_JSON_SCHEMA = {
+  name: "article_translation",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["title", "keywords", "metaTitle", "metaDescription", "h1", "faq"],
+    properties: {
+      title: { type: "string" },
+      keywords: { type: "string", description: "Localized keywords, comma-separated" },
+      metaTitle: { type: "string", description: "SEO meta title, 50-60 characters" },
+      metaDescription: { type: "string", description: "SEO meta description, 150-160 characters" },
+      h1: { type: "string" },
+      faq: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["question", "answer"],
+          properties: {
+            question: { type: "string" },
+            answer: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+function parseMetadata(text: string): TranslatedMetadata | null {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = translatedMetadataSchema.safeParse(JSON.parse(text.slice(start, end + 1)));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Headings, list items and table rows in order. Paragraphs are left out: a translation may
+// reasonably split or join sentences differently.
+function getMarkdownStructure(markdown: string): string {
+  return markdown
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trim();
+      const heading = trimmed.match(/^(#{1,6})\s/);
+      if (heading) return `h${heading[1].length}`;
+      if (/^[-*]\s/.test(trimmed)) return "ul";
+      if (/^\d+\.\s/.test(trimmed)) return "ol";
+      if (trimmed.startsWith("|")) return `tr${trimmed.split("|").length}`;
+      return null;
+    })
+    .filter(Boolean)
+    .join(",");
+}
+
+function getSectionName(section: string): string {
+  return section.match(/^##\s+(.+)$/m)?.[1]?.trim() ?? "Introduction";
+}
+
+type TranslationCall = TranslationContext & {
+  provider: LLMProvider;
+  keywords: string;
+  localizedKeywords: string;
+  sampling: ReturnType<typeof getSamplingParams>;
+  signal?: AbortSignal;
+};
+
+async function translateSection(call: TranslationCall, section: string): Promise<string> {
+  const structure = getMarkdownStructure(section);
+
+  for (let attempt = 1; attempt <= SECTION_ATTEMPTS; attempt++) {
+    const result = await call.provider.generate({
+      messages: [
+        { role: "system", content: TRANSLATION_SYSTEM_PROMPT },
+        { role: "user", content: buildTranslationSectionPrompt(call, section) },
+      ],
+      ...call.sampling,
+      promptTemplate: PROMPT_TEMPLATES.translationSection,
+      signal: call.signal,
+    });
+
+    const translated = result.content.trim();
+    if (result.finishReason === "stop" && translated && getMarkdownStructure(translated) === structure) {
+      return translated;
+    }
+  }
+
+  throw new TranslationError(
+    `The translation of "${getSectionName(section)}" did not keep the original structure. Please try again.`,
+    "translation_failed"
+  );
+}
+
+async function findLanguageVersion(
+  executor: Pick<typeof db, "select">,
+  groupId: string,
+  language: string
+): Promise<Article | null> {
+  const [variant] = await executor
+    .select()
+    .from(articles)
+    .where(and(eq(articles.translationGroupId, groupId), sql`${articles.settings}->>'language' = ${language}`))
+    .limit(1);
+
+  return variant ?? null;
+}
+
+async function writeTranslation(
+  userId: string,
+  article: Article & { settings: ArticleSettings },
+  target: ArticleOption,
+  signal?: AbortSignal
+): Promise<Article> {
+  const source = await resolveSavedArticle(article);
+  const structured = getStructuredArticle(article);
+  const usage = createUsageTracker(getLLMProvider(source.model), userId);
+  const prompts = createPromptRecorder(usage.provider);
+  const context: TranslationContext = {
+    sourceLanguage: getLanguageName(article.settings.language, source.options),
+    targetLanguage: target.label,
+  };
+  const sampling = {
+    ...getSamplingParams({ tokenLimit: source.tokenLimit }, SECTION_MAX_TOKENS),
+    ...TRANSLATION_SAMPLING,
+  };
+
+  // Title, keywords and metadata first, so the body can use the localized keywords
+  const metadataResult = await prompts.provider.generate({
+    messages: [
+      { role: "system", content: TRANSLATION_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: buildTranslationMetadataPrompt(context, {
+          title: article.title,
+          keywords: article.keywords,
+          metaTitle: structured.metaTitle,
+          metaDescription: structured.metaDescription,
+          h1: structured.h1,
+          faq: structured.faq,
+        }),
+      },
+    ],
+    ...sampling,
+    maxTokens: Math.min(sampling.maxTokens, METADATA_MAX_TOKENS),
+    responseFormat: TRANSLATION_METADATA_JSON_SCHEMA,
+    promptTemplate: PROMPT_TEMPLATES.translationMetadata,
+    signal,
+  });
+
+  const metadata = metadataResult.finishReason === "stop" ? parseMetadata(metadataResult.content) : null;
+  if (!metadata || metadata.faq.length !== structured.faq.length) {
+    await usage.flush();
+    throw new TranslationError("The AI service did not return a complete translation. Please try again.", "translation_failed");
+  }
+
+  const call: TranslationCall = {
+    ...context,
+    provider: prompts.provider,
+    keywords: article.keywords,
+    localizedKeywords: metadata.keywords,
+    sampling,
+    signal,
+  };
+
+  // One section at a time keeps every call well inside the token limit
+  const sections: string[] = [];
+  try {
+    for (const section of splitSections(structured.body)) {
+      sections.push(await translateSection(call, section));
+    }
+  } catch (error) {
+    await usage.flush();
+    throw error;
+  }
+
+  const translated: StructuredArticle = {
+    metaTitle: metadata.metaTitle,
+    metaDescription: metadata.metaDescription,
+    slug: slugify(metadata.metaTitle || metadata.h1),
+    h1: metadata.h1,
+    body: joinSections(sections),
+    faq: metadata.faq,
+  };
+  const settings: ArticleSettings = { ...article.settings, language: target.value };
+  const data = {
+    ...source,
+    ...settings,
+    title: metadata.title,
+    keywords: metadata.keywords,
+    options: source.options && { ...source.options, language: target },
+  };
+
+  const variant = await db.transaction(async (tx) => {
+    // Locking the original serialises translations of the same article
+    const [original] = await tx
+      .select({ translationGroupId: articles.translationGroupId })
+      .from(articles)
+      .where(eq(articles.id, article.id))
+      .for("update");
+
+    if (!original) {
+      throw new TranslationError("The original article was deleted while it was being translated.", "translation_failed");
+    }
+
+    let groupId = original.translationGroupId;
+    if (!groupId) {
+      groupId = generateId();
+      await tx.update(articles).set({ translationGroupId: groupId }).where(eq(articles.id, article.id));
+    } else if (await findLanguageVersion(tx, groupId, target.value)) {
+      throw new TranslationError(`This article already has a ${target.label} version.`, "translation_exists");
+    }
+
+    const [saved] = await tx
+      .insert(articles)
+      .values({
+        id: generateId(),
+        userId,
+        title: metadata.title,
+        content: renderArticleMarkdown(translated),
+        keywords: metadata.keywords,
+        settings,
+        outline: null,
+        ...translated,
+        compliance: validateArticle(translated, data),
+        aiPhraseReport: null,
+        readabilityReport: analyzeReadability(translated, data),
+        promptRecord: prompts.getRecord(),
+        translationGroupId: groupId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+
+    return saved;
+  });
+  await usage.assignArticle(variant.id);
+
+  return variant;
+}
+
+// Writes a localized version of the article in another registered language and links it to
+// the original through their translation group. A translation is a new article and counts
+// against the article quota. Throws TranslationError when the language version exists already
+// or the model did not keep the structure, and ZodError for an unknown language.
+export async function translateArticle(
+  userId: string,
+  article: Article & { settings: ArticleSettings },
+  input: TranslateArticleInput,
+  signal?: AbortSignal
+): Promise<Article> {
+  if (article.status === "draft") {
+    throw new TranslationError("Drafts cannot be translated. Generate the full article first.", "translation_failed");
+  }
+
+  const target = findOption(await getOptionRegistry(), "language", input.language);
+  if (!target || target.value === article.settings.language) {
+    throw new z.ZodError([
+      {
+        code: "custom",
+        path: ["language"],
+        message: target ? `The article is already in ${target.label}` : `Unknown language "${input.language}"`,
+        input: input.language,
+      },
+    ]);
+  }
+
+  // Checked up front as well, so no tokens are spent on a version that would be rejected
+  if (article.translationGroupId && (await findLanguageVersion(db, article.translationGroupId, target.value))) {
+    throw new TranslationError(`This article already has a ${target.label} version.`, "translation_exists");
+  }
+
+  const requestId = await acquireGenerationSlot(userId);
+  try {
+    const variant = await writeTranslation(userId, article, target, signal);
+    await finishGenerationSlot(requestId, "succeeded");
+    return variant;
+  } catch (error) {
+    await finishGenerationSlot(requestId, signal?.aborted ? "cancelled" : "failed");
+    throw error;
+  }
+}
+
+// The article and its translations, oldest first; null when the article is not the user's
+export async function listArticleTranslations(userId: string, articleId: string): Promise<Article[] | null> {
+  const [article] = await db
+    .select()
+    .from(articles)
+    .where(and(eq(articles.id, articleId), eq(articles.userId, userId)))
+    .limit(1);
+
+  if (!article) return null;
+  if (!article.translationGroupId) return [article];
+
+  return db
+    .select()
+    .from(articles)
+    .where(and(eq(articles.translationGroupId, article.translationGroupId), eq(articles.userId, userId)))
+    .orderBy(asc(articles.createdAt));
+}
@@ -0,0 +1,40 @@
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { bannedPhrases } from "@/db/schema/banned-phrases";
+import { generateId } from "@/lib/utils";
+
+export async function listBannedPhrases(userId: string) {
+  return db
+    .select()
+    .from(bannedPhrases)
+    .where(eq(bannedPhrases.userId, userId))
+    .orderBy(asc(bannedPhrases.phrase));
+}
+
+export async function getBannedPhraseList(userId: string): Promise<string[]> {
+  const phrases = await listBannedPhrases(userId);
+  return phrases.map((entry) => entry.phrase);
+}
+
+export async function addBannedPhrase(userId: string, phrase: string) {
+  const [entry] = await db
+    .insert(bannedPhrases)
+    .values({
+      id: generateId(),
+      userId,
+      phrase: phrase.trim().toLowerCase(),
+      createdAt: new Date(),
+    })
+    .returning();
+
+  return entry;
+}
+
+export async function deleteBannedPhrase(userId: string, id: string) {
+  const [entry] = await db
+    .delete(bannedPhrases)
+    .where(and(eq(bannedPhrases.id, id), eq(bannedPhrases.userId, userId)))
+    .returning();
+
+  return entry ?? null;
+}
@@ -0,0 +1,103 @@
+import { and, asc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/db";
+import { brandVoices, type BrandVoice } from "@/db/schema/brand-voices";
+import type { BrandVoicePrompt } from "@/lib/prompt-builder";
+import { generateId } from "@/lib/utils";
+
+const termList = (maxItems: number, maxLength: number) =>
+  z.array(z.string().trim().min(1).max(maxLength)).max(maxItems).default([]);
+
+export const brandVoiceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(1000).nullish(),
+  dos: termList(20, 300),
+  donts: termList(20, 300),
+  vocabulary: termList(50, 100),
+  forbiddenTerms: termList(100, 100),
+  samples: termList(5, 2000),
+});
+
+export type BrandVoiceInput = z.infer<typeof brandVoiceSchema>;
+
+export class BrandVoiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BrandVoiceError";
+  }
+}
+
+export async function listBrandVoices(userId: string) {
+  return db
+    .select()
+    .from(brandVoices)
+    .where(eq(brandVoices.userId, userId))
+    .orderBy(asc(brandVoices.name));
+}
+
+export async function getBrandVoice(userId: string, id: string): Promise<BrandVoice | null> {
+  const [voice] = await db
+    .select()
+    .from(brandVoices)
+    .where(and(eq(brandVoices.id, id), eq(brandVoices.userId, userId)))
+    .limit(1);
+
+  return voice ?? null;
+}
+
+export async function createBrandVoice(userId: string, input: BrandVoiceInput) {
+  const [voice] = await db
+    .insert(brandVoices)
+    .values({
+      id: generateId(),
+      userId,
+      ...input,
+      description: input.description ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .returning();
+
+  return voice;
+}
+
+export async function updateBrandVoice(userId: string, id: string, input: BrandVoiceInput) {
+  const [voice] = await db
+    .update(brandVoices)
+    .set({
+      ...input,
+      description: input.description ?? null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(brandVoices.id, id), eq(brandVoices.userId, userId)))
+    .returning();
+
+  return voice ?? null;
+}
+
+export async function deleteBrandVoice(userId: string, id: string) {
+  const [voice] = await db
+    .delete(brandVoices)
+    .where(and(eq(brandVoices.id, id), eq(brandVoices.userId, userId)))
+    .returning();
+
+  return voice ?? null;
+}
+
+// Loads the voice a generation request asked for
+export async function loadArticleBrandVoice(userId: string, id: string): Promise<BrandVoicePrompt> {
+  const voice = await getBrandVoice(userId, id);
+  if (!voice) {
+    throw new BrandVoiceError("The selected brand voice no longer exists.");
+  }
+
+  return {
+    name: voice.name,
+    description: voice.description,
+    dos: voice.dos,
+    donts: voice.donts,
+    vocabulary: voice.vocabulary,
+    forbiddenTerms: voice.forbiddenTerms,
+    samples: voice.samples,
+  };
+}
@@ -0,0 +1,184 @@
+// Reading bulk import CSVs into per-row article overrides. Client-safe: the import page shows
+// the column reference, the server parses and validates the rows.
+
+export const MAX_BULK_ROWS = 200;
+
+// Columns besides title and keywords; empty cells keep the batch defaults
+export const SETTING_COLUMNS = ["articleType", "articleSize", "tone", "pointOfView", "readability", "aiCleaning", "language"] as const;
+export const STRUCTURE_COLUMNS = ["conclusion", "faqSection", "tables", "h3Headings", "lists", "italics", "bold", "quotes", "keyTakeaways"] as const;
+export const GENERATION_COLUMNS = ["model", "temperature", "topP", "frequencyPenalty", "presencePenalty"] as const;
+
+type SettingColumn = (typeof SETTING_COLUMNS)[number];
+type StructureColumn = (typeof STRUCTURE_COLUMNS)[number];
+type GenerationColumn = (typeof GENERATION_COLUMNS)[number];
+
+export type BulkRowOverrides = {
+  settings: { [column in SettingColumn]?: string };
+  structure: { [column in StructureColumn]?: boolean };
+  generation: { model?: string } & { [column in Exclude<GenerationColumn, "model">]?: number };
+};
+
+export type BulkRowError = {
+  // Column the problem is in, or "row" for the row as a whole
+  field: string;
+  message: string;
+};
+
+export type BulkRow = {
+  // Data row number, starting at 1 below the header
+  row: number;
+  title: string;
+  keywords: string;
+  overrides: BulkRowOverrides;
+  errors: BulkRowError[];
+};
+
+export class BulkImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BulkImportError";
+  }
+}
+
+const TRUE_VALUES = new Set(["yes", "y", "true", "1", "x"]);
+const FALSE_VALUES = new Set(["no", "n", "false", "0"]);
+
+// Headers match case-insensitively and ignore spaces, dashes and underscores: "Article Type",
+// "article_type" and "articleType" are the same column
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+const KNOWN_COLUMNS = new Map<string, string>(
+  ["title", "keywords", ...SETTING_COLUMNS, ...STRUCTURE_COLUMNS, ...GENERATION_COLUMNS].map((column) => [
+    normalizeHeader(column),
+    column,
+  ])
+);
+
+// Spreadsheets in some locales export with semicolons; the header line decides
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map((delimiter) => [delimiter, header.split(delimiter).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+// RFC 4180: quoted fields may contain delimiters, line breaks and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new BulkImportError("The CSV has a quoted field that is never closed.");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines, including the trailing ones spreadsheets add, are not rows
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function parseRow(row: number, record: { [column: string]: string }): BulkRow {
+  const errors: BulkRowError[] = [];
+  const overrides: BulkRowOverrides = { settings: {}, structure: {}, generation: {} };
+
+  for (const column of SETTING_COLUMNS) {
+    if (record[column]) overrides.settings[column] = record[column];
+  }
+
+  for (const column of STRUCTURE_COLUMNS) {
+    const value = record[column]?.toLowerCase();
+    if (!value) continue;
+    if (TRUE_VALUES.has(value)) overrides.structure[column] = true;
+    else if (FALSE_VALUES.has(value)) overrides.structure[column] = false;
+    else errors.push({ field: column, message: `Expected yes or no, got "${record[column]}"` });
+  }
+
+  for (const column of GENERATION_COLUMNS) {
+    const value = record[column];
+    if (!value) continue;
+    if (column === "model") {
+      overrides.generation.model = value;
+    } else if (Number.isFinite(Number(value))) {
+      overrides.generation[column] = Number(value);
+    } else {
+      errors.push({ field: column, message: `Expected a number, got "${value}"` });
+    }
+  }
+
+  return { row, title: record.title ?? "", keywords: record.keywords ?? "", overrides, errors };
+}
+
+// Reads the rows of a bulk import. Throws BulkImportError when the file as a whole is unusable;
+// problems with single rows are reported on the row.
+export function parseBulkCsv(text: string): { rows: BulkRow[]; ignoredColumns: string[] } {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new BulkImportError("The CSV is empty.");
+  }
+
+  const columns = header.map((name) => KNOWN_COLUMNS.get(normalizeHeader(name)) ?? null);
+  for (const required of ["title", "keywords"]) {
+    if (!columns.includes(required)) {
+      throw new BulkImportError(`The CSV needs a "${required}" column.`);
+    }
+  }
+  if (records.length === 0) {
+    throw new BulkImportError("The CSV has a header but no rows.");
+  }
+  if (records.length > MAX_BULK_ROWS) {
+    throw new BulkImportError(`A batch can have at most ${MAX_BULK_ROWS} rows; this CSV has ${records.length}.`);
+  }
+
+  const rows = records.map((cells, index) => {
+    const record: { [column: string]: string } = {};
+    columns.forEach((column, position) => {
+      if (column) record[column] = (cells[position] ?? "").trim();
+    });
+
+    const parsed = parseRow(index + 1, record);
+    if (cells.length > header.length) {
+      parsed.errors.push({ field: "row", message: `Has ${cells.length} cells but the header has ${header.length} columns` });
+    }
+    return parsed;
+  });
+
+  return {
+    rows,
+    ignoredColumns: header.filter((_, position) => columns[position] === null && header[position].trim() !== ""),
+  };
+}
@@ -0,0 +1,160 @@
+import { type ArticleOutline } from "@/db/schema/articles";
+import {
+  buildFaqPrompt,
+  buildIntroPrompt,
+  buildSectionPrompt,
+  PROMPT_TEMPLATES,
+  sizeRequirements,
+  type SectionPromptContext,
+} from "@/lib/prompt-builder";
+import type { LLMGenerateParams, LLMProvider, LLMStreamEvent, LLMUsage } from "@/lib/llm";
+import type { ArticleRequest } from "@/lib/article-generation";
+import { getSamplingParams } from "@/lib/generation-params";
+
+// How many times a completion that hit max_tokens is asked to continue before giving up
+const MAX_CONTINUATIONS = 3;
+const SECTION_MAX_TOKENS = 2000;
+const INTRO_WORDS = 150;
+const FAQ_WORDS_PER_QUESTION = 80;
+
+export const CONTINUE_PROMPT =
+  "Your previous response was cut off. Continue exactly where it stopped, without repeating any text and without adding commentary.";
+
+export const SECTION_SYSTEM_PROMPT =
+  "You are an expert SEO content writer. You write individual parts of long-form articles that read as one coherent piece once stitched together. Output only the requested markdown.";
+
+export function addUsage(total: LLMUsage | null, usage: LLMUsage | null): LLMUsage | null {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+// Streams a completion and, when it stops on max_tokens, asks the model to carry on from where
+// it was cut off. The final "done" event reports "length" only if it is still unfinished.
+export async function* streamWithContinuation(
+  provider: LLMProvider,
+  params: LLMGenerateParams
+): AsyncGenerator<LLMStreamEvent> {
+  let content = "";
+  let usage: LLMUsage | null = null;
+  let finishReason: string | null = null;
+
+  for (let attempt = 0; attempt <= MAX_CONTINUATIONS; attempt++) {
+    const messages =
+      attempt === 0
+        ? params.messages
+        : [
+            ...params.messages,
+            { role: "assistant" as const, content },
+            { role: "user" as const, content: CONTINUE_PROMPT },
+          ];
+
+    for await (const event of provider.stream({ ...params, messages })) {
+      if (event.type === "delta") {
+        content += event.content;
+        yield event;
+      } else {
+        finishReason = event.finishReason;
+        usage = addUsage(usage, event.usage);
+      }
+    }
+
+    if (finishReason !== "length") break;
+    console.log(`Completion hit max_tokens, continuing (${attempt + 1}/${MAX_CONTINUATIONS})`);
+  }
+
+  yield { type: "done", finishReason, usage };
+}
+
+// Short plain-text summary of a written section, used as context for the next ones
+export function summarizeSection(markdown: string): string {
+  const text = markdown
+    .split("\n")
+    .filter((line) => line.trim() && !line.startsWith("#") && !line.startsWith("|"))
+    .join(" ")
+    .replace(/[*_>`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  const words = text.split(" ");
+  return words.length > 40 ? `${words.slice(0, 40).join(" ")}...` : text;
+}
+
+function getTargetWords(articleSize: string): number {
+  const range = sizeRequirements[articleSize as keyof typeof sizeRequirements]?.words || "1200-2400";
+  const [min, max] = range.split("-").map(Number);
+  return Math.round((min + max) / 2);
+}
+
+// Generates the intro, every H2 section and the FAQ in separate calls that share the title,
+// keywords, outline and summaries of what was already written, then streams them as one article.
+export async function* streamArticleInSections(
+  data: ArticleRequest & { outline: ArticleOutline },
+  provider: LLMProvider,
+  signal?: AbortSignal
+): AsyncGenerator<LLMStreamEvent> {
+  const { outline } = data;
+  const context: SectionPromptContext = { ...data, outline, previousSummaries: [] };
+  const faqWords = outline.faq.length * FAQ_WORDS_PER_QUESTION;
+  const sectionWords = Math.max(
+    150,
+    Math.round((getTargetWords(data.articleSize) - INTRO_WORDS - faqWords) / outline.sections.length)
+  );
+
+  // Prompts are built lazily because they embed the summaries of the parts written before them
+  const parts: { heading: string; template: string; buildPrompt: () => string }[] = [
+    {
+      heading: "Introduction",
+      template: PROMPT_TEMPLATES.intro,
+      buildPrompt: () => buildIntroPrompt(context, INTRO_WORDS),
+    },
+    ...outline.sections.map((section, index) => ({
+      heading: section.heading,
+      template: PROMPT_TEMPLATES.section,
+      buildPrompt: () => buildSectionPrompt(context, index, sectionWords),
+    })),
+  ];
+  if (outline.faq.length > 0) {
+    parts.push({
+      heading: "Frequently Asked Questions",
+      template: PROMPT_TEMPLATES.faq,
+      buildPrompt: () => buildFaqPrompt(context, faqWords),
+    });
+  }
+
+  let usage: LLMUsage | null = null;
+  let finishReason: string | null = "stop";
+
+  for (const [index, part] of parts.entries()) {
+    if (index > 0) {
+      yield { type: "delta", content: "\n\n" };
+    }
+
+    let written = "";
+    for await (const event of streamWithContinuation(provider, {
+      messages: [
+        { role: "system", content: SECTION_SYSTEM_PROMPT },
+        { role: "user", content: part.buildPrompt() },
+      ],
+      ...getSamplingParams(data, SECTION_MAX_TOKENS),
+      promptTemplate: part.template,
+      signal,
+    })) {
+      if (event.type === "delta") {
+        written += event.content;
+        yield event;
+      } else {
+        usage = addUsage(usage, event.usage);
+        // One unfinished part makes the whole article unfinished
+        if (event.finishReason !== "stop") finishReason = event.finishReason;
+      }
+    }
+
+    context.previousSummaries.push({ heading: part.heading, summary: summarizeSection(written) });
+  }
+
+  yield { type: "done", finishReason, usage };
+}
@@ -0,0 +1,145 @@
+import {
+  type ArticleSettings,
+  type ComplianceCheck,
+  type ComplianceReport,
+} from "@/db/schema/articles";
+import { getLanguageName } from "@/lib/article-options";
+import { sizeRequirements, type PromptData } from "@/lib/prompt-builder";
+import { renderArticleMarkdown, type StructuredArticle } from "@/lib/structured-article";
+import { countWords, matchesLanguage, phrasePattern } from "@/lib/text-analysis";
+
+// Headings that count as a conclusion or key takeaways section, in the supported languages
+const CONCLUSION_HEADING =
+  /conclusion|final thoughts|wrapping up|conclusi[oó]n[e]?|conclusão|fazit|schlussfolgerung|conclusie|podsumowanie|заключение|вывод|結論|まとめ|결론|结论|总结|خاتمة|निष्कर्ष|sonuç|slutsats|konklusion|konklusjon|yhteenveto|johtopäätö/i;
+const KEY_TAKEAWAYS_HEADING =
+  /key takeaways|takeaways|key points|puntos clave|points clés|à retenir|wichtigste|punti chiave|pontos-chave|principais conclusões|belangrijkste|najważniejsze|ключевые|要点|ポイント|핵심|主要|النقاط الرئيسية|मुख्य बातें|önemli noktalar|viktigaste|vigtigste|viktigste|tärkeimmät/i;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?\s*$/m;
+
+export function getH2Headings(markdown: string): string[] {
+  return [...markdown.matchAll(/^##\s+(.+)$/gm)].map((match) => match[1].trim());
+}
+
+export function isConclusionHeading(heading: string): boolean {
+  return CONCLUSION_HEADING.test(heading);
+}
+
+export function isKeyTakeawaysHeading(heading: string): boolean {
+  return KEY_TAKEAWAYS_HEADING.test(heading);
+}
+
+function parseRange(range: string): [number, number] {
+  const [min, max] = range.split("-").map(Number);
+  return [min, max];
+}
+
+// Scores how well a generated article honours the settings it was requested with
+export function validateArticle(
+  article: StructuredArticle,
+  settings: ArticleSettings & Pick<PromptData, "brandVoice" | "options">,
+  repairAttempts = 0
+): ComplianceReport {
+  const sizeReq = sizeRequirements[settings.articleSize as keyof typeof sizeRequirements] || sizeRequirements.Small;
+  const [minWords, maxWords] = parseRange(sizeReq.words);
+  const [minH2, maxH2] = parseRange(sizeReq.h2);
+  const headings = getH2Headings(article.body);
+  const checks: ComplianceCheck[] = [];
+
+  const markdown = renderArticleMarkdown(article);
+  const words = countWords(markdown);
+  checks.push({
+    id: "word-count",
+    label: "Word count",
+    passed: words >= minWords && words <= maxWords,
+    expected: `${minWords}-${maxWords} words`,
+    actual: `${words} words`,
+  });
+
+  // Conclusion and key takeaways are extra sections on top of the requested ones
+  const mainSections = headings.filter(
+    (heading) => !isConclusionHeading(heading) && !isKeyTakeawaysHeading(heading)
+  ).length;
+  checks.push({
+    id: "h2-count",
+    label: "H2 sections",
+    passed: mainSections >= minH2 && mainSections <= maxH2,
+    expected: `${minH2}-${maxH2} sections`,
+    actual: `${mainSections} sections`,
+  });
+
+  if (settings.structure.faqSection) {
+    checks.push({
+      id: "faq",
+      label: "FAQ section",
+      passed: article.faq.length > 0,
+      expected: "At least one question",
+      actual: article.faq.length > 0 ? `${article.faq.length} questions` : "Missing",
+    });
+  }
+
+  if (settings.structure.conclusion) {
+    const found = headings.some(isConclusionHeading);
+    checks.push({
+      id: "conclusion",
+      label: "Conclusion",
+      passed: found,
+      expected: "A conclusion section",
+      actual: found ? "Present" : "Missing",
+    });
+  }
+
+  if (settings.structure.keyTakeaways) {
+    const found = headings.some(isKeyTakeawaysHeading);
+    checks.push({
+      id: "key-takeaways",
+      label: "Key takeaways",
+      passed: found,
+      expected: "A key takeaways section",
+      actual: found ? "Present" : "Missing",
+    });
+  }
+
+  if (settings.structure.tables) {
+    const found = TABLE_SEPARATOR.test(article.body);
+    checks.push({
+      id: "tables",
+      label: "Data table",
+      passed: found,
+      expected: "At least one table",
+      actual: found ? "Present" : "Missing",
+    });
+  }
+
+  const targetLanguage = getLanguageName(settings.language, settings.options);
+  const languageMatch = matchesLanguage(article.body, settings.language);
+  checks.push({
+    id: "language",
+    label: "Language",
+    // Languages we cannot detect are not held against the article
+    passed: languageMatch !== false,
+    expected: targetLanguage,
+    actual: languageMatch === null ? "Not checked" : languageMatch ? targetLanguage : "Different language",
+  });
+
+  // Forbidden terms of the brand voice are only checked, never scrubbed
+  const forbiddenTerms = settings.brandVoice?.forbiddenTerms ?? [];
+  if (forbiddenTerms.length > 0) {
+    const found = forbiddenTerms.filter((term) => phrasePattern(term).test(markdown));
+    checks.push({
+      id: "forbidden-terms",
+      label: "Brand voice terms",
+      passed: found.length === 0,
+      expected: `None of ${forbiddenTerms.length} forbidden ${forbiddenTerms.length === 1 ? "term" : "terms"}`,
+      actual: found.length === 0 ? "None used" : found.join(", "),
+    });
+  }
+
+  const passedCount = checks.filter((check) => check.passed).length;
+
+  return {
+    score: Math.round((passedCount / checks.length) * 100),
+    passed: passedCount === checks.length,
+    checks,
+    repairAttempts,
+    checkedAt: new Date().toISOString(),
+  };
+}
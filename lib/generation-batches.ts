@@ -0,0 +1,299 @@
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/db";
+import {
+  generationBatches,
+  generationJobs,
+  type GenerationBatch,
+  type GenerationJobStatus,
+} from "@/db/schema/generation-jobs";
+import { generateRequestSchema, type GenerateRequest } from "@/lib/article-generation";
+import { loadArticleBrandVoice } from "@/lib/brand-voices";
+import { parseBulkCsv, type BulkRow, type BulkRowError } from "@/lib/bulk-csv";
+import { acquireBatchGenerationSlots, finishGenerationSlot } from "@/lib/generation-quota";
+import { getOptionRegistry, selectArticleOptions } from "@/lib/option-registry";
+import { loadArticlePromptTemplate } from "@/lib/prompt-templates";
+import { generateId } from "@/lib/utils";
+
+// Settings every row starts from; rows override them column by column
+export const batchDefaultsSchema = generateRequestSchema.omit({ title: true, keywords: true, outline: true });
+
+export const bulkImportSchema = z.object({
+  name: z.string().trim().max(100).nullish(),
+  csv: z.string().min(1).max(2_000_000),
+  defaults: batchDefaultsSchema,
+});
+
+export type BulkImportInput = z.infer<typeof bulkImportSchema>;
+
+export type BulkRowReport = {
+  row: number;
+  title: string;
+  keywords: string;
+  errors: BulkRowError[];
+};
+
+export type BulkImportReport = {
+  rows: BulkRowReport[];
+  validRows: number;
+  // Header cells that are not a known column
+  ignoredColumns: string[];
+};
+
+export type BatchProgress = { [status in GenerationJobStatus]: number };
+
+export type GenerationBatchSummary = GenerationBatch & {
+  progress: BatchProgress;
+};
+
+export type GenerationBatchRow = {
+  jobId: string;
+  row: number;
+  title: string;
+  status: GenerationJobStatus;
+  error: string | null;
+  articleId: string | null;
+  attempts: number;
+};
+
+export type GenerationBatchAction = "pause" | "resume" | "retry";
+
+function toRequest(row: BulkRow, defaults: BulkImportInput["defaults"]): unknown {
+  const { settings, structure, generation } = row.overrides;
+  const hasGeneration = Object.keys(generation).length > 0;
+
+  return {
+    ...defaults,
+    ...settings,
+    title: row.title,
+    keywords: row.keywords,
+    structure: { ...defaults.structure, ...structure },
+    generation: hasGeneration ? { ...defaults.generation, ...generation } : defaults.generation,
+  };
+}
+
+// Issues are reported on the CSV column they came from, e.g. "temperature" rather than "generation.temperature"
+function toRowErrors(error: z.ZodError): BulkRowError[] {
+  return error.issues.map((issue) => ({
+    field: String(issue.path.at(-1) ?? "row"),
+    message: issue.message,
+  }));
+}
+
+// Validates every row of an import against the request schema, the option registry and the model
+// allowlist. The template and brand voice of the defaults are checked once and throw
+// PromptTemplateError or BrandVoiceError; a malformed file throws BulkImportError.
+export async function validateBulkImport(userId: string, input: BulkImportInput) {
+  const { rows, ignoredColumns } = parseBulkCsv(input.csv);
+  const [registry] = await Promise.all([
+    getOptionRegistry(),
+    input.defaults.promptTemplateId ? loadArticlePromptTemplate(userId, input.defaults.promptTemplateId) : null,
+    input.defaults.brandVoiceId ? loadArticleBrandVoice(userId, input.defaults.brandVoiceId) : null,
+  ]);
+
+  // Requests of the rows without errors
+  const requests: GenerateRequest[] = [];
+  const reports: BulkRowReport[] = rows.map((row) => {
+    const errors = [...row.errors];
+    const parsed = generateRequestSchema.safeParse(toRequest(row, input.defaults));
+
+    if (!parsed.success) {
+      errors.push(...toRowErrors(parsed.error));
+    } else {
+      try {
+        selectArticleOptions(parsed.data, registry);
+      } catch (error) {
+        if (!(error instanceof z.ZodError)) throw error;
+        errors.push(...toRowErrors(error));
+      }
+    }
+
+    if (errors.length === 0 && parsed.success) requests.push(parsed.data);
+    return { row: row.row, title: row.title, keywords: row.keywords, errors };
+  });
+
+  const report: BulkImportReport = {
+    rows: reports,
+    validRows: requests.length,
+    ignoredColumns,
+  };
+  return { report, requests };
+}
+
+// Creates the batch and one queued job per row in a single transaction. requestIds are the
+// slots acquireBatchGenerationSlots reserved, one per request.
+export async function createGenerationBatch(
+  userId: string,
+  name: string,
+  requests: GenerateRequest[],
+  requestIds: string[]
+) {
+  return db.transaction(async (tx) => {
+    const [batch] = await tx
+      .insert(generationBatches)
+      .values({
+        id: generateId(),
+        userId,
+        name,
+        status: "active",
+        totalRows: requests.length,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+
+    await tx.insert(generationJobs).values(
+      requests.map((request, index) => ({
+        id: generateId(),
+        userId,
+        status: "queued" as const,
+        request,
+        batchId: batch.id,
+        batchRow: index + 1,
+        generationRequestId: requestIds[index],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }))
+    );
+
+    return batch;
+  });
+}
+
+async function getBatchProgress(batchIds: string[]): Promise<Map<string, BatchProgress>> {
+  const progress = new Map<string, BatchProgress>(
+    batchIds.map((id) => [id, { queued: 0, running: 0, succeeded: 0, failed: 0 }])
+  );
+  if (batchIds.length === 0) return progress;
+
+  const counts = await db
+    .select({
+      batchId: generationJobs.batchId,
+      status: generationJobs.status,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(generationJobs)
+    .where(inArray(generationJobs.batchId, batchIds))
+    .groupBy(generationJobs.batchId, generationJobs.status);
+
+  for (const { batchId, status, count } of counts) {
+    const batch = batchId ? progress.get(batchId) : undefined;
+    if (batch) batch[status] = count;
+  }
+  return progress;
+}
+
+export async function listGenerationBatches(userId: string): Promise<GenerationBatchSummary[]> {
+  const batches = await db
+    .select()
+    .from(generationBatches)
+    .where(eq(generationBatches.userId, userId))
+    .orderBy(desc(generationBatches.createdAt))
+    .limit(50);
+
+  const progress = await getBatchProgress(batches.map((batch) => batch.id));
+  return batches.map((batch) => ({ ...batch, progress: progress.get(batch.id)! }));
+}
+
+export async function getGenerationBatch(
+  userId: string,
+  id: string
+): Promise<(GenerationBatchSummary & { rows: GenerationBatchRow[] }) | null> {
+  const [batch] = await db
+    .select()
+    .from(generationBatches)
+    .where(and(eq(generationBatches.id, id), eq(generationBatches.userId, userId)))
+    .limit(1);
+
+  if (!batch) return null;
+
+  const jobs = await db
+    .select()
+    .from(generationJobs)
+    .where(eq(generationJobs.batchId, batch.id))
+    .orderBy(asc(generationJobs.batchRow));
+
+  const progress: BatchProgress = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const job of jobs) progress[job.status]++;
+
+  return {
+    ...batch,
+    progress,
+    rows: jobs.map((job) => ({
+      jobId: job.id,
+      row: job.batchRow ?? 0,
+      title: (job.request as GenerateRequest).title,
+      status: job.status,
+      error: job.error,
+      articleId: job.articleId,
+      attempts: job.attempts,
+    })),
+  };
+}
+
+// Pausing stops the worker from starting more rows; rows already running still finish. Retrying
+// queues the failed rows again with fresh attempts. Their slots were released when they failed,
+// so each gets a new one and the retry throws GenerationLimitError when the quota has no room.
+export async function updateGenerationBatch(userId: string, id: string, action: GenerationBatchAction) {
+  const failed =
+    action === "retry"
+      ? await db
+          .select({ id: generationJobs.id })
+          .from(generationJobs)
+          .innerJoin(generationBatches, eq(generationBatches.id, generationJobs.batchId))
+          .where(
+            and(
+              eq(generationBatches.id, id),
+              eq(generationBatches.userId, userId),
+              eq(generationJobs.status, "failed")
+            )
+          )
+          .orderBy(asc(generationJobs.batchRow))
+      : [];
+  const requestIds = failed.length > 0 ? await acquireBatchGenerationSlots(userId, failed.length) : [];
+  // Rows retried or deleted in the meantime leave their slot unused
+  const unused = new Set(requestIds);
+  const release = (ids: Iterable<string>) =>
+    Promise.all([...ids].map((requestId) => finishGenerationSlot(requestId, "cancelled")));
+
+  let batch: GenerationBatch | null;
+  try {
+    batch = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(generationBatches)
+        .set({
+          status: action === "pause" ? "paused" : "active",
+          updatedAt: new Date(),
+        })
+        .where(and(eq(generationBatches.id, id), eq(generationBatches.userId, userId)))
+        .returning();
+
+      if (!updated) return null;
+
+      for (const [index, row] of failed.entries()) {
+        const [queued] = await tx
+          .update(generationJobs)
+          .set({
+            status: "queued",
+            attempts: 0,
+            error: null,
+            generationRequestId: requestIds[index],
+            runAfter: new Date(),
+            completedAt: null,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(generationJobs.id, row.id), eq(generationJobs.status, "failed")))
+          .returning({ id: generationJobs.id });
+        if (queued) unused.delete(requestIds[index]);
+      }
+
+      return updated;
+    });
+  } catch (error) {
+    await release(requestIds);
+    throw error;
+  }
+
+  await release(unused);
+  return batch;
+}
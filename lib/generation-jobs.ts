@@ -0,0 +1,343 @@
+import { and, desc, eq, gte, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/db";
+import { generationBatches, generationJobs, type GenerationJob } from "@/db/schema/generation-jobs";
+import {
+  finalizeArticle,
+  generateArticleContent,
+  generateRequestSchema,
+  planArticle,
+  saveGeneratedArticle,
+  resolveArticleRequest,
+  type GenerateRequest,
+} from "@/lib/article-generation";
+import { getBannedPhraseList } from "@/lib/banned-phrases";
+import { finishGenerationSlot, requeueGenerationSlot, startQueuedGenerationSlot } from "@/lib/generation-quota";
+import { createUsageTracker } from "@/lib/llm-usage";
+import { createPromptRecorder } from "@/lib/prompt-recorder";
+import { PromptTemplateError } from "@/lib/prompt-template-renderer";
+import { BrandVoiceError } from "@/lib/brand-voices";
+import { generateId } from "@/lib/utils";
+import { getLLMProvider, LLMError } from "@/lib/llm";
+
+// A running job refreshes its lock this often; one whose lock is older than STALE_LOCK_MS is
+// assumed to belong to a dead worker
+const HEARTBEAT_MS = 60 * 1000;
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// How long the jobs of a user at their concurrency cap wait before the worker tries them again
+const CONCURRENCY_DELAY_MS = 30 * 1000;
+// Failed jobs stay visible in the history for a day
+const FAILED_JOB_VISIBILITY_MS = 24 * 60 * 60 * 1000;
+
+// generationRequestId is the queued slot acquireGenerationSlot reserved for the job
+export async function enqueueGenerationJob(userId: string, data: GenerateRequest, generationRequestId: string) {
+  const [job] = await db
+    .insert(generationJobs)
+    .values({
+      id: generateId(),
+      userId,
+      status: "queued",
+      request: data,
+      generationRequestId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .returning();
+
+  return job;
+}
+
+export async function getGenerationJob(userId: string, jobId: string) {
+  const [job] = await db
+    .select()
+    .from(generationJobs)
+    .where(and(eq(generationJobs.id, jobId), eq(generationJobs.userId, userId)))
+    .limit(1);
+
+  return job ?? null;
+}
+
+// Jobs worth showing in the dashboard: in flight, or failed recently. Rows of bulk imports are
+// followed on the batch instead.
+export async function listVisibleGenerationJobs(userId: string) {
+  return db
+    .select()
+    .from(generationJobs)
+    .where(
+      and(
+        eq(generationJobs.userId, userId),
+        isNull(generationJobs.batchId),
+        or(
+          inArray(generationJobs.status, ["queued", "running"]),
+          and(
+            eq(generationJobs.status, "failed"),
+            gte(generationJobs.updatedAt, new Date(Date.now() - FAILED_JOB_VISIBILITY_MS))
+          )
+        )
+      )
+    )
+    .orderBy(desc(generationJobs.createdAt))
+    .limit(50);
+}
+
+// Atomically takes the oldest runnable job; concurrent workers skip rows another worker holds.
+// Rows of paused batches stay queued until the batch is resumed.
+async function takeNextGenerationJob(): Promise<GenerationJob | null> {
+  const now = new Date();
+  const activeBatches = db
+    .select({ id: generationBatches.id })
+    .from(generationBatches)
+    .where(eq(generationBatches.status, "active"));
+
+  const next = db
+    .select({ id: generationJobs.id })
+    .from(generationJobs)
+    .where(
+      and(
+        eq(generationJobs.status, "queued"),
+        lte(generationJobs.runAfter, now),
+        or(isNull(generationJobs.batchId), inArray(generationJobs.batchId, activeBatches))
+      )
+    )
+    .orderBy(generationJobs.runAfter)
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  const [job] = await db
+    .update(generationJobs)
+    .set({
+      status: "running",
+      attempts: sql`${generationJobs.attempts} + 1`,
+      lockedAt: now,
+      startedAt: now,
+      updatedAt: now,
+    })
+    .where(inArray(generationJobs.id, next))
+    .returning();
+
+  return job ?? null;
+}
+
+// Takes the next job whose user is below their plan's concurrency cap. The queued jobs of a user
+// at the cap are pushed back, so one large batch does not block other users.
+export async function claimNextGenerationJob(): Promise<GenerationJob | null> {
+  for (;;) {
+    const job = await takeNextGenerationJob();
+    // Jobs queued before slots were stored with them have no slot to start
+    if (!job?.generationRequestId) return job;
+    if (await startQueuedGenerationSlot(job.userId, job.generationRequestId)) return job;
+
+    const now = new Date();
+    await db
+      .update(generationJobs)
+      .set({
+        status: "queued",
+        attempts: sql`${generationJobs.attempts} - 1`,
+        lockedAt: null,
+        updatedAt: now,
+      })
+      .where(eq(generationJobs.id, job.id));
+    await db
+      .update(generationJobs)
+      .set({ runAfter: new Date(now.getTime() + CONCURRENCY_DELAY_MS) })
+      .where(
+        and(
+          eq(generationJobs.userId, job.userId),
+          eq(generationJobs.status, "queued"),
+          lte(generationJobs.runAfter, now)
+        )
+      );
+  }
+}
+
+// Puts jobs whose worker stopped refreshing the lock back in the queue, or fails them once they
+// have used up their attempts
+export async function recoverStaleGenerationJobs() {
+  const recovered = await db
+    .update(generationJobs)
+    .set({
+      status: sql`CASE WHEN ${generationJobs.attempts} >= ${generationJobs.maxAttempts} THEN 'failed' ELSE 'queued' END`,
+      lockedAt: null,
+      error: "Worker stopped before the job finished",
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(generationJobs.status, "running"),
+        lt(generationJobs.lockedAt, new Date(Date.now() - STALE_LOCK_MS))
+      )
+    )
+    .returning({
+      id: generationJobs.id,
+      status: generationJobs.status,
+      generationRequestId: generationJobs.generationRequestId,
+    });
+
+  for (const job of recovered) {
+    if (!job.generationRequestId) continue;
+    if (job.status === "failed") await finishGenerationSlot(job.generationRequestId, "failed");
+    else await requeueGenerationSlot(job.generationRequestId);
+  }
+
+  if (recovered.length > 0) {
+    console.log(`Recovered ${recovered.length} stale generation jobs`);
+  }
+}
+
+// Thrown when a job was recovered and claimed again while this run was still going
+class GenerationJobLostError extends Error {
+  constructor(jobId: string) {
+    super(`Generation job ${jobId} was taken over by another worker`);
+    this.name = "GenerationJobLostError";
+  }
+}
+
+// Expects a job returned by claimNextGenerationJob, whose attempts already count this run
+export async function processGenerationJob(job: GenerationJob) {
+  const { attempts } = job;
+  // This run still holds the job; false once it was recovered and claimed again
+  const owned = and(
+    eq(generationJobs.id, job.id),
+    eq(generationJobs.status, "running"),
+    eq(generationJobs.attempts, attempts)
+  );
+
+  // Section-by-section generation with retries can outlast STALE_LOCK_MS, so the lock is kept fresh
+  const heartbeat = setInterval(() => {
+    db.update(generationJobs)
+      .set({ lockedAt: new Date() })
+      .where(owned)
+      .catch((error) => console.error(`Failed to refresh the lock of generation job ${job.id}:`, error));
+  }, HEARTBEAT_MS);
+
+  try {
+    // Parsed again so an option or model removed since the job was queued fails it for good
+    const request = await resolveArticleRequest(job.userId, generateRequestSchema.parse(job.request));
+    const usage = createUsageTracker(getLLMProvider(request.generation?.model), job.userId);
+    // The prompts sent are saved with the article
+    const prompts = createPromptRecorder(usage.provider);
+    const provider = prompts.provider;
+    const data = await planArticle(request, provider);
+    const { content, finishReason } = await generateArticleContent(data, provider);
+
+    if (!content) {
+      throw new Error("No content generated");
+    }
+    if (finishReason !== "stop") {
+      throw new Error(`Article generation did not finish (${finishReason})`);
+    }
+
+    const finalized = await finalizeArticle(data, content, provider, {
+      bannedPhrases: await getBannedPhraseList(job.userId),
+    });
+
+    // The article and the job outcome are written together. The article is rolled back when the
+    // job was recovered meanwhile, so the run that holds it now saves the only copy.
+    const article = await db.transaction(async (tx) => {
+      const saved = await saveGeneratedArticle(
+        job.userId,
+        data,
+        { ...finalized, promptRecord: prompts.getRecord() },
+        tx
+      );
+      await usage.assignArticle(saved.id, tx);
+
+      const [finished] = await tx
+        .update(generationJobs)
+        .set({
+          status: "succeeded",
+          articleId: saved.id,
+          error: null,
+          lockedAt: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(owned)
+        .returning({ id: generationJobs.id });
+
+      if (!finished) throw new GenerationJobLostError(job.id);
+      return saved;
+    });
+    if (job.generationRequestId) await finishGenerationSlot(job.generationRequestId, "succeeded");
+
+    console.log(`Generation job ${job.id} saved article ${article.id}`);
+  } catch (error) {
+    if (error instanceof GenerationJobLostError) {
+      console.error(error.message);
+      return;
+    }
+
+    const message =
+      error instanceof LLMError
+        ? error.userMessage
+        : error instanceof z.ZodError
+          ? error.issues.map((issue) => issue.message).join("; ")
+          : error instanceof Error
+            ? error.message
+            : "Unknown error";
+    // Content policy, context length, configuration, template and brand voice errors, and settings
+    // whose option was removed from the registry, fail the same way on every attempt
+    const permanent =
+      error instanceof z.ZodError ||
+      error instanceof PromptTemplateError ||
+      error instanceof BrandVoiceError ||
+      (error instanceof LLMError && !error.retryable && error.kind !== "timeout" && error.kind !== "circuit_open");
+    const exhausted = permanent || attempts >= job.maxAttempts;
+
+    console.error(`Generation job ${job.id} failed (attempt ${attempts}/${job.maxAttempts}):`, error);
+
+    const [updated] = await db
+      .update(generationJobs)
+      .set({
+        status: exhausted ? "failed" : "queued",
+        error: message,
+        lockedAt: null,
+        runAfter: exhausted
+          ? job.runAfter
+          : new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+        completedAt: exhausted ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(owned)
+      .returning({ id: generationJobs.id });
+
+    // A failed job no longer counts against the article quota
+    if (updated && job.generationRequestId) {
+      if (exhausted) await finishGenerationSlot(job.generationRequestId, "failed");
+      else await requeueGenerationSlot(job.generationRequestId);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+interface WorkerOptions {
+  pollIntervalMs?: number;
+  signal?: AbortSignal;
+}
+
+// Polls the queue until the signal aborts; each iteration handles at most one job
+export async function runGenerationWorker({ pollIntervalMs = 2000, signal }: WorkerOptions = {}) {
+  let lastRecovery = 0;
+
+  while (!signal?.aborted) {
+    try {
+      if (Date.now() - lastRecovery > STALE_LOCK_MS / 2) {
+        await recoverStaleGenerationJobs();
+        lastRecovery = Date.now();
+      }
+
+      const job = await claimNextGenerationJob();
+
+      if (job) {
+        await processGenerationJob(job);
+        continue;
+      }
+    } catch (error) {
+      console.error("Generation worker error:", error);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+}
@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+// Model and sampling parameters a user can pick per generation. Client-safe: the form's
+// "Advanced" section and the server share the defaults and limits. Which models may be picked,
+// and with how many tokens per call, is decided by the server allowlist (lib/llm/models.ts).
+
+export const DEFAULT_SAMPLING = {
+  temperature: 0.7, // Balance between creativity and consistency
+  topP: 0.9,
+  frequencyPenalty: 0.1,
+  presencePenalty: 0.1,
+};
+
+export type SamplingParams = typeof DEFAULT_SAMPLING;
+
+export const SAMPLING_LIMITS: { [param in keyof SamplingParams]: { label: string; description: string; min: number; max: number; step: number } } = {
+  temperature: { label: "Creativity (temperature)", description: "Higher values give more varied, less predictable writing", min: 0, max: 1.5, step: 0.05 },
+  topP: { label: "Top P", description: "Lower values keep word choice to the most likely options", min: 0.1, max: 1, step: 0.05 },
+  frequencyPenalty: { label: "Frequency penalty", description: "Discourages repeating the same words", min: 0, max: 1, step: 0.05 },
+  presencePenalty: { label: "Presence penalty", description: "Encourages moving on to new topics", min: 0, max: 1, step: 0.05 },
+};
+
+const samplingParam = (param: keyof SamplingParams) =>
+  z.number().min(SAMPLING_LIMITS[param].min).max(SAMPLING_LIMITS[param].max);
+
+export const generationParamsSchema = z.object({
+  // Null uses the model the server is configured with
+  model: z.string().min(1).max(100).nullish(),
+  temperature: samplingParam("temperature"),
+  topP: samplingParam("topP"),
+  frequencyPenalty: samplingParam("frequencyPenalty"),
+  presencePenalty: samplingParam("presencePenalty"),
+});
+
+export type GenerationParams = z.infer<typeof generationParamsSchema>;
+
+// A model on the allowlist, as served by /api/models
+export type ModelOption = {
+  id: string;
+  label: string;
+  // Most tokens one call may ask for; null when the model is not capped
+  maxTokens: number | null;
+};
+
+// Sampling for an article call; maxTokens is the call's own budget, capped at the model's limit
+export function getSamplingParams(
+  data: { generation?: GenerationParams | null; tokenLimit?: number | null },
+  maxTokens: number
+): SamplingParams & { maxTokens: number } {
+  const { temperature, topP, frequencyPenalty, presencePenalty } = data.generation ?? DEFAULT_SAMPLING;
+
+  return {
+    temperature,
+    topP,
+    frequencyPenalty,
+    presencePenalty,
+    maxTokens: data.tokenLimit ? Math.min(maxTokens, data.tokenLimit) : maxTokens,
+  };
+}
@@ -0,0 +1,347 @@
+import { and, eq, gte, notInArray, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { generationRequests, userPlans, type GenerationRequestStatus } from "@/db/schema/generation-quotas";
+import { llmUsage } from "@/db/schema/llm-usage";
+import { generateId } from "@/lib/utils";
+
+// null means unlimited
+export type GenerationPlan = {
+  articlesPerDay: number | null;
+  articlesPerMonth: number | null;
+  tokensPerDay: number | null;
+  tokensPerMonth: number | null;
+  // Sliding-window rate limit on generation requests
+  requestsPerWindow: number | null;
+  windowSeconds: number;
+  maxConcurrent: number | null;
+};
+
+export type GenerationLimitCode =
+  | "rate_limited"
+  | "too_many_concurrent"
+  | "daily_article_quota"
+  | "monthly_article_quota"
+  | "daily_token_quota"
+  | "monthly_token_quota";
+
+export type QuotaStatus = {
+  plan: string;
+  limits: GenerationPlan;
+  used: {
+    articlesToday: number;
+    articlesThisMonth: number;
+    tokensToday: number;
+    tokensThisMonth: number;
+    inFlight: number;
+  };
+  // null where the plan has no limit
+  remaining: {
+    articlesToday: number | null;
+    articlesThisMonth: number | null;
+    tokensToday: number | null;
+    tokensThisMonth: number | null;
+  };
+};
+
+const DEFAULT_PLANS: { [plan: string]: GenerationPlan } = {
+  free: {
+    articlesPerDay: 5,
+    articlesPerMonth: 50,
+    tokensPerDay: 100_000,
+    tokensPerMonth: 1_000_000,
+    requestsPerWindow: 3,
+    windowSeconds: 60,
+    maxConcurrent: 1,
+  },
+  pro: {
+    articlesPerDay: 50,
+    articlesPerMonth: 1000,
+    tokensPerDay: 2_000_000,
+    tokensPerMonth: 30_000_000,
+    requestsPerWindow: 10,
+    windowSeconds: 60,
+    maxConcurrent: 3,
+  },
+  unlimited: {
+    articlesPerDay: null,
+    articlesPerMonth: null,
+    tokensPerDay: null,
+    tokensPerMonth: null,
+    requestsPerWindow: null,
+    windowSeconds: 60,
+    maxConcurrent: null,
+  },
+};
+
+// A running request older than this belongs to a crashed process and no longer counts as in flight
+const STALE_REQUEST_MS = 15 * 60 * 1000;
+const CONCURRENCY_RETRY_SECONDS = 30;
+
+export class GenerationLimitError extends Error {
+  constructor(
+    message: string,
+    public code: GenerationLimitCode,
+    // Seconds until a new request can succeed
+    public retryAfter: number
+  ) {
+    super(message);
+    this.name = "GenerationLimitError";
+  }
+}
+
+// GENERATION_PLANS overrides or adds plans, e.g. {"free": {"articlesPerDay": 10}}
+function loadPlans(): { [plan: string]: GenerationPlan } {
+  if (!process.env.GENERATION_PLANS) return DEFAULT_PLANS;
+
+  try {
+    const overrides: { [plan: string]: Partial<GenerationPlan> } = JSON.parse(process.env.GENERATION_PLANS);
+    const plans = { ...DEFAULT_PLANS };
+    for (const [name, plan] of Object.entries(overrides)) {
+      plans[name] = { ...(DEFAULT_PLANS[name] ?? DEFAULT_PLANS.free), ...plan };
+    }
+    return plans;
+  } catch {
+    console.error("GENERATION_PLANS is not valid JSON; using the default plans");
+    return DEFAULT_PLANS;
+  }
+}
+
+function getDefaultPlanName(): string {
+  return process.env.DEFAULT_PLAN || "free";
+}
+
+function startOfDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} seconds`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} minutes`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.ceil((seconds % 3600) / 60);
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+}
+
+function remaining(limit: number | null, used: number): number | null {
+  return limit === null ? null : Math.max(0, limit - used);
+}
+
+export async function getQuotaStatus(userId: string, executor: Pick<typeof db, "select"> = db): Promise<QuotaStatus> {
+  const now = new Date();
+  const dayStart = startOfDay(now);
+  const monthStart = startOfMonth(now);
+  const plans = loadPlans();
+
+  const [assigned] = await executor
+    .select({ plan: userPlans.plan })
+    .from(userPlans)
+    .where(eq(userPlans.userId, userId))
+    .limit(1);
+  const planName = assigned && plans[assigned.plan] ? assigned.plan : getDefaultPlanName();
+  const limits = plans[planName] ?? DEFAULT_PLANS.free;
+
+  // Failed and cancelled requests produced no article, so they do not count against the article quotas
+  const produced = notInArray(generationRequests.status, ["failed", "cancelled"]);
+  const [requests] = await executor
+    .select({
+      articlesToday: sql<number>`count(*) filter (where ${and(produced, gte(generationRequests.createdAt, dayStart))})::int`,
+      articlesThisMonth: sql<number>`count(*) filter (where ${produced})::int`,
+      inFlight: sql<number>`count(*) filter (where ${and(eq(generationRequests.status, "running"), gte(generationRequests.startedAt, new Date(now.getTime() - STALE_REQUEST_MS)))})::int`,
+    })
+    .from(generationRequests)
+    .where(and(eq(generationRequests.userId, userId), gte(generationRequests.createdAt, monthStart)));
+
+  const [tokens] = await executor
+    .select({
+      tokensToday: sql<number>`coalesce(sum(${llmUsage.promptTokens} + ${llmUsage.completionTokens}) filter (where ${gte(llmUsage.createdAt, dayStart)}), 0)::int`,
+      tokensThisMonth: sql<number>`coalesce(sum(${llmUsage.promptTokens} + ${llmUsage.completionTokens}), 0)::int`,
+    })
+    .from(llmUsage)
+    .where(and(eq(llmUsage.userId, userId), gte(llmUsage.createdAt, monthStart)));
+
+  const used = { ...requests, ...tokens };
+
+  return {
+    plan: planName,
+    limits,
+    used,
+    remaining: {
+      articlesToday: remaining(limits.articlesPerDay, used.articlesToday),
+      articlesThisMonth: remaining(limits.articlesPerMonth, used.articlesThisMonth),
+      tokensToday: remaining(limits.tokensPerDay, used.tokensToday),
+      tokensThisMonth: remaining(limits.tokensPerMonth, used.tokensThisMonth),
+    },
+  };
+}
+
+// Throws GenerationLimitError when the user is over any limit of their plan
+async function assertWithinLimits(
+  userId: string,
+  status: QuotaStatus,
+  checkConcurrency: boolean,
+  articles: number,
+  executor: Pick<typeof db, "select">
+) {
+  const now = new Date();
+  const { limits, remaining: left } = status;
+  const nextDay = new Date(startOfDay(now).getTime() + 24 * 60 * 60 * 1000);
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  if (limits.requestsPerWindow !== null) {
+    const windowStart = new Date(now.getTime() - limits.windowSeconds * 1000);
+    // The rows a bulk import reserves share a reservation and count as one request
+    const [recent] = await executor
+      .select({
+        count: sql<number>`count(distinct coalesce(${generationRequests.reservationId}, ${generationRequests.id}))::int`,
+        oldest: sql<Date | null>`min(${generationRequests.createdAt})`.mapWith(generationRequests.createdAt),
+      })
+      .from(generationRequests)
+      .where(and(eq(generationRequests.userId, userId), gte(generationRequests.createdAt, windowStart)));
+
+    if (recent.count >= limits.requestsPerWindow) {
+      // The window frees up when its oldest request slides out
+      const oldest = recent.oldest ?? now;
+      const retryAfter = secondsUntil(new Date(oldest.getTime() + limits.windowSeconds * 1000), now);
+      throw new GenerationLimitError(
+        `Too many generation requests. Try again in ${formatWait(retryAfter)}.`,
+        "rate_limited",
+        retryAfter
+      );
+    }
+  }
+
+  if (checkConcurrency && limits.maxConcurrent !== null && status.used.inFlight >= limits.maxConcurrent) {
+    throw new GenerationLimitError(
+      `You already have ${status.used.inFlight} ${status.used.inFlight === 1 ? "article" : "articles"} generating. Wait for ${status.used.inFlight === 1 ? "it" : "one"} to finish and try again.`,
+      "too_many_concurrent",
+      CONCURRENCY_RETRY_SECONDS
+    );
+  }
+
+  // A batch only starts when the article quotas have room for all of its rows
+  const articleQuotas: [number | null, GenerationLimitCode, string, Date][] = [
+    [left.articlesToday, "daily_article_quota", "today", nextDay],
+    [left.articlesThisMonth, "monthly_article_quota", "this month", nextMonth],
+  ];
+  for (const [quotaLeft, code, period, resetsAt] of articleQuotas) {
+    if (quotaLeft !== null && quotaLeft > 0 && quotaLeft < articles) {
+      throw new GenerationLimitError(
+        `Only ${quotaLeft} more ${quotaLeft === 1 ? "article" : "articles"} can be generated ${period}, but this batch has ${articles}.`,
+        code,
+        secondsUntil(resetsAt, now)
+      );
+    }
+  }
+
+  const quotas: [number | null, GenerationLimitCode, string, Date][] = [
+    [left.articlesToday, "daily_article_quota", `Daily limit of ${limits.articlesPerDay} articles reached`, nextDay],
+    [left.articlesThisMonth, "monthly_article_quota", `Monthly limit of ${limits.articlesPerMonth} articles reached`, nextMonth],
+    [left.tokensToday, "daily_token_quota", "Daily token budget used up", nextDay],
+    [left.tokensThisMonth, "monthly_token_quota", "Monthly token budget used up", nextMonth],
+  ];
+  for (const [quotaLeft, code, message, resetsAt] of quotas) {
+    if (quotaLeft !== null && quotaLeft <= 0) {
+      const retryAfter = secondsUntil(resetsAt, now);
+      throw new GenerationLimitError(`${message}. Try again in ${formatWait(retryAfter)}.`, code, retryAfter);
+    }
+  }
+}
+
+// Requests are serialised per user with an advisory lock so parallel calls cannot slip past the
+// limits together
+async function lockUserRequests(tx: Pick<typeof db, "execute">, userId: string) {
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`generation:${userId}`}))`);
+}
+
+async function reserveGenerationSlots(userId: string, queued: boolean, articles: number): Promise<string[]> {
+  return db.transaction(async (tx) => {
+    await lockUserRequests(tx, userId);
+
+    const status = await getQuotaStatus(userId, tx);
+    await assertWithinLimits(userId, status, !queued, articles, tx);
+
+    const now = new Date();
+    const reservationId = generateId();
+    const requests = await tx
+      .insert(generationRequests)
+      .values(
+        Array.from({ length: articles }, () => ({
+          id: generateId(),
+          userId,
+          status: queued ? ("queued" as const) : ("running" as const),
+          reservationId,
+          createdAt: now,
+          startedAt: queued ? null : now,
+        }))
+      )
+      .returning({ id: generationRequests.id });
+
+    return requests.map((request) => request.id);
+  });
+}
+
+// Checks the user's plan and records the request. Queued requests are run by the background
+// worker, which applies the concurrency cap when it starts them with startQueuedGenerationSlot.
+export async function acquireGenerationSlot(
+  userId: string,
+  { queued = false }: { queued?: boolean } = {}
+): Promise<string> {
+  const [requestId] = await reserveGenerationSlots(userId, queued, 1);
+  return requestId;
+}
+
+// Reserves one queued request per row of a bulk import, in row order. The rows are checked
+// against the rate limit once.
+export async function acquireBatchGenerationSlots(userId: string, articles: number): Promise<string[]> {
+  return reserveGenerationSlots(userId, true, articles);
+}
+
+// Moves a queued request to running unless the user already has as many requests running as
+// their plan allows; returns false and leaves it queued in that case
+export async function startQueuedGenerationSlot(userId: string, requestId: string): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    await lockUserRequests(tx, userId);
+
+    const { limits, used } = await getQuotaStatus(userId, tx);
+    if (limits.maxConcurrent !== null && used.inFlight >= limits.maxConcurrent) return false;
+
+    await tx
+      .update(generationRequests)
+      .set({ status: "running", startedAt: new Date() })
+      .where(eq(generationRequests.id, requestId));
+    return true;
+  });
+}
+
+// Puts a started request back in the queue when its job will be retried, so the wait in between
+// does not count as in flight
+export async function requeueGenerationSlot(requestId: string) {
+  try {
+    await db
+      .update(generationRequests)
+      .set({ status: "queued", startedAt: null })
+      .where(eq(generationRequests.id, requestId));
+  } catch (error) {
+    console.error("Failed to requeue generation slot:", error);
+  }
+}
+
+export async function finishGenerationSlot(requestId: string, status: Extract<GenerationRequestStatus, "succeeded" | "failed" | "cancelled">) {
+  try {
+    await db
+      .update(generationRequests)
+      .set({ status, finishedAt: new Date() })
+      .where(eq(generationRequests.id, requestId));
+  } catch (error) {
+    // A slot left running expires on its own after STALE_REQUEST_MS
+    console.error("Failed to release generation slot:", error);
+  }
+}
@@ -0,0 +1,194 @@
+import { createHash } from "crypto";
+import { and, eq, lt } from "drizzle-orm";
+import { db } from "@/db";
+import { idempotencyKeys } from "@/db/schema/idempotency-keys";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// How long a finished request can be replayed
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+// A running request refreshes its key this often, so generations of any length keep it; an
+// in-progress key not refreshed for STALE_KEY_MS belongs to a crashed process and can be claimed again
+const HEARTBEAT_MS = 60 * 1000;
+const STALE_KEY_MS = 5 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+export type IdempotencyErrorCode = "invalid_idempotency_key" | "idempotency_key_in_use" | "idempotency_key_reused";
+
+// The original response of a request that already completed under the same key
+export type IdempotentReplay = {
+  statusCode: number;
+  response: unknown;
+};
+
+export class IdempotencyError extends Error {
+  constructor(
+    message: string,
+    public code: IdempotencyErrorCode,
+    public status: number
+  ) {
+    super(message);
+    this.name = "IdempotencyError";
+  }
+}
+
+// Reads the Idempotency-Key header; requests without one are not deduplicated
+export function getIdempotencyKey(headers: Headers): string | null {
+  const key = headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+  if (!key) return null;
+
+  if (key.length > MAX_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) {
+    throw new IdempotencyError(
+      `${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} printable ASCII characters.`,
+      "invalid_idempotency_key",
+      400
+    );
+  }
+  return key;
+}
+
+function fingerprint(scope: string, body: unknown): string {
+  return createHash("sha256").update(JSON.stringify({ scope, body })).digest("hex");
+}
+
+// Heartbeats of the keys this process holds, stopped when the key is completed or failed
+const heartbeats = new Map<string, ReturnType<typeof setInterval>>();
+
+function holdKey(userId: string, key: string) {
+  const id = `${userId}:${key}`;
+  clearInterval(heartbeats.get(id));
+  heartbeats.set(
+    id,
+    setInterval(() => {
+      db.update(idempotencyKeys)
+        .set({ updatedAt: new Date() })
+        .where(
+          and(
+            eq(idempotencyKeys.userId, userId),
+            eq(idempotencyKeys.key, key),
+            eq(idempotencyKeys.status, "in_progress")
+          )
+        )
+        .catch((error) => console.error("Failed to refresh idempotency key:", error));
+    }, HEARTBEAT_MS)
+  );
+}
+
+function releaseKey(userId: string, key: string) {
+  const id = `${userId}:${key}`;
+  clearInterval(heartbeats.get(id));
+  heartbeats.delete(id);
+}
+
+// Claims the key for this request. Returns null when the caller should go ahead and
+// generate, or the stored response when the same request already completed. Throws
+// IdempotencyError while the original request is still running or when the key was
+// used for a different request. Keys whose request failed can be claimed again.
+export async function claimIdempotencyKey(
+  userId: string,
+  key: string,
+  scope: string,
+  body: unknown
+): Promise<IdempotentReplay | null> {
+  const now = new Date();
+  const requestFingerprint = fingerprint(scope, body);
+
+  const replay = await db.transaction(async (tx) => {
+    // Expired keys are dropped so they can be used again
+    await tx
+      .delete(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), lt(idempotencyKeys.expiresAt, now)));
+
+    const [claimed] = await tx
+      .insert(idempotencyKeys)
+      .values({
+        userId,
+        key,
+        fingerprint: requestFingerprint,
+        status: "in_progress",
+        createdAt: now,
+        updatedAt: now,
+        expiresAt: new Date(now.getTime() + RETENTION_MS),
+      })
+      .onConflictDoNothing()
+      .returning({ key: idempotencyKeys.key });
+
+    if (claimed) return null;
+
+    // Locked so two retries cannot both take over a failed key
+    const [existing] = await tx
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)))
+      .for("update");
+
+    if (!existing || existing.fingerprint !== requestFingerprint) {
+      throw new IdempotencyError(
+        "This idempotency key was already used for a different request.",
+        "idempotency_key_reused",
+        422
+      );
+    }
+
+    if (existing.status === "completed") {
+      return { statusCode: existing.statusCode ?? 200, response: existing.response };
+    }
+
+    const stale = existing.updatedAt.getTime() < now.getTime() - STALE_KEY_MS;
+    if (existing.status === "in_progress" && !stale) {
+      throw new IdempotencyError(
+        "This article is already being generated. It will appear in your history when it is done.",
+        "idempotency_key_in_use",
+        409
+      );
+    }
+
+    await tx
+      .update(idempotencyKeys)
+      .set({
+        status: "in_progress",
+        statusCode: null,
+        response: null,
+        updatedAt: now,
+        expiresAt: new Date(now.getTime() + RETENTION_MS),
+      })
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+
+    return null;
+  });
+
+  // The key is ours until completeIdempotencyKey or failIdempotencyKey
+  if (!replay) holdKey(userId, key);
+  return replay;
+}
+
+// Stores the response so repeated requests with the key get it back
+export async function completeIdempotencyKey(
+  userId: string,
+  key: string,
+  { statusCode, response, articleId = null }: { statusCode: number; response: unknown; articleId?: string | null }
+) {
+  releaseKey(userId, key);
+  try {
+    await db
+      .update(idempotencyKeys)
+      .set({ status: "completed", statusCode, response, articleId, updatedAt: new Date() })
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+  } catch (error) {
+    // The key turns stale and claimable again after STALE_KEY_MS
+    console.error("Failed to store idempotent response:", error);
+  }
+}
+
+// Lets a retry with the same key generate again
+export async function failIdempotencyKey(userId: string, key: string) {
+  releaseKey(userId, key);
+  try {
+    await db
+      .update(idempotencyKeys)
+      .set({ status: "failed", updatedAt: new Date() })
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+  } catch (error) {
+    console.error("Failed to release idempotency key:", error);
+  }
+}
@@ -0,0 +1,178 @@
+import { z } from "zod";
+import type { StructuredArticle } from "@/lib/structured-article";
+
+// Rewrites of a passage selected in the article view. Client-safe: the editor offers the actions
+// and shows the diff, the server writes the suggestion and saves it once accepted.
+
+export const INLINE_EDIT_ACTIONS = [
+  { id: "expand", label: "Expand", instruction: "Expand the passage with more detail and depth, to about twice its length." },
+  { id: "shorten", label: "Shorten", instruction: "Shorten the passage to about half its length, keeping the key points." },
+  { id: "simplify", label: "Simplify", instruction: "Rewrite the passage in simpler words and shorter sentences without changing its meaning." },
+  { id: "persuasive", label: "Make more persuasive", instruction: "Make the passage more persuasive and compelling, without exaggerating or inventing facts." },
+  { id: "example", label: "Add an example", instruction: "Keep the passage and add a short, concrete example that illustrates it." },
+  { id: "custom", label: "Custom", instruction: null },
+] as const;
+
+export type InlineEditAction = (typeof INLINE_EDIT_ACTIONS)[number]["id"];
+
+const actionSchema = z.enum(["expand", "shorten", "simplify", "persuasive", "example", "custom"]);
+
+export const MIN_SELECTION_LENGTH = 10;
+export const MAX_SELECTION_LENGTH = 3000;
+
+const selectionSchema = z.string().trim().min(MIN_SELECTION_LENGTH, "Select a longer passage").max(MAX_SELECTION_LENGTH, "Select a shorter passage");
+
+const instructionSchema = z.string().trim().max(500).nullish();
+
+function hasInstruction(input: { action: InlineEditAction; instruction?: string | null }): boolean {
+  return input.action !== "custom" || !!input.instruction;
+}
+
+const missingInstruction = { message: "Describe the change you want", path: ["instruction"] };
+
+export const inlineEditSchema = z
+  .object({
+    // The selected text as shown in the article view
+    text: selectionSchema,
+    action: actionSchema,
+    instruction: instructionSchema,
+  })
+  .refine(hasInstruction, missingInstruction);
+
+export type InlineEditInput = z.infer<typeof inlineEditSchema>;
+
+// The action and instruction come back with the replacement so the prompt can be recorded
+export const acceptInlineEditSchema = z
+  .object({
+    text: selectionSchema,
+    replacement: z.string().trim().min(1).max(MAX_SELECTION_LENGTH * 3),
+    action: actionSchema,
+    instruction: instructionSchema,
+  })
+  .refine(hasInstruction, missingInstruction);
+
+export type AcceptInlineEditInput = z.infer<typeof acceptInlineEditSchema>;
+
+export type InlineEditSuggestion = {
+  text: string;
+  replacement: string;
+  action: InlineEditAction;
+  instruction: string | null;
+};
+
+export function getInlineEditAction(id: InlineEditAction) {
+  return INLINE_EDIT_ACTIONS.find((action) => action.id === id)!;
+}
+
+// Where a selection is in the article: the body or one FAQ answer, with the matched span
+export type SelectionLocation = {
+  field: "body" | { faq: number };
+  start: number;
+  end: number;
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// The view drops markdown line prefixes and joins lines differently, so whitespace matches loosely
+function selectionPattern(text: string): RegExp {
+  return new RegExp(escapeRegExp(text.trim()).replace(/\s+/g, "\\s+"), "g");
+}
+
+// Headings are not rewritten inline, and a span that starts a new list item would lose its marker
+function isEditableSpan(value: string, start: number, end: number): boolean {
+  const lines = value.slice(value.lastIndexOf("\n", start - 1) + 1, end);
+  return !/(^|\n)#{1,6}\s/.test(lines) && !/\n\s*([-*]|\d+\.)\s/.test(value.slice(start, end));
+}
+
+// Finds the one place the selection comes from. Returns "missing" when it spans headings, list
+// markers or the H1, and "ambiguous" when the same text appears more than once.
+export function locateSelection(
+  structured: StructuredArticle,
+  text: string
+): SelectionLocation | "missing" | "ambiguous" {
+  const pattern = selectionPattern(text);
+  const fields: { field: SelectionLocation["field"]; value: string }[] = [
+    { field: "body", value: structured.body },
+    ...structured.faq.map((item, index) => ({ field: { faq: index }, value: item.answer })),
+  ];
+
+  const found: SelectionLocation[] = [];
+  for (const { field, value } of fields) {
+    for (const match of value.matchAll(pattern)) {
+      if (!isEditableSpan(value, match.index, match.index + match[0].length)) continue;
+      found.push({ field, start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  if (found.length === 0) return "missing";
+  if (found.length > 1) return "ambiguous";
+  return found[0];
+}
+
+export function getLocatedText(structured: StructuredArticle, location: SelectionLocation): string {
+  return location.field === "body" ? structured.body : structured.faq[location.field.faq].answer;
+}
+
+export function replaceSelection(
+  structured: StructuredArticle,
+  location: SelectionLocation,
+  replacement: string
+): StructuredArticle {
+  const value = getLocatedText(structured, location);
+  const replaced = value.slice(0, location.start) + replacement + value.slice(location.end);
+
+  if (location.field === "body") return { ...structured, body: replaced };
+  const index = location.field.faq;
+  return {
+    ...structured,
+    faq: structured.faq.map((item, position) => (position === index ? { ...item, answer: replaced } : item)),
+  };
+}
+
+export type DiffPart = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+// Word-level diff for the accept/reject view, from the longest common subsequence of the words.
+// Whitespace stays attached to the word before it.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+  const same = (i: number, j: number) => a[i].trim() === b[j].trim();
+
+  // lengths[i][j]: common words of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(i, j) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts.at(-1);
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      push("same", b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return parts;
+}
@@ -0,0 +1,139 @@
+import type { Article, ArticleSettings } from "@/db/schema/articles";
+import { finalizeEditedArticle, resolveSavedArticle, type SavedArticleContext } from "@/lib/article-generation";
+import { saveArticleRevision } from "@/lib/article-revisions";
+import { getSamplingParams } from "@/lib/generation-params";
+import {
+  getInlineEditAction,
+  getLocatedText,
+  locateSelection,
+  replaceSelection,
+  type AcceptInlineEditInput,
+  type InlineEditInput,
+  type InlineEditSuggestion,
+  type SelectionLocation,
+} from "@/lib/inline-edit-actions";
+import { getLLMProvider, type LLMGenerateParams } from "@/lib/llm";
+import { createUsageTracker } from "@/lib/llm-usage";
+import { ARTICLE_SYSTEM_PROMPT, buildInlineEditPrompt, PROMPT_TEMPLATES } from "@/lib/prompt-builder";
+import { createPromptRecorder } from "@/lib/prompt-recorder";
+import { getStructuredArticle, type StructuredArticle } from "@/lib/structured-article";
+
+const INLINE_EDIT_MAX_TOKENS = 1500;
+// Characters of surrounding text sent along with the passage
+const CONTEXT_LENGTH = 600;
+
+export class InlineEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InlineEditError";
+  }
+}
+
+function findSelection(structured: StructuredArticle, text: string): SelectionLocation {
+  const location = locateSelection(structured, text);
+  if (location === "missing") {
+    throw new InlineEditError(
+      "The selected text is not in the article anymore, or spans a heading or list marker. Select text within the article body or an FAQ answer."
+    );
+  }
+  if (location === "ambiguous") {
+    throw new InlineEditError("The selected text appears more than once in the article. Select a longer passage.");
+  }
+  return location;
+}
+
+// Models sometimes wrap the passage in quotes or a code fence despite the instructions
+function cleanReplacement(output: string): string {
+  return output
+    .trim()
+    .replace(/^```[a-z]*\n([\s\S]*?)\n```$/, "$1")
+    .replace(/^"([\s\S]*)"$/, "$1")
+    .trim();
+}
+
+// The prompt for the selected passage, with the text around it as context
+function buildInlineEditParams(
+  data: SavedArticleContext,
+  structured: StructuredArticle,
+  location: SelectionLocation,
+  input: InlineEditInput
+): LLMGenerateParams {
+  const value = getLocatedText(structured, location);
+
+  return {
+    messages: [
+      { role: "system", content: ARTICLE_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: buildInlineEditPrompt(data, {
+          passage: value.slice(location.start, location.end),
+          before: value.slice(Math.max(0, location.start - CONTEXT_LENGTH), location.start).trim(),
+          after: value.slice(location.end, location.end + CONTEXT_LENGTH).trim(),
+          task: getInlineEditAction(input.action).instruction ?? input.instruction!,
+        }),
+      },
+    ],
+    ...getSamplingParams(data, INLINE_EDIT_MAX_TOKENS),
+    promptTemplate: PROMPT_TEMPLATES.inlineEdit,
+  };
+}
+
+// Writes a suggestion for the selected text with the article's saved settings. Nothing is saved;
+// the call is still counted against the article's usage. Throws InlineEditError when the
+// selection cannot be found or the model returned nothing.
+export async function suggestInlineEdit(
+  userId: string,
+  article: Article & { settings: ArticleSettings },
+  input: InlineEditInput,
+  signal?: AbortSignal
+): Promise<InlineEditSuggestion> {
+  const structured = getStructuredArticle(article);
+  const location = findSelection(structured, input.text);
+
+  const data = await resolveSavedArticle(article);
+  const usage = createUsageTracker(getLLMProvider(data.model), userId);
+
+  const result = await usage.provider.generate({
+    ...buildInlineEditParams(data, structured, location, input),
+    signal,
+  });
+  await usage.assignArticle(article.id);
+
+  const replacement = cleanReplacement(result.content);
+  if (!replacement || result.finishReason !== "stop") {
+    throw new InlineEditError("The AI service did not return a complete rewrite. Please try again.");
+  }
+
+  return { text: input.text, replacement, action: input.action, instruction: input.instruction ?? null };
+}
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+}
+
+// Replaces the selected text with an accepted suggestion and saves it as a new revision. Throws
+// InlineEditError when the text is gone and StaleArticleError when the article changed meanwhile.
+export async function acceptInlineEdit(
+  article: Article & { settings: ArticleSettings },
+  input: AcceptInlineEditInput
+): Promise<Article> {
+  const structured = getStructuredArticle(article);
+  const location = findSelection(structured, input.text);
+  const data = await resolveSavedArticle(article);
+  const finalized = await finalizeEditedArticle(data, replaceSelection(structured, location, input.replacement));
+
+  // The suggestion was written in an earlier request from the same text and settings, so the
+  // prompt built again here is the one that was sent
+  const prompts = createPromptRecorder(getLLMProvider(data.model));
+  prompts.recordCall(buildInlineEditParams(data, structured, location, input));
+
+  return saveArticleRevision(
+    article,
+    { ...finalized, promptRecord: prompts.getRecord() },
+    {
+      source: "inline",
+      note: `${getInlineEditAction(input.action).label}: "${truncate(input.text, 60)}"`,
+    }
+  );
+}
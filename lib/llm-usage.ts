@@ -0,0 +1,217 @@
+import { and, desc, eq, gte, inArray, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { llmUsage } from "@/db/schema/llm-usage";
+import { generateId } from "@/lib/utils";
+import {
+  calculateCost,
+  type LLMGenerateParams,
+  type LLMProvider,
+  type LLMStreamEvent,
+  type LLMUsage,
+} from "@/lib/llm";
+
+const DAILY_DAYS = 30;
+const MONTHLY_MONTHS = 12;
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  latencyMs: number;
+};
+
+export type UsagePeriod = UsageTotals & {
+  // YYYY-MM-DD for days, YYYY-MM for months
+  period: string;
+  articles: number;
+};
+
+export type UsageSummary = {
+  today: UsagePeriod;
+  thisMonth: UsagePeriod;
+  lastMonth: UsagePeriod;
+  daily: UsagePeriod[];
+  monthly: UsagePeriod[];
+};
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Used when a provider reports no usage, e.g. a stream that was cut off
+function estimateUsage(params: LLMGenerateParams, output: string): LLMUsage {
+  const promptTokens = estimateTokens(params.messages.map((message) => message.content).join("\n\n"));
+  const completionTokens = estimateTokens(output);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// Wraps a provider so every call it makes is written to llm_usage for the user. Calls are
+// recorded as they finish; assignArticle links them to the article once it has been saved.
+export function createUsageTracker(provider: LLMProvider, userId: string) {
+  const recordIds: string[] = [];
+  const pending: Promise<unknown>[] = [];
+
+  const record = (model: string, usage: LLMUsage | null, params: LLMGenerateParams, output: string, startedAt: number) => {
+    const id = generateId();
+    const tokens = usage ?? estimateUsage(params, output);
+    recordIds.push(id);
+
+    const insert = db
+      .insert(llmUsage)
+      .values({
+        id,
+        userId,
+        model,
+        promptTokens: tokens.promptTokens,
+        completionTokens: tokens.completionTokens,
+        estimated: usage === null,
+        cost: calculateCost(model, tokens),
+        latencyMs: Date.now() - startedAt,
+        createdAt: new Date(),
+      })
+      // Accounting must never cost the user their article
+      .catch((error) => console.error("Failed to record LLM usage:", error));
+    pending.push(insert);
+  };
+
+  const tracked: LLMProvider = {
+    name: provider.name,
+    model: provider.model,
+
+    async generate(params) {
+      const startedAt = Date.now();
+      const result = await provider.generate(params);
+      record(result.model, result.usage, params, result.content, startedAt);
+      return result;
+    },
+
+    async *stream(params): AsyncIterable<LLMStreamEvent> {
+      const startedAt = Date.now();
+      let output = "";
+      let recorded = false;
+
+      try {
+        for await (const event of provider.stream(params)) {
+          if (event.type === "delta") {
+            output += event.content;
+          } else {
+            record(provider.model, event.usage, params, output, startedAt);
+            recorded = true;
+          }
+          yield event;
+        }
+      } finally {
+        // Streams that fail or are abandoned still used tokens
+        if (!recorded && output) {
+          record(provider.model, null, params, output, startedAt);
+        }
+      }
+    },
+  };
+
+  return {
+    provider: tracked,
+
+    async assignArticle(articleId: string, executor: Pick<typeof db, "update"> = db) {
+      await Promise.all(pending);
+      if (recordIds.length === 0) return;
+
+      await executor
+        .update(llmUsage)
+        .set({ articleId })
+        .where(inArray(llmUsage.id, recordIds));
+    },
+
+    // Waits for outstanding inserts, for callers that never save an article
+    async flush() {
+      await Promise.all(pending);
+    },
+  };
+}
+
+const totalsSelection = {
+  calls: sql<number>`count(*)::int`,
+  promptTokens: sql<number>`coalesce(sum(${llmUsage.promptTokens}), 0)::int`,
+  completionTokens: sql<number>`coalesce(sum(${llmUsage.completionTokens}), 0)::int`,
+  cost: sql<number>`coalesce(sum(${llmUsage.cost}), 0)::float8`,
+  latencyMs: sql<number>`coalesce(sum(${llmUsage.latencyMs}), 0)::int`,
+};
+
+export async function getArticleUsage(userId: string, articleId: string) {
+  const [totals] = await db
+    .select(totalsSelection)
+    .from(llmUsage)
+    .where(and(eq(llmUsage.userId, userId), eq(llmUsage.articleId, articleId)));
+
+  const models = await db
+    .selectDistinct({ model: llmUsage.model })
+    .from(llmUsage)
+    .where(and(eq(llmUsage.userId, userId), eq(llmUsage.articleId, articleId)));
+
+  return {
+    ...totals,
+    totalTokens: totals.promptTokens + totals.completionTokens,
+    models: models.map((row) => row.model),
+  };
+}
+
+function emptyPeriod(period: string): UsagePeriod {
+  return { period, calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, latencyMs: 0, articles: 0 };
+}
+
+async function getUsageByPeriod(userId: string, unit: "day" | "month", since: Date) {
+  // Inlined rather than bound, so the select and group by expressions are identical
+  const format = sql.raw(unit === "day" ? "'YYYY-MM-DD'" : "'YYYY-MM'");
+  const period = sql<string>`to_char(${llmUsage.createdAt}, ${format})`;
+
+  const rows = await db
+    .select({
+      period,
+      ...totalsSelection,
+      articles: sql<number>`count(distinct ${llmUsage.articleId})::int`,
+    })
+    .from(llmUsage)
+    .where(and(eq(llmUsage.userId, userId), gte(llmUsage.createdAt, since)))
+    .groupBy(period)
+    .orderBy(desc(period));
+
+  return new Map(
+    rows.map((row) => [row.period, { ...row, totalTokens: row.promptTokens + row.completionTokens }])
+  );
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Daily totals for the last 30 days and monthly totals for the last 12 months, newest first
+export async function getUsageSummary(userId: string): Promise<UsageSummary> {
+  const now = new Date();
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (DAILY_DAYS - 1)));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (MONTHLY_MONTHS - 1), 1));
+
+  const [byDay, byMonth] = await Promise.all([
+    getUsageByPeriod(userId, "day", dayStart),
+    getUsageByPeriod(userId, "month", monthStart),
+  ]);
+
+  // Periods without calls are filled in so charts and tables have no gaps
+  const daily = Array.from({ length: DAILY_DAYS }, (_, index) => {
+    const day = formatDay(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - index)));
+    return byDay.get(day) ?? emptyPeriod(day);
+  });
+  const monthly = Array.from({ length: MONTHLY_MONTHS }, (_, index) => {
+    const month = formatDay(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - index, 1))).slice(0, 7);
+    return byMonth.get(month) ?? emptyPeriod(month);
+  });
+
+  return {
+    today: daily[0],
+    thisMonth: monthly[0],
+    lastMonth: monthly[1],
+    daily,
+    monthly,
+  };
+}
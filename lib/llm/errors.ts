@@ -0,0 +1,82 @@
+// Provider failures, classified so callers can decide whether to retry and what to tell the user
+
+export type LLMErrorKind =
+  | "rate_limit"
+  | "transient"
+  | "auth"
+  | "content_policy"
+  | "context_length"
+  | "invalid_request"
+  | "timeout"
+  | "circuit_open";
+
+// Error code and HTTP status returned by the API routes for each kind
+export const LLM_ERROR_DETAILS: { [kind in LLMErrorKind]: { code: string; status: number; message: string } } = {
+  rate_limit: {
+    code: "ai_rate_limited",
+    status: 429,
+    message: "The AI service is receiving too many requests. Please try again in a minute.",
+  },
+  transient: {
+    code: "ai_unavailable",
+    status: 503,
+    message: "The AI service is temporarily unavailable. Please try again.",
+  },
+  auth: {
+    code: "ai_auth_failed",
+    status: 500,
+    message: "AI service configuration error. Please contact support.",
+  },
+  content_policy: {
+    code: "ai_content_policy",
+    status: 422,
+    message: "The AI service declined this request under its content policy. Try rewording the title or keywords.",
+  },
+  context_length: {
+    code: "ai_context_length",
+    status: 422,
+    message: "The request is too long for the AI model. Try a smaller article size or fewer keywords.",
+  },
+  invalid_request: {
+    code: "ai_invalid_request",
+    status: 400,
+    message: "Invalid AI service request. Please try again.",
+  },
+  timeout: {
+    code: "ai_timeout",
+    status: 504,
+    message: "The AI service took too long to respond. Please try again.",
+  },
+  circuit_open: {
+    code: "ai_circuit_open",
+    status: 503,
+    message: "The AI service is failing repeatedly, so new requests are paused. Please try again shortly.",
+  },
+};
+
+// Worth another attempt with the same request
+const RETRYABLE_KINDS: LLMErrorKind[] = ["rate_limit", "transient"];
+
+export class LLMError extends Error {
+  code: string;
+  status: number;
+  // Safe to show to users; message keeps the provider's details for the logs
+  userMessage: string;
+
+  constructor(
+    public kind: LLMErrorKind,
+    message: string,
+    // Seconds the provider asked us to wait, when it said so
+    public retryAfter: number | null = null
+  ) {
+    super(message);
+    this.name = "LLMError";
+    this.code = LLM_ERROR_DETAILS[kind].code;
+    this.status = LLM_ERROR_DETAILS[kind].status;
+    this.userMessage = LLM_ERROR_DETAILS[kind].message;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
@@ -0,0 +1,62 @@
+import { createMockProvider } from "./mock";
+import { getConfiguredModel } from "./models";
+import { createOpenAIProvider } from "./openai";
+import { withResilience } from "./resilience";
+import type { LLMProvider } from "./types";
+
+export type * from "./types";
+export { calculateCost, getModelPrice, type ModelPrice } from "./pricing";
+export { LLMError, LLM_ERROR_DETAILS, type LLMErrorKind } from "./errors";
+export { withResilience, type ResilienceOptions } from "./resilience";
+export { findAllowedModel, getAllowedModels, getConfiguredModel } from "./models";
+
+export class LLMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMConfigurationError";
+  }
+}
+
+// Resolves the provider from the environment:
+//   LLM_PROVIDER  openai (default) | openai-compatible | mock
+//   LLM_MODEL     model name, defaults to gpt-4o-mini
+//   LLM_MODELS    other models a request may pick, with their token limits (see models.ts)
+//   LLM_BASE_URL  base URL for openai-compatible servers (Ollama, vLLM, ...)
+//   LLM_API_KEY   API key, falls back to OPENAI_API_KEY
+// Every provider is wrapped with retries, a deadline and a circuit breaker (see resilience.ts).
+// A requested model must already have been checked against the allowlist.
+export function getLLMProvider(model?: string | null): LLMProvider {
+  return withResilience(createProvider(model || getConfiguredModel()));
+}
+
+function createProvider(model: string): LLMProvider {
+  const provider = process.env.LLM_PROVIDER || "openai";
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+
+  switch (provider) {
+    case "mock":
+      return createMockProvider(model);
+
+    case "openai":
+      if (!apiKey) {
+        throw new LLMConfigurationError("OpenAI API key not configured");
+      }
+      return createOpenAIProvider({ name: "openai", model, apiKey });
+
+    case "openai-compatible":
+      if (!process.env.LLM_BASE_URL) {
+        throw new LLMConfigurationError("LLM_BASE_URL is required for the openai-compatible provider");
+      }
+      return createOpenAIProvider({
+        name: "openai-compatible",
+        model,
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: apiKey || "not-needed",
+        baseURL: process.env.LLM_BASE_URL,
+        supportsJsonSchema: false,
+      });
+
+    default:
+      throw new LLMConfigurationError(`Unknown LLM provider "${provider}"`);
+  }
+}
@@ -0,0 +1,518 @@
+import { parseArticleMarkdown } from "@/lib/structured-article";
+import { MOCK_MODEL } from "./models";
+import type { LLMGenerateParams, LLMProvider, LLMResult, LLMStreamEvent } from "./types";
+
+// Deterministic offline provider. It reads the specifications out of the article prompt and
+// writes a structurally valid markdown article, so the full generate -> save -> display flow
+// can run in CI and local development without network access.
+
+const SENTENCES = [
+  "Understanding {keyword} starts with a clear picture of what you want to achieve.",
+  "Many readers underestimate how much {keyword} affects everyday results.",
+  "A practical approach to {keyword} saves time and avoids common mistakes.",
+  "The best results with {keyword} come from small, consistent improvements.",
+  "Experts agree that {keyword} works best when it fits your specific situation.",
+  "Before changing anything, measure where you stand with {keyword} today.",
+  "Real-world examples show that {keyword} rewards patience and planning.",
+  "It helps to compare several options for {keyword} before committing to one.",
+  "Budget, time and experience all shape how you should handle {keyword}.",
+  "Keeping notes on your progress with {keyword} makes later decisions easier.",
+];
+
+const SECTION_TOPICS = [
+  "What {keyword} Really Means",
+  "Why {keyword} Matters",
+  "Getting Started with {keyword}",
+  "Common Mistakes with {keyword}",
+  "Choosing the Right Tools for {keyword}",
+  "Step-by-Step Guide to {keyword}",
+  "Advanced Tips for {keyword}",
+  "Measuring Success with {keyword}",
+  "Costs and Budgeting for {keyword}",
+  "Real Examples of {keyword}",
+  "How {keyword} Is Changing",
+  "Expert Advice on {keyword}",
+  "Frequently Overlooked Details of {keyword}",
+  "Planning Ahead for {keyword}",
+  "Comparing Approaches to {keyword}",
+  "Long-Term Strategies for {keyword}",
+];
+
+type MockOutline = {
+  h1: string;
+  sections: { heading: string; subheadings: string[] }[];
+  faq: string[];
+};
+
+type MockSpec = {
+  title: string;
+  keywords: string[];
+  minWords: number;
+  maxWords: number;
+  minH2: number;
+  maxH2: number;
+  include: string;
+  outline: MockOutline | null;
+};
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small seeded PRNG so identical prompts give identical articles
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function parseSpec(prompt: string): MockSpec {
+  const title = prompt.match(/^TITLE:\s*(.+)$/m)?.[1]?.trim() || "Untitled Article";
+  const keywords = (prompt.match(/^KEYWORDS:\s*(.+)$/m)?.[1] || title)
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+  const words = prompt.match(/Word Count:\s*(\d+)-(\d+)/);
+  const h2 = prompt.match(/H2 Headings:\s*(\d+)-(\d+)/);
+
+  return {
+    title,
+    keywords: keywords.length > 0 ? keywords : [title],
+    minWords: words ? Number(words[1]) : 600,
+    maxWords: words ? Number(words[2]) : 1200,
+    minH2: h2 ? Number(h2[1]) : 2,
+    maxH2: h2 ? Number(h2[2]) : 5,
+    include: prompt.match(/^- Include:\s*(.+)$/m)?.[1] || "",
+    outline: parseApprovedOutline(prompt),
+  };
+}
+
+// Reads the "APPROVED OUTLINE:" block written by buildArticlePrompt
+function parseApprovedOutline(prompt: string): MockOutline | null {
+  const block = prompt.split("APPROVED OUTLINE:\n")[1]?.split("\n\n")[0];
+  if (!block) return null;
+
+  const outline: MockOutline = { h1: "", sections: [], faq: [] };
+  for (const line of block.split("\n")) {
+    if (line.startsWith("# ")) outline.h1 = line.slice(2);
+    else if (line.startsWith("## ")) outline.sections.push({ heading: line.slice(3), subheadings: [] });
+    else if (line.startsWith("### ")) outline.sections.at(-1)?.subheadings.push(line.slice(4));
+    else if (line.startsWith("FAQ: ")) outline.faq.push(line.slice(5));
+  }
+
+  return outline.sections.length > 0 ? outline : null;
+}
+
+function buildOutline(prompt: string): string {
+  const spec = parseSpec(prompt);
+  const random = createRandom(hashString(prompt));
+  const sectionCount = spec.minH2 + Math.floor(random() * (spec.maxH2 - spec.minH2 + 1));
+  const withSubheadings = !prompt.includes("Do not plan any H3 subheadings");
+  const withFaq = !prompt.includes("Do not plan an FAQ section");
+
+  const sections = Array.from({ length: sectionCount }, (_, i) => {
+    const keyword = spec.keywords[i % spec.keywords.length];
+    return {
+      heading: SECTION_TOPICS[i % SECTION_TOPICS.length].replace("{keyword}", keyword),
+      subheadings: withSubheadings && i % 2 === 0 ? [`Key points about ${keyword}`] : [],
+    };
+  });
+
+  if (prompt.includes('"Key takeaways" H2 section')) {
+    sections.push({ heading: "Key Takeaways", subheadings: [] });
+  }
+  if (prompt.includes("conclusion H2 section")) {
+    sections.push({ heading: "Conclusion", subheadings: [] });
+  }
+
+  return JSON.stringify({
+    h1: spec.title,
+    sections,
+    faq: withFaq
+      ? spec.keywords.slice(0, 3).map((keyword) => `What is the best way to start with ${keyword}?`)
+      : [],
+  });
+}
+
+function buildArticle(prompt: string): string {
+  const spec = parseSpec(prompt);
+  const random = createRandom(hashString(prompt));
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const primary = spec.keywords[0];
+  const sentence = () => pick(SENTENCES).replace("{keyword}", pick(spec.keywords));
+  const paragraph = (count = 4) => Array.from({ length: count }, sentence).join(" ");
+
+  const outline = spec.outline;
+  const sectionCount = outline
+    ? outline.sections.length
+    : spec.minH2 + Math.floor(random() * (spec.maxH2 - spec.minH2 + 1));
+  const targetWords = Math.round((spec.minWords + spec.maxWords) / 2);
+  // Roughly 11 words per sentence, 4 sentences per paragraph
+  const paragraphsPerSection = Math.max(1, Math.round(targetWords / 44 / (sectionCount + 2)));
+
+  const lines: string[] = [
+    `# ${outline?.h1 || spec.title}`,
+    "",
+    `**Meta title:** ${spec.title} | ${primary} guide`,
+    "",
+    `**Meta description:** A practical guide to ${primary}: what it is, why it matters and how to get reliable results, with clear steps and expert tips.`,
+    "",
+    `${spec.title} is a question many people ask when they first look into ${primary}. ${paragraph(3)}`,
+    "",
+  ];
+
+  for (let i = 0; i < sectionCount; i++) {
+    const keyword = spec.keywords[i % spec.keywords.length];
+    const heading = outline
+      ? outline.sections[i].heading
+      : SECTION_TOPICS[i % SECTION_TOPICS.length].replace("{keyword}", keyword);
+    lines.push(`## ${heading}`, "");
+
+    for (let p = 0; p < paragraphsPerSection; p++) {
+      lines.push(paragraph(), "");
+    }
+    const subheadings = outline
+      ? outline.sections[i].subheadings
+      : spec.include.includes("H3 subheadings") ? [`Key points about ${keyword}`] : [];
+    for (const subheading of subheadings) {
+      lines.push(`### ${subheading}`, "", paragraph(3), "");
+    }
+
+    if (spec.include.includes("lists") && i % 2 === 0) {
+      lines.push(`- Define your goals for ${keyword}`, `- Compare the available options`, `- Review your results regularly`, "");
+    }
+    if (spec.include.includes("Data tables") && i === 0) {
+      lines.push(
+        "| Option | Effort | Typical result |",
+        "| --- | --- | --- |",
+        "| Basic | Low | Steady progress |",
+        "| Advanced | High | Faster results |",
+        ""
+      );
+    }
+    if (spec.include.includes("Relevant quotes") && i === 1) {
+      lines.push(`> "Getting ${keyword} right is mostly about consistency." – Industry expert`, "");
+    }
+  }
+
+  // An approved outline already lists the closing sections
+  if (!outline && spec.include.includes("Key takeaways")) {
+    lines.push(
+      "## Key Takeaways",
+      "",
+      `- ${primary} rewards a clear plan`,
+      `- Small improvements add up over time`,
+      `- Measure progress before changing course`,
+      ""
+    );
+  }
+
+  const faq = outline
+    ? outline.faq
+    : spec.include.includes("FAQ section")
+      ? spec.keywords.slice(0, 3).map((keyword) => `What is the best way to start with ${keyword}?`)
+      : [];
+  if (faq.length > 0) {
+    lines.push("## Frequently Asked Questions", "");
+    for (const question of faq) {
+      lines.push(`### ${question}`, "", paragraph(2), "");
+    }
+  }
+
+  if (!outline && spec.include.includes("Conclusion")) {
+    lines.push("## Conclusion", "", `${paragraph(3)} With these steps, ${primary} becomes far more manageable.`, "");
+  }
+
+  return lines.join("\n").trim();
+}
+
+// Writes one part of a sectioned article (see buildIntroPrompt, buildSectionPrompt, buildFaqPrompt)
+function buildPart(prompt: string): string {
+  const spec = parseSpec(prompt);
+  const random = createRandom(hashString(prompt));
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const primary = spec.keywords[0];
+  const sentence = () => pick(SENTENCES).replace("{keyword}", pick(spec.keywords));
+  const paragraph = (count = 4) => Array.from({ length: count }, sentence).join(" ");
+  const wordTarget = Number(prompt.match(/about (\d+) words/)?.[1] || 300);
+  const paragraphs = Math.max(1, Math.round(wordTarget / 44));
+
+  if (prompt.includes("INTRODUCTION TO WRITE:")) {
+    const h1 = prompt.match(/Start with the line "# (.+)"/)?.[1] || spec.title;
+    return [
+      `# ${h1}`,
+      "",
+      `**Meta title:** ${spec.title} | ${primary} guide`,
+      "",
+      `**Meta description:** A practical guide to ${primary}: what it is, why it matters and how to get reliable results, with clear steps and expert tips.`,
+      "",
+      ...Array.from({ length: paragraphs }, () => paragraph()).join("\n\n").split("\n"),
+    ].join("\n");
+  }
+
+  if (prompt.includes("FAQ TO WRITE:")) {
+    const questions = [...prompt.matchAll(/^ {2}### (.+)$/gm)].map((match) => match[1]);
+    const lines = ["## Frequently Asked Questions", ""];
+    for (const question of questions) {
+      lines.push(`### ${question}`, "", paragraph(2), "");
+    }
+    return lines.join("\n").trim();
+  }
+
+  const block = prompt.split(/SECTION TO WRITE \(\d+ of \d+\):\n/)[1]?.split("\n\n")[0] || "";
+  const heading = block.match(/^## (.+)$/m)?.[1] || primary;
+  const subheadings = [...block.matchAll(/^### (.+)$/gm)].map((match) => match[1]);
+  const formatting = prompt.match(/use: (.+)$/m)?.[1] || "";
+  const lines = [`## ${heading}`, ""];
+
+  for (let p = 0; p < Math.max(1, paragraphs - subheadings.length); p++) {
+    lines.push(paragraph(), "");
+  }
+  for (const subheading of subheadings) {
+    lines.push(`### ${subheading}`, "", paragraph(3), "");
+  }
+  if (formatting.includes("lists")) {
+    lines.push(`- Define your goals for ${primary}`, `- Compare the available options`, `- Review your results regularly`, "");
+  }
+
+  return lines.join("\n").trim();
+}
+
+// Answers the targeted repair prompts written by buildRepairPrompt
+function buildRepair(prompt: string): string {
+  const spec = parseSpec(prompt);
+  const random = createRandom(hashString(prompt));
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const primary = spec.keywords[0];
+  const sentence = () => pick(SENTENCES).replace("{keyword}", pick(spec.keywords));
+  const paragraph = (count = 4) => Array.from({ length: count }, sentence).join(" ");
+  const task = prompt.split("REPAIR TASK:\n")[1] || "";
+  const wordTarget = Number(task.match(/about (\d+) words/)?.[1] || 200);
+  const paragraphs = (words: number) => Array.from({ length: Math.max(1, Math.round(words / 44)) }, () => paragraph());
+
+  if (task.includes("## Frequently Asked Questions")) {
+    const lines = ["## Frequently Asked Questions", ""];
+    for (const keyword of spec.keywords.slice(0, 3)) {
+      lines.push(`### What is the best way to start with ${keyword}?`, "", paragraph(2), "");
+    }
+    return lines.join("\n").trim();
+  }
+
+  if (task.includes("data table")) {
+    return [
+      `The table below compares common approaches to ${primary}.`,
+      "",
+      "| Option | Effort | Typical result |",
+      "| --- | --- | --- |",
+      "| Basic | Low | Steady progress |",
+      "| Advanced | High | Faster results |",
+    ].join("\n");
+  }
+
+  // Rewrites keep the section's own headings
+  const section = task.split("SECTION:\n")[1];
+  if (section) {
+    const heading = section.match(/^## .+$/m)?.[0] || `## ${primary}`;
+    const subheadings = section.match(/^### .+$/gm) || [];
+    const tables = section.match(/^\|.*$/gm) || [];
+    const body = paragraphs(wordTarget / (subheadings.length + 1));
+    return [heading, ...body, ...subheadings.flatMap((subheading) => [subheading, ...body]), tables.join("\n")]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  if (task.includes("key takeaways")) {
+    return [
+      "## Key Takeaways",
+      "",
+      `- ${primary} rewards a clear plan`,
+      `- Small improvements add up over time`,
+      `- Measure progress before changing course`,
+      `- Compare options before committing`,
+    ].join("\n");
+  }
+
+  const heading = task.includes("conclusion")
+    ? "Conclusion"
+    : SECTION_TOPICS[Math.floor(random() * SECTION_TOPICS.length)].replace("{keyword}", primary);
+  return [`## ${heading}`, ...paragraphs(wordTarget)].join("\n\n");
+}
+
+// Answers buildSectionRewritePrompt with a fresh section under the same heading and subheadings
+function buildSectionRewrite(prompt: string): string {
+  const spec = parseSpec(prompt);
+  const random = createRandom(hashString(prompt));
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const sentence = () => pick(SENTENCES).replace("{keyword}", pick(spec.keywords));
+  const paragraph = (count = 4) => Array.from({ length: count }, sentence).join(" ");
+  const heading = prompt.match(/Start with the line "(## .+)"/)?.[1] || `## ${spec.keywords[0]}`;
+  const section = prompt.split("CURRENT SECTION:\n")[1]?.split("\n\nSECTION REQUIREMENTS:")[0] || "";
+  const subheadings = section.match(/^### .+$/gm) || [];
+  const wordTarget = Number(prompt.match(/Length: about (\d+) words/)?.[1] || 200);
+  const lines = [heading, ""];
+
+  for (let p = 0; p < Math.max(1, Math.round(wordTarget / 44) - subheadings.length); p++) {
+    lines.push(paragraph(), "");
+  }
+  for (const subheading of subheadings) {
+    lines.push(subheading, "", paragraph(3), "");
+  }
+
+  return lines.join("\n").trim();
+}
+
+// Answers buildInlineEditPrompt by shortening, extending or rewording the passage
+function buildInlineEdit(prompt: string): string {
+  const spec = parseSpec(prompt);
+  const random = createRandom(hashString(prompt));
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const sentence = () => pick(SENTENCES).replace("{keyword}", pick(spec.keywords));
+  const passage = prompt.split("\n\nPASSAGE:\n")[1]?.split("\n\nTEXT AFTER THE PASSAGE:")[0]?.trim() || "";
+  const task = prompt.match(/^TASK: (.+)$/m)?.[1] || "";
+  const sentences = passage.match(/[^.!?]+[.!?]+\s*|[^.!?]+$/g) || [passage];
+
+  if (/^Shorten/.test(task)) return sentences.slice(0, Math.ceil(sentences.length / 2)).join("").trim();
+  if (/^Expand/.test(task)) return `${passage} ${sentence()} ${sentence()}`;
+  if (/example/.test(task)) return `${passage} For example, a reader new to ${spec.keywords[0]} can start with one small change and review it after a week.`;
+  return [sentence(), ...sentences.slice(1)].join(" ").replace(/\s+/g, " ").trim();
+}
+
+// Answers the translation prompts. The mock cannot translate, so it returns the text as it is
+// and only marks the title fields with the target language.
+function buildTranslation(prompt: string): string {
+  const section = prompt.split("TEXT TO TRANSLATE:\n")[1];
+  if (section !== undefined) return section.split("\n\nOutput only the translated text")[0];
+
+  const language = prompt.match(/ into (.+?) for readers/)?.[1] || "Translation";
+  const fields = JSON.parse(prompt.split("ARTICLE FIELDS:\n")[1]);
+  return JSON.stringify({
+    ...fields,
+    title: `${fields.title} (${language})`,
+    h1: `${fields.h1} (${language})`,
+    metaTitle: `${fields.metaTitle} (${language})`,
+  });
+}
+
+// Answers buildTitleSuggestionsPrompt with titles of mixed lengths, so the ranking has work to do
+function buildTitles(prompt: string): string {
+  const spec = parseSpec(prompt);
+  const primary = spec.keywords[0];
+  const topic = primary.charAt(0).toUpperCase() + primary.slice(1);
+
+  return JSON.stringify({
+    titles: [
+      `${topic}: A Practical Guide for Beginners`,
+      `How to Get Started with ${primary} Without the Guesswork`,
+      `${topic} Explained: What Works, What Doesn't and Why`,
+      `10 ${topic} Tips That Actually Save You Time`,
+      `Is ${primary} Worth It? An Honest Look`,
+      `The Complete ${topic} Checklist for Getting Reliable Results at Home`,
+      `${topic} vs the Alternatives: Which Should You Choose?`,
+      `Common ${primary} Mistakes and How to Avoid Them`,
+    ],
+  });
+}
+
+// Drops the flagged phrases from each listed sentence, like a light-touch editor would
+function buildRewrite(prompt: string): string {
+  const phrases = (prompt.match(/no longer uses any of these phrases: (.+)\.\n/)?.[1] ?? "")
+    .split(", ")
+    .filter(Boolean);
+  const block = prompt.split("FLAGGED SENTENCES:\n")[1]?.split("\n\nREWRITE FORMAT:")[0] ?? "";
+  const sentences = block
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const sentence = line.replace(/^\d+\.\s/, "");
+      const rewritten = phrases
+        .reduce((current, phrase) => {
+          const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          return current.replace(new RegExp(`${escaped},?\\s*`, "gi"), "");
+        }, sentence)
+        .trim();
+      return rewritten.charAt(0).toUpperCase() + rewritten.slice(1);
+    });
+
+  return JSON.stringify({ sentences });
+}
+
+function buildResponse(prompt: string, structured: boolean): string {
+  if (prompt.includes("OUTLINE FORMAT:")) return buildOutline(prompt);
+  if (prompt.includes("TITLE IDEAS FORMAT:")) return buildTitles(prompt);
+  if (prompt.includes("REPAIR TASK:")) return buildRepair(prompt);
+  if (prompt.includes("FLAGGED SENTENCES:")) return buildRewrite(prompt);
+  if (prompt.includes("CURRENT SECTION:")) return buildSectionRewrite(prompt);
+  if (prompt.includes("\n\nPASSAGE:\n")) return buildInlineEdit(prompt);
+  if (/ARTICLE FIELDS:\n|TEXT TO TRANSLATE:\n/.test(prompt)) return buildTranslation(prompt);
+  if (/INTRODUCTION TO WRITE:|SECTION TO WRITE \(|FAQ TO WRITE:/.test(prompt)) return buildPart(prompt);
+
+  const article = buildArticle(prompt);
+  // Structured output mode returns the same article split into its JSON fields
+  return structured ? JSON.stringify(parseArticleMarkdown(article, parseSpec(prompt).title)) : article;
+}
+
+function complete(params: LLMGenerateParams): Omit<LLMResult, "model"> {
+  // A continuation request replays the original prompt plus the partial answer; carry on after it
+  const partialIndex = params.messages.findIndex((message) => message.role === "assistant");
+  const promptMessages = partialIndex === -1 ? params.messages : params.messages.slice(0, partialIndex);
+  const prompt = promptMessages.map((message) => message.content).join("\n\n");
+  // Under structured output a real model answers with a new, complete object instead
+  const structured = Boolean(params.responseFormat);
+  const full = buildResponse(prompt, structured).slice(
+    partialIndex === -1 || structured ? 0 : params.messages[partialIndex].content.length
+  );
+
+  // Honour maxTokens the way a real model would, so truncation handling can be exercised
+  const maxChars = params.maxTokens * 4;
+  const truncated = full.length > maxChars;
+  const content = truncated ? full.slice(0, maxChars) : full;
+
+  const promptTokens = estimateTokens(params.messages.map((message) => message.content).join("\n\n"));
+  const completionTokens = estimateTokens(content);
+
+  return {
+    content,
+    finishReason: truncated ? "length" : "stop",
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+  };
+}
+
+export function createMockProvider(model = MOCK_MODEL): LLMProvider {
+  return {
+    name: "mock",
+    model,
+
+    async generate(params: LLMGenerateParams): Promise<LLMResult> {
+      params.signal?.throwIfAborted();
+      return { ...complete(params), model };
+    },
+
+    async *stream(params: LLMGenerateParams): AsyncIterable<LLMStreamEvent> {
+      const result = complete(params);
+      // Leading whitespace rides with the first word, so the chunks join back into the full content
+      const chunks = result.content.match(/\s*\S+\s*/g) || [];
+
+      for (let i = 0; i < chunks.length; i += 8) {
+        params.signal?.throwIfAborted();
+        yield { type: "delta", content: chunks.slice(i, i + 8).join("") };
+        // Yield to the event loop so consumers see a genuinely incremental stream
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+
+      yield { type: "done", finishReason: result.finishReason, usage: result.usage };
+    },
+  };
+}
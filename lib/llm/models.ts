@@ -0,0 +1,47 @@
+import type { ModelOption } from "@/lib/generation-params";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+export const MOCK_MODEL = "mock-article-writer";
+
+type ModelLimits = {
+  label?: string;
+  maxTokens?: number;
+};
+
+// The model used when a request does not pick one: LLM_MODEL, or the provider's default
+export function getConfiguredModel(): string {
+  if (process.env.LLM_MODEL) return process.env.LLM_MODEL;
+  return process.env.LLM_PROVIDER === "mock" ? MOCK_MODEL : DEFAULT_MODEL;
+}
+
+// LLM_MODELS lists the models users may pick per generation and the most tokens one call may ask
+// for, e.g. {"gpt-4o-mini": {"maxTokens": 8000}, "gpt-4o": {"label": "GPT-4o", "maxTokens": 4000}}.
+// The configured model is always allowed; without LLM_MODELS it is the only choice.
+function loadModels(): { [model: string]: ModelLimits } {
+  if (!process.env.LLM_MODELS) return {};
+
+  try {
+    return JSON.parse(process.env.LLM_MODELS);
+  } catch {
+    console.error("LLM_MODELS is not valid JSON; only the configured model is allowed");
+    return {};
+  }
+}
+
+export function getAllowedModels(): ModelOption[] {
+  const models = loadModels();
+  const configured = getConfiguredModel();
+  const ids = configured in models ? Object.keys(models) : [configured, ...Object.keys(models)];
+
+  return ids.map((id) => ({
+    id,
+    label: models[id]?.label || id,
+    maxTokens: models[id]?.maxTokens ?? null,
+  }));
+}
+
+// The allowlist entry of a model; no model means the configured one
+export function findAllowedModel(model?: string | null): ModelOption | null {
+  const id = model || getConfiguredModel();
+  return getAllowedModels().find((option) => option.id === id) ?? null;
+}
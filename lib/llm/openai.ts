@@ -0,0 +1,158 @@
+import OpenAI from "openai";
+import { LLMError } from "./errors";
+import type { LLMGenerateParams, LLMProvider, LLMResult, LLMStreamEvent, LLMUsage } from "./types";
+
+interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  apiKey: string;
+  // Set for OpenAI-compatible servers such as Ollama or vLLM
+  baseURL?: string;
+  // Compatible servers rarely support json_schema, so they only get plain JSON mode
+  supportsJsonSchema?: boolean;
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | null | undefined): LLMUsage | null {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+function getRetryAfter(headers: Headers | undefined): number | null {
+  const milliseconds = Number(headers?.get("retry-after-ms"));
+  if (milliseconds > 0) return Math.ceil(milliseconds / 1000);
+  const seconds = Number(headers?.get("retry-after"));
+  return seconds > 0 ? Math.ceil(seconds) : null;
+}
+
+// Classifies OpenAI API failures; aborts and anything unrecognised are passed through as they are
+function toLLMError(error: unknown): unknown {
+  if (error instanceof OpenAI.APIUserAbortError || error instanceof LLMError) return error;
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new LLMError("transient", "Request to the AI service timed out");
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new LLMError("transient", `Could not reach the AI service: ${error.message}`);
+  }
+  if (!(error instanceof OpenAI.APIError)) return error;
+
+  const { status, code, message } = error;
+
+  if (code === "context_length_exceeded" || /maximum context length/i.test(message)) {
+    return new LLMError("context_length", message);
+  }
+  if (code === "content_policy_violation" || code === "content_filter") {
+    return new LLMError("content_policy", message);
+  }
+  // An exhausted billing quota will not recover by retrying
+  if (code === "insufficient_quota" || status === 401 || status === 403) {
+    return new LLMError("auth", message);
+  }
+  if (status === 429) {
+    return new LLMError("rate_limit", message, getRetryAfter(error.headers));
+  }
+  if (status === 408 || status === 409 || (status !== undefined && status >= 500)) {
+    return new LLMError("transient", message, getRetryAfter(error.headers));
+  }
+  return new LLMError("invalid_request", message);
+}
+
+function toResponseFormat(params: LLMGenerateParams, supportsJsonSchema: boolean) {
+  if (!params.responseFormat) return undefined;
+  if (!supportsJsonSchema) return { type: "json_object" as const };
+
+  return {
+    type: "json_schema" as const,
+    json_schema: { name: params.responseFormat.name, schema: params.responseFormat.schema, strict: true },
+  };
+}
+
+export function createOpenAIProvider({
+  name,
+  model,
+  apiKey,
+  baseURL,
+  supportsJsonSchema = true,
+}: OpenAIProviderOptions): LLMProvider {
+  // Retries and timeouts are handled by withResilience, not the SDK
+  const client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+
+  const toRequest = (params: LLMGenerateParams) => ({
+    model,
+    messages: params.messages,
+    max_tokens: params.maxTokens,
+    temperature: params.temperature,
+    top_p: params.topP,
+    frequency_penalty: params.frequencyPenalty,
+    presence_penalty: params.presencePenalty,
+    response_format: toResponseFormat(params, supportsJsonSchema),
+  });
+
+  return {
+    name,
+    model,
+
+    async generate(params: LLMGenerateParams): Promise<LLMResult> {
+      const completion = await client.chat.completions
+        .create(toRequest(params), { signal: params.signal })
+        .catch((error) => {
+          throw toLLMError(error);
+        });
+      const choice = completion.choices[0];
+
+      if (choice?.finish_reason === "content_filter") {
+        throw new LLMError("content_policy", "Completion was stopped by the content filter");
+      }
+
+      return {
+        content: choice?.message?.content || "",
+        finishReason: choice?.finish_reason ?? null,
+        usage: toUsage(completion.usage),
+        model: completion.model || model,
+      };
+    },
+
+    async *stream(params: LLMGenerateParams): AsyncIterable<LLMStreamEvent> {
+      let finishReason: string | null = null;
+      let usage: LLMUsage | null = null;
+
+      try {
+        const completion = await client.chat.completions.create(
+          {
+            ...toRequest(params),
+            stream: true,
+            stream_options: { include_usage: true },
+          },
+          { signal: params.signal }
+        );
+
+        for await (const chunk of completion) {
+          const choice = chunk.choices[0];
+
+          if (choice?.delta?.content) {
+            yield { type: "delta", content: choice.delta.content };
+          }
+          if (choice?.finish_reason) {
+            finishReason = choice.finish_reason;
+          }
+          // With include_usage the final chunk carries usage and no choices
+          if (chunk.usage) {
+            usage = toUsage(chunk.usage);
+          }
+        }
+      } catch (error) {
+        throw toLLMError(error);
+      }
+
+      if (finishReason === "content_filter") {
+        throw new LLMError("content_policy", "Completion was stopped by the content filter");
+      }
+
+      yield { type: "done", finishReason, usage };
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import type { LLMUsage } from "./types";
+
+// USD per million tokens
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+const DEFAULT_PRICES: { [model: string]: ModelPrice } = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+};
+
+// LLM_PRICES overrides or extends the defaults, e.g. {"llama3.1": {"input": 0, "output": 0}}
+function loadPrices(): { [model: string]: ModelPrice } {
+  if (!process.env.LLM_PRICES) return DEFAULT_PRICES;
+
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(process.env.LLM_PRICES) };
+  } catch {
+    console.error("LLM_PRICES is not valid JSON; using the default price table");
+    return DEFAULT_PRICES;
+  }
+}
+
+// Providers report dated snapshots such as "gpt-4o-mini-2024-07-18", so the longest matching prefix wins
+export function getModelPrice(model: string): ModelPrice | null {
+  const prices = loadPrices();
+  if (prices[model]) return prices[model];
+
+  const match = Object.keys(prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+// Models missing from the table (local or mock models) are counted as free
+export function calculateCost(model: string, usage: Pick<LLMUsage, "promptTokens" | "completionTokens">): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,191 @@
+import { LLMError } from "./errors";
+import type { LLMGenerateParams, LLMProvider, LLMStreamEvent } from "./types";
+
+export type ResilienceOptions = {
+  // Retries after the first attempt, for rate limits and transient failures only
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Budget for one call including all of its retries
+  deadlineMs: number;
+  // Consecutive failed attempts that open the circuit
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+// LLM_MAX_RETRIES and LLM_TIMEOUT_MS override the retry count and the per-call deadline
+function loadOptions(): ResilienceOptions {
+  const maxRetries = Number(process.env.LLM_MAX_RETRIES);
+  const deadlineMs = Number(process.env.LLM_TIMEOUT_MS);
+
+  return {
+    maxRetries: Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 20_000,
+    deadlineMs: deadlineMs > 0 ? deadlineMs : 180_000,
+    failureThreshold: 5,
+    cooldownMs: 30_000,
+  };
+}
+
+type Circuit = {
+  failures: number;
+  openUntil: number;
+};
+
+// Shared by every request in this process, keyed by provider and model
+const circuits = new Map<string, Circuit>();
+
+// Failures that say something about the service rather than about the request
+const CIRCUIT_KINDS = new Set(["rate_limit", "transient", "timeout", "auth"]);
+
+function createCircuit(key: string, options: ResilienceOptions) {
+  const circuit = circuits.get(key) ?? { failures: 0, openUntil: 0 };
+  circuits.set(key, circuit);
+
+  return {
+    // Fails fast while open. Once the cooldown is over calls go through again, and the
+    // first failure reopens the circuit because the failure count was never reset.
+    check() {
+      const waitMs = circuit.openUntil - Date.now();
+      if (waitMs > 0) {
+        throw new LLMError("circuit_open", `Circuit for ${key} is open`, Math.ceil(waitMs / 1000));
+      }
+    },
+
+    record(error: LLMError | null) {
+      if (!error) {
+        circuit.failures = 0;
+        circuit.openUntil = 0;
+        return;
+      }
+      if (!CIRCUIT_KINDS.has(error.kind)) return;
+
+      circuit.failures++;
+      if (circuit.failures >= options.failureThreshold) {
+        if (circuit.openUntil <= Date.now()) {
+          console.error(`LLM circuit for ${key} opened after ${circuit.failures} consecutive failures`);
+        }
+        circuit.openUntil = Date.now() + options.cooldownMs;
+      }
+    },
+  };
+}
+
+// Full jitter: a random wait up to the exponential cap, but never shorter than the provider asked for
+function getBackoffDelay(attempt: number, error: LLMError, options: ResilienceOptions): number {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * cap;
+  return error.retryAfter !== null ? Math.max(error.retryAfter * 1000, jittered) : jittered;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// One deadline per call; the caller's own signal still aborts it
+function createDeadline(params: LLMGenerateParams, options: ResilienceOptions) {
+  const deadline = AbortSignal.timeout(options.deadlineMs);
+  const startedAt = Date.now();
+
+  return {
+    signal: params.signal ? AbortSignal.any([params.signal, deadline]) : deadline,
+    remainingMs: () => options.deadlineMs - (Date.now() - startedAt),
+
+    // Errors caused by the deadline become timeouts; caller aborts are passed through untouched
+    normalize(error: unknown): unknown {
+      if (params.signal?.aborted) return error;
+      if (deadline.aborted) {
+        return new LLMError("timeout", `No response within ${Math.round(options.deadlineMs / 1000)} seconds`);
+      }
+      return error;
+    },
+  };
+}
+
+// Wraps a provider with retries for rate limits and transient failures (jittered exponential
+// backoff), an overall deadline per call and a circuit breaker that fails fast after repeated
+// failures. Errors reach the caller as LLMError, except aborts requested by the caller.
+export function withResilience(provider: LLMProvider, options: ResilienceOptions = loadOptions()): LLMProvider {
+  const circuit = createCircuit(`${provider.name}:${provider.model}`, options);
+
+  // Decides whether to try again after a failed attempt, and waits if so
+  const handleFailure = async (
+    error: unknown,
+    attempt: number,
+    deadline: ReturnType<typeof createDeadline>,
+    canRetry: boolean
+  ) => {
+    const failure = deadline.normalize(error);
+    if (!(failure instanceof LLMError)) throw failure;
+
+    circuit.record(failure);
+    if (!canRetry || !failure.retryable || attempt >= options.maxRetries) throw failure;
+
+    const delay = getBackoffDelay(attempt, failure, options);
+    // Waiting past the deadline would only end in a timeout
+    if (delay >= deadline.remainingMs()) throw failure;
+
+    console.warn(`LLM ${failure.kind} error, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${options.maxRetries}):`, failure.message);
+    try {
+      await sleep(delay, deadline.signal);
+    } catch (abortError) {
+      throw deadline.normalize(abortError);
+    }
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+
+    async generate(params) {
+      const deadline = createDeadline(params, options);
+
+      for (let attempt = 0; ; attempt++) {
+        circuit.check();
+        try {
+          const result = await provider.generate({ ...params, signal: deadline.signal });
+          circuit.record(null);
+          return result;
+        } catch (error) {
+          await handleFailure(error, attempt, deadline, true);
+        }
+      }
+    },
+
+    async *stream(params): AsyncIterable<LLMStreamEvent> {
+      const deadline = createDeadline(params, options);
+
+      for (let attempt = 0; ; attempt++) {
+        circuit.check();
+        let started = false;
+        try {
+          for await (const event of provider.stream({ ...params, signal: deadline.signal })) {
+            started = true;
+            yield event;
+          }
+          circuit.record(null);
+          return;
+        } catch (error) {
+          // Text already handed to the caller cannot be taken back, so only a stream that
+          // failed before its first event is retried
+          await handleFailure(error, attempt, deadline, !started);
+        }
+      }
+    },
+  };
+}
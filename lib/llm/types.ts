@@ -0,0 +1,49 @@
+export type LLMMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type LLMGenerateParams = {
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  // Requests JSON output matching this schema
+  responseFormat?: LLMResponseFormat;
+  // Versioned template the prompt was rendered from, e.g. "article@1"
+  promptTemplate?: string;
+  signal?: AbortSignal;
+};
+
+export type LLMResponseFormat = {
+  name: string;
+  schema: Record<string, unknown>;
+};
+
+export type LLMUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type LLMResult = {
+  content: string;
+  // "stop" when the model finished on its own, "length" when it hit maxTokens
+  finishReason: string | null;
+  usage: LLMUsage | null;
+  model: string;
+};
+
+export type LLMStreamEvent =
+  | { type: "delta"; content: string }
+  | { type: "done"; finishReason: string | null; usage: LLMUsage | null };
+
+export interface LLMProvider {
+  // Identifies the implementation, e.g. "openai" or "mock"
+  name: string;
+  model: string;
+  generate(params: LLMGenerateParams): Promise<LLMResult>;
+  stream(params: LLMGenerateParams): AsyncIterable<LLMStreamEvent>;
+}
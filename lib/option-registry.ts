@@ -0,0 +1,127 @@
+import { asc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/db";
+import { articleOptions } from "@/db/schema/article-options";
+import {
+  findOption,
+  mergeOptions,
+  OPTION_CATEGORIES,
+  OPTION_CATEGORY_LABELS,
+  type OptionCategory,
+  type OptionRegistry,
+  type SelectedOptions,
+} from "@/lib/article-options";
+import { generateId } from "@/lib/utils";
+
+export const articleOptionSchema = z
+  .object({
+    category: z.enum(OPTION_CATEGORIES),
+    value: z.string().trim().min(1).max(100),
+    label: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(300).nullish(),
+    instruction: z.string().trim().max(1000).nullish(),
+  })
+  .superRefine((option, ctx) => {
+    // Language values are passed to the language checks, so they must be codes like "en" or "pt-BR"
+    if (option.category === "language" && !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/.test(option.value)) {
+      ctx.addIssue({ code: "custom", path: ["value"], message: 'Languages need a code such as "en" or "pt-BR"' });
+    }
+  });
+
+export type ArticleOptionInput = z.infer<typeof articleOptionSchema>;
+
+// Built-in options merged with the custom entries
+export async function getOptionRegistry(): Promise<OptionRegistry> {
+  const custom = await db
+    .select()
+    .from(articleOptions)
+    .orderBy(asc(articleOptions.createdAt));
+
+  return mergeOptions(
+    custom.map((entry) => ({
+      category: entry.category,
+      value: entry.value,
+      label: entry.label,
+      description: entry.description,
+      instruction: entry.instruction,
+      id: entry.id,
+    }))
+  );
+}
+
+export async function createArticleOption(input: ArticleOptionInput) {
+  const [entry] = await db
+    .insert(articleOptions)
+    .values({
+      id: generateId(),
+      ...input,
+      description: input.description ?? null,
+      instruction: input.instruction ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .returning();
+
+  return entry;
+}
+
+export async function updateArticleOption(id: string, input: ArticleOptionInput) {
+  const [entry] = await db
+    .update(articleOptions)
+    .set({
+      ...input,
+      description: input.description ?? null,
+      instruction: input.instruction ?? null,
+      updatedAt: new Date(),
+    })
+    .where(eq(articleOptions.id, id))
+    .returning();
+
+  return entry ?? null;
+}
+
+export async function deleteArticleOption(id: string) {
+  const [entry] = await db
+    .delete(articleOptions)
+    .where(eq(articleOptions.id, id))
+    .returning();
+
+  return entry ?? null;
+}
+
+// Looks up every setting of a request in the registry. Unknown values are reported like any
+// other validation error, so the routes answer them with a 400 and the offending field.
+// Categories the request leaves out are skipped.
+export function selectArticleOptions(
+  data: { [category in OptionCategory]?: string },
+  registry: OptionRegistry
+): SelectedOptions {
+  const selected: SelectedOptions = {};
+  const issues: z.core.$ZodIssue[] = [];
+
+  for (const category of OPTION_CATEGORIES) {
+    const value = data[category];
+    if (value === undefined) continue;
+
+    const option = findOption(registry, category, value);
+    if (option) {
+      selected[category] = option;
+    } else {
+      issues.push({
+        code: "custom",
+        path: [category],
+        message: `Unknown ${OPTION_CATEGORY_LABELS[category].toLowerCase()} "${value}"`,
+        input: value,
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new z.ZodError(issues);
+  }
+  return selected;
+}
+
+export async function loadArticleOptions(data: { [category in OptionCategory]?: string }): Promise<SelectedOptions> {
+  return selectArticleOptions(data, await getOptionRegistry());
+}
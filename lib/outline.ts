@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { type ArticleOutline, type ArticleSettings } from "@/db/schema/articles";
+import { getLanguageName, NO_OPTION, type SelectedOptions } from "@/lib/article-options";
+import { getOptionInstruction, PROMPT_TEMPLATES, sizeRequirements } from "@/lib/prompt-builder";
+import { generateId } from "@/lib/utils";
+import { getLLMProvider, type LLMProvider } from "@/lib/llm";
+
+export const outlineSchema = z.object({
+  h1: z.string().min(1).max(300),
+  sections: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        heading: z.string().min(1).max(300),
+        subheadings: z.array(z.string().min(1).max(300)).max(10),
+      })
+    )
+    .min(1)
+    .max(30),
+  faq: z.array(z.string().min(1).max(300)).max(10),
+});
+
+interface OutlinePromptData extends ArticleSettings {
+  title: string;
+  keywords: string;
+  options?: SelectedOptions;
+}
+
+export const OUTLINE_SYSTEM_PROMPT =
+  "You are an expert SEO content strategist who plans clear, well-structured article outlines. Always respond with valid JSON only.";
+
+export function buildOutlinePrompt(data: OutlinePromptData): string {
+  const { title, keywords, articleType, articleSize, tone, structure, language, options } = data;
+  const targetLanguage = getLanguageName(language, options);
+  const sizeReq = sizeRequirements[articleSize as keyof typeof sizeRequirements];
+
+  let prompt = `Plan the outline of an SEO-optimized article in ${targetLanguage} based on the following specifications:
+
+TITLE: ${title}
+KEYWORDS: ${keywords}
+
+OUTLINE REQUIREMENTS:
+- Target Language: ${targetLanguage} (all headings and questions must be written in ${targetLanguage})
+- H2 Headings: ${sizeReq.h2} sections
+- Planned article length: ${sizeReq.words} words
+- Main Keywords: ${keywords}`;
+
+  if (articleType !== NO_OPTION) {
+    prompt += `\n- Article Type: ${getOptionInstruction('articleType', articleType, options)}`;
+  }
+  if (tone !== NO_OPTION) {
+    prompt += `\n- Tone: ${getOptionInstruction('tone', tone, options)}`;
+  }
+
+  prompt += structure.h3Headings
+    ? `\n- Plan 0-3 H3 subheadings for each H2 section where they help the reader`
+    : `\n- Do not plan any H3 subheadings`;
+  prompt += structure.faqSection
+    ? `\n- Plan 3-6 FAQ questions readers are likely to search for`
+    : `\n- Do not plan an FAQ section; "faq" must be an empty array`;
+
+  if (structure.keyTakeaways) {
+    prompt += `\n- Include a "Key takeaways" H2 section`;
+  }
+  if (structure.conclusion) {
+    prompt += `\n- End with a conclusion H2 section`;
+  }
+
+  prompt += `
+
+OUTLINE FORMAT:
+Respond with a single JSON object and nothing else, shaped like:
+{"h1": "SEO-friendly H1 including the main keyword", "sections": [{"heading": "H2 heading", "subheadings": ["H3 heading"]}], "faq": ["Question?"]}
+Do not include the FAQ section itself in "sections"; list its questions in "faq".`;
+
+  return prompt;
+}
+
+// Best-effort parse of the model's JSON outline; tolerates markdown fences and surrounding text
+export function parseOutline(text: string): ArticleOutline | null {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const raw = JSON.parse(text.slice(start, end + 1));
+    const candidate = {
+      h1: typeof raw.h1 === "string" ? raw.h1.trim() : "",
+      sections: Array.isArray(raw.sections)
+        ? raw.sections
+            .filter((section: { heading?: unknown }) => typeof section?.heading === "string")
+            .map((section: { heading: string; subheadings?: unknown }) => ({
+              id: generateId(),
+              heading: section.heading.trim(),
+              subheadings: Array.isArray(section.subheadings)
+                ? section.subheadings.filter((sub): sub is string => typeof sub === "string" && sub.trim() !== "")
+                : [],
+            }))
+        : [],
+      faq: Array.isArray(raw.faq)
+        ? raw.faq.filter((question: unknown): question is string => typeof question === "string" && question.trim() !== "")
+        : [],
+    };
+
+    const parsed = outlineSchema.safeParse(candidate);
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function generateOutline(
+  data: OutlinePromptData,
+  provider: LLMProvider = getLLMProvider(),
+  signal?: AbortSignal
+): Promise<ArticleOutline | null> {
+  const result = await provider.generate({
+    messages: [
+      { role: "system", content: OUTLINE_SYSTEM_PROMPT },
+      { role: "user", content: buildOutlinePrompt(data) },
+    ],
+    temperature: 0.5,
+    maxTokens: 1500,
+    promptTemplate: PROMPT_TEMPLATES.outline,
+    signal,
+  });
+
+  return parseOutline(result.content);
+}
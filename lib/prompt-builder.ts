@@ -1,8 +1,156 @@
-import { type ArticleSettings } from "@/db/schema/articles";
+import { type ArticleOutline, type ArticleSettings } from "@/db/schema/articles";
+import { type BrandVoice } from "@/db/schema/brand-voices";
+import { getLanguageName, NO_OPTION, resolveOption, type OptionCategory, type SelectedOptions } from "@/lib/article-options";
 
-interface PromptData extends ArticleSettings {
+// Word count and heading requirements
+export const sizeRequirements = {
+  'X-Small': { words: '600-1200', h2: '2-5' },
+  'Small': { words: '1200-2400', h2: '5-8' },
+  'Medium': { words: '2400-3600', h2: '9-12' },
+  'Large': { words: '3600-5200', h2: '13-16' }
+};
+
+// Version of every prompt template, recorded with each call so older articles can be traced
+// back to the wording that produced them. Bump a version whenever its template changes.
+export const PROMPT_TEMPLATES = {
+  article: "article@2",
+  intro: "article-intro@2",
+  section: "article-section@2",
+  faq: "article-faq@2",
+  outline: "outline@1",
+  titles: "title-ideas@1",
+  repair: "repair@2",
+  sectionRewrite: "section-rewrite@1",
+  inlineEdit: "inline-edit@1",
+  translationMetadata: "translation-metadata@1",
+  translationSection: "translation-section@1",
+  rewrite: "ai-phrase-rewrite@1",
+} as const;
+
+export const ARTICLE_SYSTEM_PROMPT =
+  "You are an expert SEO content writer who creates high-quality, engaging articles that rank well in search engines. Always follow the specific requirements provided in each prompt.";
+
+// The parts of a brand voice profile that go into the prompts
+export type BrandVoicePrompt = Pick<BrandVoice, 'name' | 'description' | 'dos' | 'donts' | 'vocabulary' | 'forbiddenTerms' | 'samples'>;
+
+export interface PromptData extends ArticleSettings {
   title: string;
   keywords: string;
+  outline?: ArticleOutline | null;
+  brandVoice?: BrandVoicePrompt | null;
+  // Registry entries of the settings, attached once the request is validated on the server
+  options?: SelectedOptions;
+}
+
+// Requirement text of a setting: the option's instruction, or its label when it has none
+export function getOptionInstruction(category: OptionCategory, value: string, options?: SelectedOptions): string {
+  const option = resolveOption(category, value, options);
+  return option.instruction || option.label;
+}
+
+// Markdown rendering of an approved outline, used inside prompts
+export function formatOutline(outline: ArticleOutline): string {
+  const lines = [`# ${outline.h1}`];
+
+  for (const section of outline.sections) {
+    lines.push(`## ${section.heading}`);
+    for (const subheading of section.subheadings) {
+      lines.push(`### ${subheading}`);
+    }
+  }
+  for (const question of outline.faq) {
+    lines.push(`FAQ: ${question}`);
+  }
+
+  return lines.join("\n");
+}
+
+export const cleaningInstructions: { [key: string]: string } = {
+  'Basic AI Words Removal': 'Avoid common AI phrases like "in conclusion", "furthermore", "moreover", "in addition", etc.',
+  'Extended AI Words Removal': 'Eliminate all detectable AI patterns and phrases. Write like a human expert would naturally write.'
+};
+
+// Tone, point of view, readability and AI-cleaning lines shared by every article prompt
+export function buildStyleRequirements(settings: ArticleSettings & Pick<PromptData, 'options'>): string {
+  const { tone, pointOfView, readability, aiCleaning, options } = settings;
+  let requirements = '';
+
+  // Add tone if specified
+  if (tone !== NO_OPTION) {
+    requirements += `\n- Tone: ${getOptionInstruction('tone', tone, options)}`;
+  }
+
+  // Add point of view if specified
+  if (pointOfView !== NO_OPTION) {
+    requirements += `\n- Point of View: ${getOptionInstruction('pointOfView', pointOfView, options)}`;
+  }
+
+  // Add readability level if specified
+  if (readability !== NO_OPTION) {
+    requirements += `\n- Readability Level: ${getOptionInstruction('readability', readability, options)}`;
+  }
+
+  // Add AI cleaning instructions
+  if (aiCleaning !== 'No AI Words Removal') {
+    requirements += `\n- Content Style: ${cleaningInstructions[aiCleaning] || aiCleaning}`;
+  }
+
+  return requirements;
+}
+
+// Brand voice block shared by every prompt that writes article text; empty without a voice
+export function buildBrandVoice(voice: BrandVoicePrompt | null | undefined): string {
+  if (!voice) return '';
+
+  let section = `BRAND VOICE (${voice.name}):`;
+
+  if (voice.description) {
+    section += `\n${voice.description}`;
+  }
+  if (voice.dos.length > 0) {
+    section += `\nDo:\n${voice.dos.map((item) => `- ${item}`).join('\n')}`;
+  }
+  if (voice.donts.length > 0) {
+    section += `\nDon't:\n${voice.donts.map((item) => `- ${item}`).join('\n')}`;
+  }
+  if (voice.vocabulary.length > 0) {
+    section += `\nPreferred vocabulary: ${voice.vocabulary.join(', ')}`;
+  }
+  if (voice.forbiddenTerms.length > 0) {
+    section += `\nNever use these terms: ${voice.forbiddenTerms.join(', ')}`;
+  }
+  if (voice.samples.length > 0) {
+    section += `\nSample paragraphs in this voice (match their style, do not copy their content):\n${voice.samples.map((sample) => `"""\n${sample}\n"""`).join('\n')}`;
+  }
+
+  return section;
+}
+
+export function getStructureItems(structure: ArticleSettings['structure']): string[] {
+  const structureItems = [];
+  if (structure.conclusion) structureItems.push('Conclusion section');
+  if (structure.faqSection) structureItems.push('FAQ section');
+  if (structure.tables) structureItems.push('Data tables');
+  if (structure.h3Headings) structureItems.push('H3 subheadings within sections');
+  if (structure.lists) structureItems.push('Bulleted or numbered lists');
+  if (structure.italics) structureItems.push('Italic text for emphasis');
+  if (structure.bold) structureItems.push('Bold text for emphasis');
+  if (structure.quotes) structureItems.push('Relevant quotes');
+  if (structure.keyTakeaways) structureItems.push('Key takeaways section');
+
+  return structureItems;
+}
+
+// JSON output instructions the article parser relies on
+export function buildOutputFormat({ structure, outline }: Pick<PromptData, 'structure' | 'outline'>): string {
+  return `OUTPUT FORMAT:
+Respond with a single JSON object and nothing else, with these fields:
+- "metaTitle": the meta title (50-60 characters)
+- "metaDescription": the meta description (150-160 characters)
+- "slug": a short lowercase URL slug using hyphens
+- "h1": the article H1
+- "body": the article in markdown from the introduction through the last H2 section, without the H1 and without the FAQ
+- "faq": ${structure.faqSection || outline?.faq.length ? 'the FAQ as an array of {"question", "answer"} objects' : 'an empty array'}`;
 }
 
 export function buildArticlePrompt(data: PromptData): string {
@@ -11,46 +159,12 @@ export function buildArticlePrompt(data: PromptData): string {
     keywords,
     articleType,
     articleSize,
-    tone,
-    pointOfView,
-    readability,
-    aiCleaning,
     structure,
-    language
+    language,
+    outline
   } = data;
 
-  // Language settings
-  const languageNames: { [key: string]: string } = {
-    'en': 'English',
-    'es': 'Spanish',
-    'fr': 'French',
-    'de': 'German',
-    'it': 'Italian',
-    'pt': 'Portuguese',
-    'nl': 'Dutch',
-    'pl': 'Polish',
-    'ru': 'Russian',
-    'ja': 'Japanese',
-    'ko': 'Korean',
-    'zh': 'Chinese',
-    'ar': 'Arabic',
-    'hi': 'Hindi',
-    'tr': 'Turkish',
-    'sv': 'Swedish',
-    'da': 'Danish',
-    'no': 'Norwegian',
-    'fi': 'Finnish'
-  };
-
-  const targetLanguage = languageNames[language] || 'English';
-
-  // Word count and heading requirements
-  const sizeRequirements = {
-    'X-Small': { words: '600-1200', h2: '2-5' },
-    'Small': { words: '1200-2400', h2: '5-8' },
-    'Medium': { words: '2400-3600', h2: '9-12' },
-    'Large': { words: '3600-5200', h2: '13-16' }
-  };
+  const targetLanguage = getLanguageName(language, data.options);
 
   const sizeReq = sizeRequirements[articleSize as keyof typeof sizeRequirements];
 
@@ -67,90 +181,34 @@ ARTICLE REQUIREMENTS:
 - Main Keywords: ${keywords}`;
 
   // Add article type if specified
-  if (articleType !== 'None') {
-    prompt += `\n- Article Type: ${articleType}`;
+  if (articleType !== NO_OPTION) {
+    prompt += `\n- Article Type: ${getOptionInstruction('articleType', articleType, data.options)}`;
   }
 
-  // Add tone if specified
-  if (tone !== 'None') {
-    const toneInstructions = {
-      'Friendly': 'Use a warm, approachable, and conversational tone',
-      'Professional': 'Maintain a formal, business-appropriate tone',
-      'Informational': 'Focus on providing clear, educational information',
-      'Transactional': 'Include clear calls-to-action and conversion-focused language',
-      'Inspirational': 'Use motivational and uplifting language',
-      'Neutral': 'Maintain an objective and unbiased tone',
-      'Witty': 'Include clever humor and wordplay where appropriate',
-      'Casual': 'Use informal, relaxed language',
-      'Authoritative': 'Demonstrate expertise and confidence',
-      'Encouraging': 'Use supportive and motivating language',
-      'Persuasive': 'Focus on convincing the reader of your viewpoint',
-      'Poetic': 'Use literary and expressive language'
-    };
-    
-    prompt += `\n- Tone: ${toneInstructions[tone as keyof typeof toneInstructions] || tone}`;
-  }
+  prompt += buildStyleRequirements(data);
 
-  // Add point of view if specified
-  if (pointOfView !== 'None') {
-    const povInstructions = {
-      'First person singular': 'Write from "I", "me", "my", "mine" perspective',
-      'First person plural': 'Write from "we", "us", "our", "ours" perspective', 
-      'Second person': 'Write from "you", "your", "yours" perspective',
-      'Third person': 'Write from "he", "she", "it", "they" perspective'
-    };
-    
-    prompt += `\n- Point of View: ${povInstructions[pointOfView as keyof typeof povInstructions] || pointOfView}`;
-  }
-
-  // Add readability level if specified
-  if (readability !== 'None') {
-    const readabilityInstructions = {
-      '5th grade': 'Use simple vocabulary and short sentences (11-year-old reading level)',
-      '6th grade': 'Use conversational language with moderate complexity',
-      '7th grade': 'Use fairly easy to read language with some complexity',
-      '8th & 9th grade': 'Use easily understood language with moderate complexity',
-      '10th to 12th grade': 'Use fairly difficult language with complex sentences',
-      'College': 'Use difficult language with academic vocabulary',
-      'College graduate': 'Use very difficult language with sophisticated vocabulary',
-      'Professional': 'Use extremely difficult language specific to the industry'
-    };
-    
-    prompt += `\n- Readability Level: ${readabilityInstructions[readability as keyof typeof readabilityInstructions] || readability}`;
-  }
-
-  // Add AI cleaning instructions
-  if (aiCleaning !== 'No AI Words Removal') {
-    const cleaningInstructions = {
-      'Basic AI Words Removal': 'Avoid common AI phrases like "in conclusion", "furthermore", "moreover", "in addition", etc.',
-      'Extended AI Words Removal': 'Eliminate all detectable AI patterns and phrases. Write like a human expert would naturally write.'
-    };
-    
-    prompt += `\n- Content Style: ${cleaningInstructions[aiCleaning as keyof typeof cleaningInstructions] || aiCleaning}`;
+  if (data.brandVoice) {
+    prompt += `\n\n${buildBrandVoice(data.brandVoice)}`;
   }
 
   // Add structure requirements
   prompt += `\n\nSTRUCTURE REQUIREMENTS:`;
   
-  const structureItems = [];
-  if (structure.conclusion) structureItems.push('Conclusion section');
-  if (structure.faqSection) structureItems.push('FAQ section');
-  if (structure.tables) structureItems.push('Data tables');
-  if (structure.h3Headings) structureItems.push('H3 subheadings within sections');
-  if (structure.lists) structureItems.push('Bulleted or numbered lists');
-  if (structure.italics) structureItems.push('Italic text for emphasis');
-  if (structure.bold) structureItems.push('Bold text for emphasis');
-  if (structure.quotes) structureItems.push('Relevant quotes');
-  if (structure.keyTakeaways) structureItems.push('Key takeaways section');
+  const structureItems = getStructureItems(structure);
 
   if (structureItems.length > 0) {
     prompt += `\n- Include: ${structureItems.join(', ')}`;
   }
 
+  // An approved outline replaces the free-form heading plan
+  if (outline) {
+    prompt += `\n\nAPPROVED OUTLINE:\n${formatOutline(outline)}\n\nUse exactly this H1, these H2 sections in this order, and these H3 subheadings. Answer every FAQ question in an FAQ section.`;
+  }
+
   prompt += `\n\nCONTENT GUIDELINES:
 1. Create a compelling, SEO-friendly title that includes the main keywords
 2. Write an engaging introduction that hooks the reader and includes the primary keywords
-3. Develop ${sizeReq.h2} well-structured H2 sections with relevant content
+3. ${outline ? `Develop each H2 section of the approved outline with relevant content` : `Develop ${sizeReq.h2} well-structured H2 sections with relevant content`}
 4. Naturally incorporate the keywords throughout the content (${targetLanguage} language)
 5. Ensure proper heading hierarchy (H1 > H2 > H3)
 6. Include meta descriptions and SEO best practices
@@ -167,7 +225,273 @@ SEO REQUIREMENTS:
 - Ensure mobile readability
 - Include relevant entities and concepts
 
-Please write the complete article now. Start with the title, followed by the meta description, then the full article content. Make sure to follow all the specified requirements and create high-quality, engaging content that ranks well in search engines.`;
+${buildOutputFormat(data)}
+
+Please write the complete article now. Make sure to follow all the specified requirements and create high-quality, engaging content that ranks well in search engines.`;
+
+  return prompt;
+}
+
+// --- Section-by-section generation -------------------------------------------------------
+
+export interface SectionPromptContext extends PromptData {
+  outline: ArticleOutline;
+  // One short summary per section already written, in order
+  previousSummaries: { heading: string; summary: string }[];
+}
+
+function buildSectionContext(data: SectionPromptContext): string {
+  const targetLanguage = getLanguageName(data.language, data.options);
+
+  let context = `You are an expert SEO content writer producing one part of a longer SEO-optimized article in ${targetLanguage}. Write only the part requested below; the other parts are written separately and stitched together.
+
+TITLE: ${data.title}
+KEYWORDS: ${data.keywords}
+
+FULL OUTLINE:
+${formatOutline(data.outline)}`;
+
+  if (data.previousSummaries.length > 0) {
+    context += `\n\nALREADY WRITTEN (do not repeat these points):\n${data.previousSummaries
+      .map(({ heading, summary }) => `- ${heading}: ${summary}`)
+      .join('\n')}`;
+  }
+
+  context += `\n\nREQUIREMENTS:
+- Target Language: ${targetLanguage}
+- Main Keywords: ${data.keywords} (use them naturally, 1-2% density)`;
+
+  if (data.articleType !== NO_OPTION) {
+    context += `\n- Article Type: ${getOptionInstruction('articleType', data.articleType, data.options)}`;
+  }
+  context += buildStyleRequirements(data);
+
+  if (data.brandVoice) {
+    context += `\n\n${buildBrandVoice(data.brandVoice)}`;
+  }
+
+  return context;
+}
+
+export function buildIntroPrompt(data: SectionPromptContext, wordTarget: number): string {
+  return `${buildSectionContext(data)}
+
+INTRODUCTION TO WRITE:
+- Start with the line "# ${data.outline.h1}"
+- Then a line "**Meta title:** " followed by a 50-60 character meta title
+- Then a line "**Meta description:** " followed by a 150-160 character meta description
+- Then an engaging introduction of about ${wordTarget} words that hooks the reader and includes the primary keywords
+- Do not write any H2 sections`;
+}
+
+export function buildSectionPrompt(data: SectionPromptContext, index: number, wordTarget: number): string {
+  const section = data.outline.sections[index];
+  const formatting = getStructureItems(data.structure).filter(
+    (item) => !['Conclusion section', 'FAQ section', 'Key takeaways section'].includes(item)
+  );
+
+  let prompt = `${buildSectionContext(data)}
+
+SECTION TO WRITE (${index + 1} of ${data.outline.sections.length}):
+## ${section.heading}`;
+
+  for (const subheading of section.subheadings) {
+    prompt += `\n### ${subheading}`;
+  }
+
+  prompt += `\n\nSECTION REQUIREMENTS:
+- Length: about ${wordTarget} words
+- Start with the line "## ${section.heading}"${section.subheadings.length > 0 ? ' and use exactly the H3 subheadings listed above' : ''}`;
+
+  if (formatting.length > 0) {
+    prompt += `\n- Where it fits naturally, use: ${formatting.join(', ')}`;
+  }
+
+  prompt += `\n- Do not write an article introduction, and do not add sections that are not listed above`;
+
+  return prompt;
+}
+
+export function buildFaqPrompt(data: SectionPromptContext, wordTarget: number): string {
+  return `${buildSectionContext(data)}
+
+FAQ TO WRITE:
+- Start with the line "## Frequently Asked Questions"
+- Answer each of these questions under its own H3 heading, in order:
+${data.outline.faq.map((question) => `  ### ${question}`).join('\n')}
+- Keep the whole FAQ to about ${wordTarget} words`;
+}
+
+// --- Regenerating one section of a saved article ------------------------------------------
+
+export interface SectionRewriteContext {
+  heading: string;
+  // The section as it is now, heading included
+  section: string;
+  wordTarget: number;
+  // Short summaries of the article's other parts, in order
+  otherSections: { heading: string; summary: string }[];
+  instructions?: string | null;
+}
+
+export function buildSectionRewritePrompt(data: PromptData, context: SectionRewriteContext): string {
+  const targetLanguage = getLanguageName(data.language, data.options);
+  const formatting = getStructureItems(data.structure).filter(
+    (item) => !['Conclusion section', 'FAQ section', 'Key takeaways section'].includes(item)
+  );
+
+  let prompt = `You are an expert SEO content writer rewriting one H2 section of an existing article written in ${targetLanguage}. The rest of the article stays as it is, so the new section has to fit between the sections around it.
+
+TITLE: ${data.title}
+KEYWORDS: ${data.keywords}
+
+REST OF THE ARTICLE (do not repeat these points):
+${context.otherSections.map(({ heading, summary }) => `- ${heading}: ${summary}`).join('\n')}
+
+REQUIREMENTS:
+- Target Language: ${targetLanguage}
+- Main Keywords: ${data.keywords} (use them naturally, 1-2% density)`;
+
+  if (data.articleType !== NO_OPTION) {
+    prompt += `\n- Article Type: ${getOptionInstruction('articleType', data.articleType, data.options)}`;
+  }
+  prompt += buildStyleRequirements(data);
+
+  if (data.brandVoice) {
+    prompt += `\n\n${buildBrandVoice(data.brandVoice)}`;
+  }
+
+  prompt += `\n\nCURRENT SECTION:\n${context.section}
+
+SECTION REQUIREMENTS:
+- Length: about ${context.wordTarget} words
+- Start with the line "## ${context.heading}"
+- Write it better than the current version: more specific, more useful and with no filler`;
+
+  if (formatting.length > 0) {
+    prompt += `\n- Where it fits naturally, use: ${formatting.join(', ')}`;
+  }
+
+  if (context.instructions) {
+    prompt += `\n\nINSTRUCTIONS FROM THE USER (follow them where they do not conflict with the requirements above):\n${context.instructions}`;
+  }
+
+  prompt += `\n\nOutput only the rewritten section, without commentary.`;
 
   return prompt;
-}
\ No newline at end of file
+}
+
+// --- Rewriting a selected passage ----------------------------------------------------------
+
+export interface InlineEditContext {
+  passage: string;
+  // Text right before and after the passage, so the rewrite reads on from it
+  before: string;
+  after: string;
+  task: string;
+}
+
+export function buildInlineEditPrompt(data: PromptData, context: InlineEditContext): string {
+  const targetLanguage = getLanguageName(data.language, data.options);
+
+  let prompt = `You are an expert SEO content editor rewriting one passage of an existing article written in ${targetLanguage}. Only the passage is replaced, so the rewrite has to read naturally between the text before and after it.
+
+TITLE: ${data.title}
+KEYWORDS: ${data.keywords}
+
+REQUIREMENTS:
+- Target Language: ${targetLanguage}`;
+
+  prompt += buildStyleRequirements(data);
+
+  if (data.brandVoice) {
+    prompt += `\n\n${buildBrandVoice(data.brandVoice)}`;
+  }
+
+  prompt += `\n\nTEXT BEFORE THE PASSAGE:\n${context.before || '(start of the article)'}
+
+PASSAGE:
+${context.passage}
+
+TEXT AFTER THE PASSAGE:
+${context.after || '(end of the article)'}
+
+TASK: ${context.task}
+
+Keep the markdown formatting of the passage (bold, italics, links and line breaks). Output only the rewritten passage, without quotes or commentary.`;
+
+  return prompt;
+}
+
+// --- Translating a saved article -----------------------------------------------------------
+
+export interface TranslationContext {
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+// The fields are sent and returned as JSON so the model cannot mix them up
+export function buildTranslationMetadataPrompt(context: TranslationContext, fields: object): string {
+  return `You are an expert SEO translator localizing an article from ${context.sourceLanguage} into ${context.targetLanguage} for readers who search in ${context.targetLanguage}.
+
+Translate the fields of the JSON object below into ${context.targetLanguage} and answer with the same JSON structure.
+- keywords: do not translate them word for word. Replace each keyword with the phrase people actually search for in ${context.targetLanguage}, comma-separated and in the same order
+- title, h1 and metaTitle: translate naturally and use the localized primary keyword; keep metaTitle to 50-60 characters
+- metaDescription: 150-160 characters, including the localized primary keyword
+- faq: translate every question and answer, keeping the markdown formatting of the answers
+- Keep brand names, product names, numbers and URLs as they are
+
+ARTICLE FIELDS:
+${JSON.stringify(fields, null, 2)}`;
+}
+
+export function buildTranslationSectionPrompt(
+  context: TranslationContext & { keywords: string; localizedKeywords: string },
+  section: string
+): string {
+  return `You are an expert translator localizing one part of an SEO article from ${context.sourceLanguage} into ${context.targetLanguage}.
+
+KEYWORDS: ${context.keywords}
+LOCALIZED KEYWORDS: ${context.localizedKeywords}
+Where the original uses a keyword, use its localized keyword rather than a literal translation.
+
+RULES:
+- Translate faithfully: keep every point, example and number, and do not add, drop or summarize anything
+- Keep the markdown structure exactly: the same headings at the same levels, the same list items, the same table rows and columns, and the same bold, italics and links
+- Write naturally for native readers of ${context.targetLanguage} rather than word for word
+- Keep the tone and point of view of the original
+- Keep brand names, product names, URLs and code unchanged
+
+TEXT TO TRANSLATE:
+${section}
+
+Output only the translated text, without commentary.`;
+}
+
+// --- Targeted repairs ----------------------------------------------------------------------
+
+export function buildRepairPrompt(data: PromptData, headings: string[], task: string): string {
+  const targetLanguage = getLanguageName(data.language, data.options);
+
+  let prompt = `You are an expert SEO content editor fixing one problem in an existing article written in ${targetLanguage}.
+
+TITLE: ${data.title}
+KEYWORDS: ${data.keywords}
+
+ARTICLE SECTIONS:
+${headings.map((heading) => `## ${heading}`).join('\n')}
+
+REQUIREMENTS:
+- Target Language: ${targetLanguage}
+- Main Keywords: ${data.keywords} (use them naturally)`;
+
+  prompt += buildStyleRequirements(data);
+
+  if (data.brandVoice) {
+    prompt += `\n\n${buildBrandVoice(data.brandVoice)}`;
+  }
+
+  prompt += `\n\nREPAIR TASK:\n${task}\n\nOutput only the requested markdown, without commentary.`;
+
+  return prompt;
+}
@@ -0,0 +1,79 @@
+import type { PromptCall, PromptRecord } from "@/db/schema/articles";
+import type { LLMGenerateParams, LLMProvider } from "@/lib/llm";
+
+function joinContent(params: LLMGenerateParams, role: "system" | "user"): string {
+  return params.messages
+    .filter((message) => message.role === role)
+    .map((message) => message.content)
+    .join("\n\n");
+}
+
+// Wraps a provider and keeps the exact prompts and parameters of every call it makes, so they
+// can be saved with the article and used to reproduce or debug its output.
+export function createPromptRecorder(provider: LLMProvider) {
+  const calls: PromptCall[] = [];
+
+  const record = (params: LLMGenerateParams) => {
+    const template = params.promptTemplate ?? "unversioned";
+
+    // Continuations resend the original prompt with the text so far; count them instead of storing it again
+    if (params.messages.some((message) => message.role === "assistant")) {
+      const original = calls.findLast((call) => call.template === template);
+      if (original) {
+        original.continuations++;
+        return;
+      }
+    }
+
+    calls.push({
+      template,
+      systemPrompt: joinContent(params, "system"),
+      userPrompt: joinContent(params, "user"),
+      params: {
+        model: provider.model,
+        temperature: params.temperature ?? null,
+        topP: params.topP ?? null,
+        frequencyPenalty: params.frequencyPenalty ?? null,
+        presencePenalty: params.presencePenalty ?? null,
+        maxTokens: params.maxTokens,
+        responseFormat: params.responseFormat?.name ?? null,
+      },
+      continuations: 0,
+    });
+  };
+
+  const recorded: LLMProvider = {
+    name: provider.name,
+    model: provider.model,
+
+    generate(params) {
+      record(params);
+      return provider.generate(params);
+    },
+
+    stream(params) {
+      record(params);
+      return provider.stream(params);
+    },
+  };
+
+  return {
+    provider: recorded,
+
+    // Records a call without making it, e.g. for a suggestion written in an earlier request that
+    // is only saved once the user accepts it
+    recordCall(params: LLMGenerateParams) {
+      record(params);
+    },
+
+    getRecord(): PromptRecord | null {
+      if (calls.length === 0) return null;
+      return {
+        provider: provider.name,
+        model: provider.model,
+        calls,
+        recordedAt: new Date().toISOString(),
+      };
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import { getLanguageName, resolveOption, type OptionCategory } from "@/lib/article-options";
+import {
+  ARTICLE_SYSTEM_PROMPT,
+  buildBrandVoice,
+  buildOutputFormat,
+  buildStyleRequirements,
+  cleaningInstructions,
+  formatOutline,
+  getStructureItems,
+  sizeRequirements,
+  type PromptData,
+} from "@/lib/prompt-builder";
+
+// Placeholders a user prompt template can use, rendered from the article settings. Shared by
+// the server, which renders the prompt, and the editor, which previews it.
+export const TEMPLATE_VARIABLES = [
+  { name: "title", description: "Article title" },
+  { name: "keywords", description: "Keywords as entered" },
+  { name: "language", description: "Language name, e.g. English" },
+  { name: "wordRange", description: "Target word count, e.g. 2400-3600" },
+  { name: "h2Range", description: "Number of H2 sections, e.g. 9-12" },
+  { name: "articleType", description: "Article type, or None" },
+  { name: "articleTypeInstruction", description: "Instruction for the article type; empty when it has none" },
+  { name: "tone", description: "Tone option, or None" },
+  { name: "toneInstruction", description: "Instruction for the tone; empty for None" },
+  { name: "pointOfView", description: "Point of view option, or None" },
+  { name: "pointOfViewInstruction", description: "Instruction for the point of view; empty for None" },
+  { name: "readability", description: "Readability option, or None" },
+  { name: "readabilityInstruction", description: "Instruction for the readability level; empty for None" },
+  { name: "aiCleaningInstruction", description: "Built-in instruction for AI phrase removal; empty when off" },
+  { name: "styleRequirements", description: "Tone, point of view, readability and AI cleaning as a bulleted list" },
+  { name: "brandVoice", description: "The selected brand voice profile; appended automatically when not used" },
+  { name: "structureItems", description: "Comma-separated structure elements to include" },
+  { name: "outline", description: "The approved outline with instructions; empty without one" },
+  { name: "outputFormat", description: "JSON output instructions; appended automatically when not used" },
+] as const;
+
+export type TemplateVariableName = (typeof TEMPLATE_VARIABLES)[number]["name"];
+export type TemplateVariables = { [name in TemplateVariableName]: string };
+
+export type PromptTemplateContent = {
+  systemPrompt: string;
+  userPrompt: string;
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}/g;
+const KNOWN_VARIABLES = new Set<string>(TEMPLATE_VARIABLES.map((variable) => variable.name));
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
+
+// Problems that would stop the template from rendering, as user-facing messages
+export function findTemplateIssues(template: string): string[] {
+  const issues: string[] = [];
+  const unknown = new Set<string>();
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    if (!KNOWN_VARIABLES.has(match[1])) unknown.add(match[1]);
+  }
+  for (const name of unknown) {
+    issues.push(`Unknown variable {{${name}}}`);
+  }
+
+  // Whatever is left between double braces is not a valid placeholder
+  const leftover = template.replace(PLACEHOLDER, "").match(/\{\{[^}]{0,30}|\}\}/);
+  if (leftover) {
+    issues.push(`Malformed placeholder near "${leftover[0]}"; use {{variableName}}`);
+  }
+
+  return issues;
+}
+
+// Substitutes placeholders in a single pass, so values that contain braces are never expanded
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  const issues = findTemplateIssues(template);
+  if (issues.length > 0) {
+    throw new PromptTemplateError(issues.join("; "));
+  }
+  return template.replace(PLACEHOLDER, (_, name: TemplateVariableName) => variables[name]);
+}
+
+export function buildTemplateVariables(data: PromptData): TemplateVariables {
+  const size = sizeRequirements[data.articleSize as keyof typeof sizeRequirements] ?? sizeRequirements.Small;
+  const label = (category: OptionCategory, value: string) => resolveOption(category, value, data.options).label;
+  const instruction = (category: OptionCategory, value: string) => resolveOption(category, value, data.options).instruction ?? "";
+
+  return {
+    title: data.title,
+    keywords: data.keywords,
+    language: getLanguageName(data.language, data.options),
+    wordRange: size.words,
+    h2Range: size.h2,
+    articleType: label("articleType", data.articleType),
+    articleTypeInstruction: instruction("articleType", data.articleType),
+    tone: label("tone", data.tone),
+    toneInstruction: instruction("tone", data.tone),
+    pointOfView: label("pointOfView", data.pointOfView),
+    pointOfViewInstruction: instruction("pointOfView", data.pointOfView),
+    readability: label("readability", data.readability),
+    readabilityInstruction: instruction("readability", data.readability),
+    aiCleaningInstruction: cleaningInstructions[data.aiCleaning] ?? "",
+    styleRequirements: buildStyleRequirements(data).trim(),
+    brandVoice: buildBrandVoice(data.brandVoice),
+    structureItems: getStructureItems(data.structure).join(", "),
+    outline: data.outline
+      ? `APPROVED OUTLINE:\n${formatOutline(data.outline)}\n\nUse exactly this H1, these H2 sections in this order, and these H3 subheadings. Answer every FAQ question in an FAQ section.`
+      : "",
+    outputFormat: buildOutputFormat(data),
+  };
+}
+
+// Renders both prompts of a template. The article parser needs the JSON output instructions and
+// a selected brand voice should never be dropped, so both are appended when the template does
+// not place them itself.
+export function renderPromptTemplate(template: PromptTemplateContent, data: PromptData): PromptTemplateContent {
+  const variables = buildTemplateVariables(data);
+  let userPrompt = renderTemplate(template.userPrompt, variables);
+
+  const used = new Set([...template.systemPrompt.matchAll(PLACEHOLDER), ...template.userPrompt.matchAll(PLACEHOLDER)].map((match) => match[1]));
+  if (variables.brandVoice && !used.has("brandVoice")) {
+    userPrompt += `\n\n${variables.brandVoice}`;
+  }
+  if (!used.has("outputFormat")) {
+    userPrompt += `\n\n${variables.outputFormat}`;
+  }
+
+  return {
+    systemPrompt: renderTemplate(template.systemPrompt, variables),
+    userPrompt,
+  };
+}
+
+// Starting point for new templates, close to the built-in article prompt
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplateContent = {
+  systemPrompt: ARTICLE_SYSTEM_PROMPT,
+  userPrompt: `Write a comprehensive, SEO-optimized article in {{language}} based on the following specifications:
+
+TITLE: {{title}}
+KEYWORDS: {{keywords}}
+
+ARTICLE REQUIREMENTS:
+- Target Language: {{language}}
+- Word Count: {{wordRange}} words
+- H2 Headings: {{h2Range}} sections
+- Article Type: {{articleType}}
+{{styleRequirements}}
+
+{{brandVoice}}
+
+STRUCTURE REQUIREMENTS:
+- Include: {{structureItems}}
+
+{{outline}}
+
+CONTENT GUIDELINES:
+1. Write an engaging introduction that hooks the reader and includes the primary keywords
+2. Naturally incorporate the keywords throughout the content
+3. Ensure proper heading hierarchy (H1 > H2 > H3)
+4. Write unique, valuable content that provides real insights
+
+{{outputFormat}}`,
+};
+
+// Settings the editor previews templates with
+export const SAMPLE_PROMPT_DATA: PromptData = {
+  title: "How to Start Composting at Home",
+  keywords: "home composting, compost bin, kitchen scraps",
+  articleType: "How-to guide",
+  articleSize: "Medium",
+  tone: "Friendly",
+  pointOfView: "Second person",
+  readability: "8th & 9th grade",
+  aiCleaning: "Basic AI Words Removal",
+  structure: {
+    conclusion: true,
+    faqSection: true,
+    tables: false,
+    h3Headings: true,
+    lists: true,
+    italics: false,
+    bold: true,
+    quotes: false,
+    keyTakeaways: true,
+  },
+  language: "en",
+  outline: null,
+};
@@ -0,0 +1,105 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/db";
+import { promptTemplates, type PromptTemplate } from "@/db/schema/prompt-templates";
+import { findTemplateIssues, PromptTemplateError, type PromptTemplateContent } from "@/lib/prompt-template-renderer";
+import { generateId } from "@/lib/utils";
+
+// Unknown variables and malformed placeholders are reported on the field they appear in
+const templateText = (max: number) =>
+  z.string().trim().min(1).max(max).superRefine((value, ctx) => {
+    for (const issue of findTemplateIssues(value)) {
+      ctx.addIssue({ code: "custom", message: issue });
+    }
+  });
+
+export const promptTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullish(),
+  systemPrompt: templateText(5000),
+  userPrompt: templateText(20000),
+});
+
+export type PromptTemplateInput = z.infer<typeof promptTemplateSchema>;
+
+// A user template ready to render, tagged with its id and version for the prompt record
+export type ArticlePromptTemplate = PromptTemplateContent & {
+  tag: string;
+};
+
+export async function listPromptTemplates(userId: string) {
+  return db
+    .select()
+    .from(promptTemplates)
+    .where(eq(promptTemplates.userId, userId))
+    .orderBy(desc(promptTemplates.updatedAt));
+}
+
+export async function getPromptTemplate(userId: string, id: string): Promise<PromptTemplate | null> {
+  const [template] = await db
+    .select()
+    .from(promptTemplates)
+    .where(and(eq(promptTemplates.id, id), eq(promptTemplates.userId, userId)))
+    .limit(1);
+
+  return template ?? null;
+}
+
+export async function createPromptTemplate(userId: string, input: PromptTemplateInput) {
+  const [template] = await db
+    .insert(promptTemplates)
+    .values({
+      id: generateId(),
+      userId,
+      name: input.name,
+      description: input.description ?? null,
+      systemPrompt: input.systemPrompt,
+      userPrompt: input.userPrompt,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .returning();
+
+  return template;
+}
+
+export async function updatePromptTemplate(userId: string, id: string, input: PromptTemplateInput) {
+  const [template] = await db
+    .update(promptTemplates)
+    .set({
+      name: input.name,
+      description: input.description ?? null,
+      systemPrompt: input.systemPrompt,
+      userPrompt: input.userPrompt,
+      version: sql`${promptTemplates.version} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(promptTemplates.id, id), eq(promptTemplates.userId, userId)))
+    .returning();
+
+  return template ?? null;
+}
+
+export async function deletePromptTemplate(userId: string, id: string) {
+  const [template] = await db
+    .delete(promptTemplates)
+    .where(and(eq(promptTemplates.id, id), eq(promptTemplates.userId, userId)))
+    .returning();
+
+  return template ?? null;
+}
+
+// Loads the template a generation request asked for
+export async function loadArticlePromptTemplate(userId: string, id: string): Promise<ArticlePromptTemplate> {
+  const template = await getPromptTemplate(userId, id);
+  if (!template) {
+    throw new PromptTemplateError("The selected prompt template no longer exists.");
+  }
+
+  return {
+    tag: `custom:${template.id}@${template.version}`,
+    systemPrompt: template.systemPrompt,
+    userPrompt: template.userPrompt,
+  };
+}
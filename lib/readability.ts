@@ -0,0 +1,189 @@
+import {
+  type ReadabilityReport,
+  type ReadabilityScores,
+  type ReadabilitySection,
+  type ReadabilityStatus,
+} from "@/db/schema/articles";
+import { type StructuredArticle } from "@/lib/structured-article";
+import { isCJKWord, stripMarkdown, tokenizeWords } from "@/lib/text-analysis";
+
+// Reading ease band of each readability option, following Flesch's original table
+export const READABILITY_TARGETS: { [level: string]: [number, number] } = {
+  "5th grade": [90, 100],
+  "6th grade": [80, 90],
+  "7th grade": [70, 80],
+  "8th & 9th grade": [60, 70],
+  "10th to 12th grade": [50, 60],
+  "College": [30, 50],
+  "College graduate": [10, 30],
+  "Professional": [0, 10],
+};
+
+// A section this close to its band still reads at the requested level
+const TARGET_TOLERANCE = 5;
+// Shorter sections give scores too noisy to judge
+const MIN_SECTION_WORDS = 30;
+const LONG_WORD_LETTERS = 7;
+
+type EaseFormula = (wordsPerSentence: number, syllablesPerWord: number) => number;
+
+// Flesch Reading Ease and its published adaptations, all on the same 0-100 scale
+const EASE_FORMULAS: { [language: string]: EaseFormula } = {
+  en: (asl, asw) => 206.835 - 1.015 * asl - 84.6 * asw,
+  // Fernández Huerta
+  es: (asl, asw) => 206.84 - 0.6 * asw * 100 - 1.02 * asl,
+  // Kandel & Moles
+  fr: (asl, asw) => 207 - 1.015 * asl - 73.6 * asw,
+  // Amstad
+  de: (asl, asw) => 180 - asl - 58.5 * asw,
+  // Franchini
+  it: (asl, asw) => 217 - 1.3 * asl - 0.6 * asw * 100,
+  // Martins et al.
+  pt: (asl, asw) => 248.835 - 1.015 * asl - 84.6 * asw,
+  // Douma
+  nl: (asl, asw) => 206.835 - 0.93 * asl - 77 * asw,
+  // Oborneva
+  ru: (asl, asw) => 206.835 - 1.3 * asl - 60.1 * asw,
+  // Ateşman
+  tr: (asl, asw) => 198.825 - 40.175 * asw - 2.61 * asl,
+};
+
+// Written without spaces, so neither syllables nor word lengths say much
+const UNSCORED_LANGUAGES = ["zh", "ja"];
+
+// Latin vowels with their accented forms, dotless i and Cyrillic vowels
+const VOWEL_GROUPS = /[aeiouy\u00e0-\u00e6\u00e8-\u00ef\u00f2-\u00f6\u00f8-\u00fd\u00ff\u0153\u0131\u0430\u0435\u0438\u043e\u0443\u044b\u044d\u044e\u044f\u0451\u0454\u0456\u0457\u04e9]+/g;
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function countSyllables(word: string, language: string): number {
+  let letters = word.replace(/[^\p{L}]/gu, "");
+  if (!letters) return 0;
+
+  if (language === "en") {
+    if (letters.length <= 3) return 1;
+    // Silent endings such as "-es", "-ed" and a final "e"
+    letters = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+    return Math.max(1, (letters.match(/[aeiouy]{1,2}/g) || []).length);
+  }
+
+  return Math.max(1, (letters.match(VOWEL_GROUPS) || []).length);
+}
+
+// Sentences of a markdown fragment; headings and table rows are left out, list items count as sentences
+export function splitSentences(markdown: string): string[] {
+  const prose = markdown
+    .split("\n")
+    .filter((line) => !/^\s*(#|\|)/.test(line))
+    .join("\n");
+
+  return stripMarkdown(prose)
+    .split(/(?<=[.!?\u061f\u0964])\s+|(?<=[\u3002\uff01\uff1f])|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => /[\p{L}\p{N}]/u.test(sentence));
+}
+
+export function getReadabilityMethod(language: string): ReadabilityReport["method"] {
+  if (UNSCORED_LANGUAGES.includes(language)) return "none";
+  if (language === "en") return "flesch";
+  return EASE_FORMULAS[language] ? "adapted" : "lix";
+}
+
+// Readability option whose band contains the reading ease
+export function getReadabilityLevel(readingEase: number): string {
+  const ease = Math.min(100, Math.max(0, readingEase));
+  const match = Object.entries(READABILITY_TARGETS).find(([, [min, max]]) => ease >= min && ease <= max);
+  return match ? match[0] : "Professional";
+}
+
+export function scoreReadability(markdown: string, language: string): ReadabilityScores {
+  const method = getReadabilityMethod(language);
+  const sentences = splitSentences(markdown);
+  const words = sentences.flatMap((sentence) => tokenizeWords(sentence, language)).filter((word) => /\p{L}/u.test(word));
+  const wordCount = words.length;
+  const sentenceCount = Math.max(1, sentences.length);
+  const averageSentenceLength = wordCount / sentenceCount;
+  const longWordRatio = wordCount > 0
+    ? (words.filter((word) => !isCJKWord(word) && word.replace(/[^\p{L}]/gu, "").length >= LONG_WORD_LETTERS).length / wordCount) * 100
+    : 0;
+
+  let readingEase: number | null = null;
+  let gradeLevel: number | null = null;
+  let averageSyllablesPerWord: number | null = null;
+  let polysyllableRatio: number | null = null;
+
+  if (wordCount > 0 && (method === "flesch" || method === "adapted")) {
+    const syllables = words.map((word) => countSyllables(word, language));
+    averageSyllablesPerWord = syllables.reduce((total, count) => total + count, 0) / wordCount;
+    polysyllableRatio = (syllables.filter((count) => count >= 3).length / wordCount) * 100;
+    readingEase = EASE_FORMULAS[language](averageSentenceLength, averageSyllablesPerWord);
+    if (method === "flesch") {
+      gradeLevel = 0.39 * averageSentenceLength + 11.8 * averageSyllablesPerWord - 15.59;
+    }
+  } else if (wordCount > 0 && method === "lix") {
+    // LIX works without syllables; 20 (very easy) to 65 (very hard) is stretched over the Flesch scale
+    const lix = averageSentenceLength + longWordRatio;
+    readingEase = 100 - (lix - 20) * 2;
+  }
+
+  return {
+    words: wordCount,
+    sentences: sentences.length,
+    // The formulas run past both ends of the scale for very short or very dense text
+    readingEase: readingEase === null ? null : round(Math.min(100, Math.max(0, readingEase))),
+    gradeLevel: gradeLevel === null ? null : round(Math.max(0, gradeLevel)),
+    averageSentenceLength: round(averageSentenceLength),
+    averageSyllablesPerWord: averageSyllablesPerWord === null ? null : round(averageSyllablesPerWord, 2),
+    longWordRatio: round(longWordRatio),
+    polysyllableRatio: polysyllableRatio === null ? null : round(polysyllableRatio),
+    level: readingEase === null ? null : getReadabilityLevel(readingEase),
+  };
+}
+
+function getStatus(scores: ReadabilityScores, target: string | null, minWords = 0): ReadabilityStatus {
+  const band = target ? READABILITY_TARGETS[target] : undefined;
+  if (!band || scores.readingEase === null || scores.words < minWords) return "not-scored";
+
+  const [min, max] = band;
+  if (scores.readingEase < min - TARGET_TOLERANCE) return "too-hard";
+  if (scores.readingEase > max + TARGET_TOLERANCE) return "too-easy";
+  return "on-target";
+}
+
+// Scores the article as a whole and per section against the requested readability option
+export function analyzeReadability(
+  article: StructuredArticle,
+  settings: { readability: string; language: string }
+): ReadabilityReport {
+  const target = READABILITY_TARGETS[settings.readability] ? settings.readability : null;
+  const faqText = article.faq.map((item) => item.answer).join("\n\n");
+
+  const parts = article.body
+    .split(/\n(?=##\s)/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => ({
+      heading: part.match(/^##\s+(.+)$/m)?.[1].trim() ?? "Introduction",
+      text: part,
+    }));
+  if (faqText) {
+    parts.push({ heading: "FAQ", text: faqText });
+  }
+
+  const sections: ReadabilitySection[] = parts.map(({ heading, text }) => {
+    const scores = scoreReadability(text, settings.language);
+    return { heading, ...scores, status: getStatus(scores, target, MIN_SECTION_WORDS) };
+  });
+  const overall = scoreReadability(`${article.body}\n\n${faqText}`, settings.language);
+
+  return {
+    method: getReadabilityMethod(settings.language),
+    target,
+    overall: { ...overall, status: getStatus(overall, target) },
+    sections,
+    checkedAt: new Date().toISOString(),
+  };
+}
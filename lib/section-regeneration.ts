@@ -0,0 +1,110 @@
+import { z } from "zod";
+import type { Article, ArticleSettings } from "@/db/schema/articles";
+import { finalizeEditedArticle, resolveSavedArticle } from "@/lib/article-generation";
+import { extractSection, joinSections, splitSections } from "@/lib/article-repair";
+import { saveArticleRevision } from "@/lib/article-revisions";
+import { SECTION_SYSTEM_PROMPT, summarizeSection } from "@/lib/chunked-generation";
+import { getSamplingParams } from "@/lib/generation-params";
+import { getLLMProvider } from "@/lib/llm";
+import { createUsageTracker } from "@/lib/llm-usage";
+import { buildSectionRewritePrompt, PROMPT_TEMPLATES } from "@/lib/prompt-builder";
+import { createPromptRecorder } from "@/lib/prompt-recorder";
+import { getStructuredArticle } from "@/lib/structured-article";
+import { countWords } from "@/lib/text-analysis";
+
+const SECTION_MAX_TOKENS = 2000;
+// Very short sections are usually what the user wants fixed, so they get room to grow
+const MIN_SECTION_WORDS = 200;
+
+export const regenerateSectionSchema = z.object({
+  // Position among the article's H2 headings; the heading guards against a stale page
+  sectionIndex: z.number().int().min(0),
+  heading: z.string().min(1).max(300),
+  instructions: z.string().trim().max(1000).nullish(),
+});
+
+export type RegenerateSectionInput = z.infer<typeof regenerateSectionSchema>;
+
+export class SectionRegenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SectionRegenerationError";
+  }
+}
+
+function getHeading(section: string): string | null {
+  return section.match(/^##\s+(.+)$/m)?.[1]?.trim() ?? null;
+}
+
+// Rewrites one H2 section with the article's saved settings, the other sections as context and
+// the user's instructions, and saves the result as a new revision. Throws
+// SectionRegenerationError when the section is gone or the model returned no section, and
+// StaleArticleError when the article changed in the meantime.
+export async function regenerateSection(
+  userId: string,
+  article: Article & { settings: ArticleSettings },
+  input: RegenerateSectionInput,
+  signal?: AbortSignal
+): Promise<Article> {
+  const structured = getStructuredArticle(article);
+  const sections = splitSections(structured.body);
+  const headed = sections
+    .map((text, index) => ({ text, index, heading: /^##\s/.test(text) ? getHeading(text) : null }))
+    .filter((section) => section.heading !== null);
+
+  const target = headed[input.sectionIndex];
+  if (!target || target.heading !== input.heading.trim()) {
+    throw new SectionRegenerationError("This section is no longer in the article. Reload the article and pick it again.");
+  }
+
+  const data = await resolveSavedArticle(article);
+  const usage = createUsageTracker(getLLMProvider(data.model), userId);
+  const prompts = createPromptRecorder(usage.provider);
+
+  const otherSections = sections
+    .filter((_, index) => index !== target.index)
+    .map((text) => ({ heading: getHeading(text) ?? "Introduction", summary: summarizeSection(text) }));
+
+  const result = await prompts.provider.generate({
+    messages: [
+      { role: "system", content: SECTION_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: buildSectionRewritePrompt(data, {
+          heading: target.heading!,
+          section: target.text,
+          wordTarget: Math.max(MIN_SECTION_WORDS, countWords(target.text)),
+          otherSections,
+          instructions: input.instructions,
+        }),
+      },
+    ],
+    ...getSamplingParams(data, SECTION_MAX_TOKENS),
+    promptTemplate: PROMPT_TEMPLATES.sectionRewrite,
+    signal,
+  });
+
+  const output = extractSection(result.content);
+  if (!output || result.finishReason !== "stop") {
+    await usage.flush();
+    throw new SectionRegenerationError("The AI service did not return a complete section. Please try again.");
+  }
+
+  // The heading is what the user picked; only the text under it is rewritten
+  const rewritten = output.replace(/^##\s+.*$/m, () => `## ${target.heading}`);
+  const updatedSections = [...sections];
+  updatedSections[target.index] = rewritten;
+  const finalized = await finalizeEditedArticle(data, { ...structured, body: joinSections(updatedSections) });
+
+  const saved = await saveArticleRevision(
+    article,
+    { ...finalized, promptRecord: prompts.getRecord() },
+    {
+      source: "section",
+      note: input.instructions ? `Regenerated "${target.heading}": ${input.instructions}` : `Regenerated "${target.heading}"`,
+    }
+  );
+  await usage.assignArticle(saved.id);
+
+  return saved;
+}
@@ -0,0 +1,37 @@
+// Minimal Server-Sent Events helpers shared by the streaming routes and hooks
+
+export type SSEMessage = {
+  event: string;
+  data: string;
+};
+
+const encoder = new TextEncoder();
+
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Splits a buffered SSE payload into complete messages and the unparsed remainder
+export function parseSSEBuffer(buffer: string): { messages: SSEMessage[]; rest: string } {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() ?? "";
+
+  const messages = blocks
+    .map((block) => {
+      let event = "message";
+      const data: string[] = [];
+
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).trimStart());
+        }
+      }
+
+      return { event, data: data.join("\n") };
+    })
+    .filter((message) => message.data !== "");
+
+  return { messages, rest };
+}
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import { type Article, type ArticleFaqItem } from "@/db/schema/articles";
+
+// Fields the model returns in structured-output mode and that are stored in their own columns
+export const structuredArticleSchema = z.object({
+  metaTitle: z.string().max(200),
+  metaDescription: z.string().max(500),
+  slug: z.string().max(200),
+  h1: z.string().min(1).max(300),
+  body: z.string().min(1),
+  faq: z
+    .array(
+      z.object({
+        question: z.string().min(1).max(300),
+        answer: z.string().min(1),
+      })
+    )
+    .max(20),
+});
+
+export type StructuredArticle = z.infer<typeof structuredArticleSchema>;
+
+// Fields editable from the Metadata tab; the body is edited elsewhere
+export const articleMetadataUpdateSchema = structuredArticleSchema
+  .pick({ metaTitle: true, metaDescription: true, slug: true, h1: true, faq: true })
+  .partial();
+
+export type ArticleMetadataUpdate = z.infer<typeof articleMetadataUpdateSchema>;
+
+// JSON schema sent as the response format; mirrors structuredArticleSchema
+export const ARTICLE_JSON_SCHEMA = {
+  name: "seo_article",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["metaTitle", "metaDescription", "slug", "h1", "body", "faq"],
+    properties: {
+      metaTitle: { type: "string", description: "SEO meta title, 50-60 characters" },
+      metaDescription: { type: "string", description: "SEO meta description, 150-160 characters" },
+      slug: { type: "string", description: "Lowercase URL slug with hyphens" },
+      h1: { type: "string", description: "The article H1 heading" },
+      body: {
+        type: "string",
+        description: "The article in markdown, from the introduction to the last H2 section, without the H1 and without the FAQ",
+      },
+      faq: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["question", "answer"],
+          properties: {
+            question: { type: "string" },
+            answer: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+const FAQ_HEADING = /^##\s+(frequently asked questions|faqs?)\b/i;
+
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80)
+    .replace(/-+$/, "");
+}
+
+// Strict-ish parse of a JSON response; tolerates markdown fences and surrounding text
+export function parseStructuredArticle(text: string): StructuredArticle | null {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = structuredArticleSchema.safeParse(JSON.parse(text.slice(start, end + 1)));
+    if (!parsed.success) return null;
+
+    const article = parsed.data;
+    return { ...article, slug: slugify(article.slug || article.metaTitle || article.h1) };
+  } catch {
+    return null;
+  }
+}
+
+// Best-effort split of a markdown article into its parts. Used for models that ignored the
+// response format, for section-by-section output and to back-fill articles saved before the
+// structured columns existed.
+export function parseArticleMarkdown(content: string, fallbackTitle = ""): StructuredArticle {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  let h1 = "";
+  let metaTitle = "";
+  let metaDescription = "";
+  const bodyLines: string[] = [];
+  const faq: ArticleFaqItem[] = [];
+  let inFaq = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const metaMatch = trimmed.match(/^\**\s*meta\s+(title|description)\s*(?::\s*\**|\**\s*:)\s*(.*)$/i);
+
+    if (!h1 && /^#\s+/.test(trimmed)) {
+      h1 = trimmed.replace(/^#\s+/, "");
+    } else if (metaMatch) {
+      const value = metaMatch[2].replace(/\*+$/, "").trim();
+      if (metaMatch[1].toLowerCase() === "title") metaTitle ||= value;
+      else metaDescription ||= value;
+    } else if (FAQ_HEADING.test(trimmed)) {
+      inFaq = true;
+    } else if (inFaq && /^##\s+/.test(trimmed)) {
+      // A section after the FAQ (e.g. a conclusion) belongs to the body again
+      inFaq = false;
+      bodyLines.push(line);
+    } else if (inFaq && /^###\s+/.test(trimmed)) {
+      faq.push({ question: trimmed.replace(/^###\s+/, "").replace(/\*+/g, ""), answer: "" });
+    } else if (inFaq && faq.length > 0) {
+      const last = faq[faq.length - 1];
+      last.answer = last.answer ? `${last.answer}\n${line}` : line;
+    } else if (!inFaq) {
+      bodyLines.push(line);
+    }
+  }
+
+  h1 = h1 || fallbackTitle;
+
+  return {
+    metaTitle: metaTitle || h1,
+    metaDescription,
+    slug: slugify(metaTitle || h1),
+    h1,
+    body: bodyLines.join("\n").trim(),
+    faq: faq
+      .map((item) => ({ ...item, answer: item.answer.trim() }))
+      .filter((item) => item.answer),
+  };
+}
+
+export function toStructuredArticle(output: string, fallbackTitle: string): StructuredArticle {
+  return parseStructuredArticle(output) ?? parseArticleMarkdown(output, fallbackTitle);
+}
+
+// Structured view of a saved article; rows saved before the structured columns existed are parsed
+export function getStructuredArticle(article: Article): StructuredArticle {
+  if (article.body === null) {
+    return parseArticleMarkdown(article.content, article.title);
+  }
+
+  return {
+    metaTitle: article.metaTitle ?? "",
+    metaDescription: article.metaDescription ?? "",
+    slug: article.slug ?? "",
+    h1: article.h1 ?? article.title,
+    body: article.body,
+    faq: article.faq ?? [],
+  };
+}
+
+// The full markdown article kept in the content column for display, copy and download
+export function renderArticleMarkdown(article: Pick<StructuredArticle, "h1" | "body" | "faq">): string {
+  const parts = [`# ${article.h1}`, article.body];
+
+  if (article.faq.length > 0) {
+    parts.push(
+      [
+        "## Frequently Asked Questions",
+        ...article.faq.map((item) => `### ${item.question}\n\n${item.answer}`),
+      ].join("\n\n")
+    );
+  }
+
+  return parts.filter(Boolean).join("\n\n");
+}
+
+// Incrementally decodes the "body" string of a streamed JSON response, so the browser can show
+// readable markdown while the model is still writing. Returns the newly decoded text per chunk.
+export function createBodyPreviewReader() {
+  let buffer = "";
+  let position = -1;
+  let finished = false;
+
+  return (chunk: string): string => {
+    buffer += chunk;
+    if (finished) return "";
+
+    if (position === -1) {
+      const start = buffer.match(/"body"\s*:\s*"/);
+      if (!start || start.index === undefined) return "";
+      position = start.index + start[0].length;
+    }
+
+    let text = "";
+    while (position < buffer.length) {
+      const char = buffer[position];
+
+      if (char === '"') {
+        finished = true;
+        break;
+      }
+      if (char !== "\\") {
+        text += char;
+        position++;
+        continue;
+      }
+
+      // Wait for the rest of an escape sequence that was split across chunks
+      const escape = buffer[position + 1];
+      if (escape === undefined) break;
+      if (escape === "u") {
+        const hex = buffer.slice(position + 2, position + 6);
+        if (hex.length < 4) break;
+        text += String.fromCharCode(parseInt(hex, 16));
+        position += 6;
+        continue;
+      }
+
+      const escapes: { [key: string]: string } = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+      text += escapes[escape] ?? escape;
+      position += 2;
+    }
+
+    return text;
+  };
+}
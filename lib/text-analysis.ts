@@ -0,0 +1,122 @@
+// Language-aware text helpers shared by the article checks
+
+// Han and kana are written without spaces, so every character counts as one word
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+const WORD_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]|[\p{L}\p{N}][\p{L}\p{M}\p{N}'\u2019-]*/gu;
+
+// Languages written in their own script are recognised by the share of letters in that script
+const SCRIPT_PATTERNS: { [key: string]: RegExp } = {
+  ru: /[\u0400-\u04ff]/g,
+  ja: /[\u3040-\u30ff]/g,
+  zh: /[\u4e00-\u9fff]/g,
+  ko: /[\uac00-\ud7af]/g,
+  ar: /[\u0600-\u06ff]/g,
+  hi: /[\u0900-\u097f]/g,
+};
+
+// Latin-script languages are told apart by their most frequent function words
+const STOPWORDS: { [key: string]: string[] } = {
+  en: ["the", "and", "of", "to", "is", "in", "that", "for", "with", "are", "this", "you"],
+  es: ["el", "la", "de", "que", "y", "los", "las", "en", "para", "una", "por", "es"],
+  fr: ["le", "la", "les", "et", "des", "est", "une", "pour", "dans", "que", "du", "vous"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "mit", "den", "ein", "für", "sie", "auf"],
+  it: ["il", "di", "che", "la", "per", "una", "sono", "della", "non", "gli", "con", "è"],
+  pt: ["o", "que", "os", "para", "uma", "com", "não", "do", "da", "em", "é", "as"],
+  nl: ["de", "het", "een", "en", "van", "is", "dat", "op", "te", "voor", "niet", "zijn"],
+  pl: ["i", "w", "nie", "na", "się", "z", "jest", "do", "to", "że", "jak", "są"],
+  tr: ["ve", "bir", "bu", "için", "ile", "çok", "olarak", "gibi", "daha", "ne", "olan", "veya"],
+  sv: ["och", "att", "det", "som", "är", "på", "för", "med", "av", "inte", "ett", "till"],
+  da: ["og", "at", "det", "er", "til", "på", "for", "med", "som", "ikke", "af", "der"],
+  no: ["og", "at", "det", "er", "til", "på", "for", "med", "som", "ikke", "av", "jeg"],
+  fi: ["ja", "on", "ei", "se", "että", "oli", "kun", "mutta", "myös", "tai", "ovat", "voi"],
+};
+
+// Languages too close to tell apart reliably with word lists
+const EQUIVALENT_LANGUAGES = [["da", "no", "sv"]];
+
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s*\|?\s*:?-{3,}.*$/gm, " ")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^\s*[-*+]\s+/gm, "")
+    .replace(/^\s*\d+\.\s+/gm, "")
+    .replace(/^\s*>\s?/gm, "")
+    .replace(/[*_`|~]/g, " ");
+}
+
+// Locale-aware lowercasing (e.g. Turkish dotted and dotless i); unknown locales fall back to the default
+function toLowerCase(text: string, language?: string): string {
+  if (!language) return text.toLowerCase();
+  try {
+    return text.toLocaleLowerCase(language);
+  } catch {
+    return text.toLowerCase();
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Matches the phrase as whole words, treating straight and curly apostrophes alike
+export function phrasePattern(phrase: string, flags = "giu"): RegExp {
+  const body = escapeRegExp(phrase.trim()).replace(/['’]/g, "['’]").replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, flags);
+}
+
+export function tokenizeWords(text: string, language?: string): string[] {
+  return toLowerCase(text, language).match(WORD_PATTERN) || [];
+}
+
+export function countWords(text: string): number {
+  return tokenizeWords(stripMarkdown(text)).length;
+}
+
+export function isCJKWord(word: string): boolean {
+  return word.length === 1 && CJK_CHAR.test(word);
+}
+
+// Best guess at the language of a text, or null when there is too little to go on
+export function detectLanguage(text: string): string | null {
+  const plain = stripMarkdown(text);
+  const letters = (plain.match(/\p{L}/gu) || []).length;
+  if (letters < 50) return null;
+
+  const scriptShares = Object.entries(SCRIPT_PATTERNS).map(
+    ([language, pattern]) => [language, (plain.match(pattern) || []).length / letters] as const
+  );
+  const kana = scriptShares.find(([language]) => language === "ja")![1];
+  const [topScript, topShare] = scriptShares.reduce((best, current) => (current[1] > best[1] ? current : best));
+  // Japanese mixes kana with Han characters, so a little kana is enough
+  if (kana > 0.05) return "ja";
+  if (topShare > 0.3) return topScript;
+
+  const words = tokenizeWords(plain);
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const set = new Set(stopwords);
+    const score = words.filter((word) => set.has(word)).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+
+  // Fewer than 2% function words means the text is not in any language we know
+  return bestScore / words.length >= 0.02 ? best : null;
+}
+
+// Whether the text looks like it is written in the language; null when the language can't be checked
+export function matchesLanguage(text: string, language: string): boolean | null {
+  if (!SCRIPT_PATTERNS[language] && !STOPWORDS[language]) return null;
+
+  const detected = detectLanguage(text);
+  if (!detected) return null;
+  if (detected === language) return true;
+
+  return EQUIVALENT_LANGUAGES.some((group) => group.includes(language) && group.includes(detected));
+}
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { generateRequestSchema } from "@/lib/article-generation";
+import { getLanguageName, NO_OPTION, type SelectedOptions } from "@/lib/article-options";
+import { getLLMProvider, type LLMProvider } from "@/lib/llm";
+import { getOptionInstruction, PROMPT_TEMPLATES } from "@/lib/prompt-builder";
+import { phrasePattern } from "@/lib/text-analysis";
+
+// Titles double as meta titles, so they are ranked against the same length guidance
+const TITLE_LENGTH = { min: 50, max: 60 };
+const TITLE_COUNT = 10;
+
+export const titleSuggestionRequestSchema = generateRequestSchema.pick({
+  keywords: true,
+  articleType: true,
+  language: true,
+  generation: true,
+});
+
+export type TitleSuggestionRequest = z.infer<typeof titleSuggestionRequestSchema>;
+
+export type TitleSuggestion = {
+  title: string;
+  length: number;
+  // Whether the title contains the first keyword
+  hasPrimaryKeyword: boolean;
+};
+
+const titleListSchema = z.object({
+  titles: z.array(z.string().trim().min(1).max(200)).min(1).max(20),
+});
+
+export const TITLE_SYSTEM_PROMPT =
+  "You are an expert SEO copywriter who writes specific, click-worthy article titles. Always respond with valid JSON only.";
+
+export function buildTitleSuggestionsPrompt(data: TitleSuggestionRequest & { options?: SelectedOptions }): string {
+  const targetLanguage = getLanguageName(data.language, data.options);
+  const primary = data.keywords.split(",")[0].trim();
+
+  let prompt = `Suggest ${TITLE_COUNT} titles for an SEO article in ${targetLanguage}.
+
+KEYWORDS: ${data.keywords}
+
+TITLE REQUIREMENTS:
+- Target Language: ${targetLanguage} (every title must be written in ${targetLanguage})
+- Include the primary keyword "${primary}", ideally near the start
+- ${TITLE_LENGTH.min}-${TITLE_LENGTH.max} characters, so the title also works as the meta title
+- Make each title specific about what the reader gets; avoid clickbait and vague superlatives
+- Vary the angle: how-to, list, question, comparison and benefit-led titles`;
+
+  if (data.articleType !== NO_OPTION) {
+    prompt += `\n- Article Type: ${getOptionInstruction('articleType', data.articleType, data.options)}`;
+  }
+
+  prompt += `
+
+TITLE IDEAS FORMAT:
+Respond with a single JSON object and nothing else, shaped like:
+{"titles": ["First title", "Second title"]}
+List the strongest title first.`;
+
+  return prompt;
+}
+
+function parseTitles(text: string): string[] | null {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = titleListSchema.safeParse(JSON.parse(text.slice(start, end + 1)));
+    return parsed.success ? parsed.data.titles : null;
+  } catch {
+    return null;
+  }
+}
+
+function scoreTitle(suggestion: TitleSuggestion, primary: string): number {
+  let score = 0;
+  if (suggestion.hasPrimaryKeyword) {
+    score += 3;
+    // Keywords at the start of a title carry more weight in search results
+    const at = suggestion.title.toLowerCase().indexOf(primary.toLowerCase());
+    if (at !== -1 && at < 20) score += 1;
+  }
+  if (suggestion.length >= TITLE_LENGTH.min && suggestion.length <= TITLE_LENGTH.max) score += 3;
+  else if (suggestion.length >= TITLE_LENGTH.min - 10 && suggestion.length <= TITLE_LENGTH.max + 10) score += 1;
+  return score;
+}
+
+// Ranks the titles by keyword use and length; the model's own order breaks ties
+export function rankTitles(titles: string[], keywords: string): TitleSuggestion[] {
+  const primary = keywords.split(",")[0].trim();
+  const seen = new Set<string>();
+
+  return titles
+    .map((title) => title.replace(/^["']|["']$/g, "").trim())
+    .filter((title) => {
+      const key = title.toLowerCase();
+      if (!title || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((title) => ({
+      title,
+      length: title.length,
+      hasPrimaryKeyword: primary !== "" && phrasePattern(primary).test(title),
+    }))
+    .map((suggestion, index) => ({ suggestion, index, score: scoreTitle(suggestion, primary) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ suggestion }) => suggestion);
+}
+
+export async function generateTitleSuggestions(
+  data: TitleSuggestionRequest & { options?: SelectedOptions },
+  provider: LLMProvider = getLLMProvider(),
+  signal?: AbortSignal
+): Promise<TitleSuggestion[] | null> {
+  const result = await provider.generate({
+    messages: [
+      { role: "system", content: TITLE_SYSTEM_PROMPT },
+      { role: "user", content: buildTitleSuggestionsPrompt(data) },
+    ],
+    temperature: 0.8,
+    maxTokens: 800,
+    promptTemplate: PROMPT_TEMPLATES.titles,
+    signal,
+  });
+
+  const titles = parseTitles(result.content);
+  return titles ? rankTitles(titles, data.keywords) : null;
+}
@@ -31,3 +31,18 @@ export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength).trim() + '...';
 }
+
+// LLM costs are often fractions of a cent, so small amounts keep more digits
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+export function formatNumber(value: number): string {
+  return new Intl.NumberFormat('en-US').format(value);
+}
+
+// Error message of a failed API response; validation errors show their first field message
+export async function readResponseError(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => null);
+  return error?.details?.[0]?.message || error?.error || fallback;
+}
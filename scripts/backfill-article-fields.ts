@@ -0,0 +1,48 @@
+import 'dotenv/config';
+import { eq, isNull } from 'drizzle-orm';
+import { db } from '@/db';
+import { articles } from '@/db/schema/articles';
+import { parseArticleMarkdown } from '@/lib/structured-article';
+
+// Fills the structured columns (meta title, meta description, slug, H1, body, FAQ) of articles
+// saved before they existed by parsing their markdown content. Safe to run more than once.
+const BATCH_SIZE = 100;
+
+async function backfill() {
+  let updated = 0;
+
+  for (;;) {
+    const batch = await db
+      .select({ id: articles.id, title: articles.title, content: articles.content })
+      .from(articles)
+      .where(isNull(articles.body))
+      .limit(BATCH_SIZE);
+
+    if (batch.length === 0) break;
+
+    for (const article of batch) {
+      const structured = parseArticleMarkdown(article.content, article.title);
+
+      await db
+        .update(articles)
+        // An empty body would match the filter again, so fall back to the raw content
+        .set({ ...structured, body: structured.body || article.content })
+        .where(eq(articles.id, article.id));
+      updated++;
+    }
+
+    console.log(`Back-filled ${updated} articles so far`);
+  }
+
+  return updated;
+}
+
+backfill()
+  .then((updated) => {
+    console.log(`Done, back-filled ${updated} articles`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Back-fill failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,25 @@
+import 'dotenv/config';
+import { runGenerationWorker } from '@/lib/generation-jobs';
+
+// Background worker for queued article generation jobs.
+// Run one or more instances with `npm run worker`; they coordinate through Postgres row locks.
+const controller = new AbortController();
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, finishing current job before exiting...`);
+    controller.abort();
+  });
+}
+
+console.log('Generation worker started');
+
+runGenerationWorker({ signal: controller.signal })
+  .then(() => {
+    console.log('Generation worker stopped');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Generation worker crashed:', error);
+    process.exit(1);
+  });